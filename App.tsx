@@ -1,13 +1,43 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { LectureData, ViewMode, TranscriptSession } from './types';
+import { LectureData, ViewMode, TranscriptSession, TranscriptChunk, GeneratedArtifact, GenerationParams, DifficultyMix, AudienceLevel, NoteLength } from './types';
 import * as StorageService from './services/storageService';
-import * as GeminiService from './services/geminiService';
 import * as YoutubeService from './services/youtubeService';
+import { UnsupportedSchemaError } from './services/schemaService';
+import { ImportItem, ImportResolution, defaultResolution } from './services/mergeService';
+import * as SettingsService from './services/settingsService';
+import * as SyncService from './services/syncService';
+import * as StorageUsageService from './services/storageUsageService';
+import * as CryptoService from './services/cryptoService';
+import * as BackupService from './services/backupService';
+import * as JobService from './services/jobService';
+import * as UsageService from './services/usageService';
+import * as AudioService from './services/audioService';
+import { DIFFICULTY_LABELS, AUDIENCE_LABELS, NOTE_LENGTH_LABELS, PARAM_CHOICES, OUTPUT_LANGUAGES } from './services/geminiService';
+import StoragePanel, { PrunablePart } from './components/StoragePanel';
+import PassphraseModal from './components/PassphraseModal';
+import BackupPanel from './components/BackupPanel';
+import ExportModal from './components/ExportModal';
+import AiSettingsPanel from './components/AiSettingsPanel';
+import AiStatusBanner from './components/AiStatusBanner';
+import JobQueuePanel from './components/JobQueuePanel';
+import PromptTemplatesPanel from './components/PromptTemplatesPanel';
+import UsagePanel from './components/UsagePanel';
+import UnlockScreen from './components/UnlockScreen';
 import Recorder from './components/Recorder';
 import TranscriptView from './components/TranscriptView';
-import { SparklesIcon, ArrowDownTrayIcon, ArrowUpTrayIcon, DocumentTextIcon, HashtagIcon, Bars3Icon, XMarkIcon, PlayCircleIcon, CheckCircleIcon, ChevronLeftIcon, MicIcon, MapIcon } from './components/icons';
+import { SparklesIcon, ArrowDownTrayIcon, ArrowUpTrayIcon, DocumentTextIcon, HashtagIcon, Bars3Icon, XMarkIcon, PlayCircleIcon, CheckCircleIcon, ChevronLeftIcon, MicIcon, MapIcon, TrashIcon, ArrowUturnLeftIcon, LockClosedIcon, LockOpenIcon, ClockIcon, Cog6ToothIcon, QueueListIcon, PencilSquareIcon, ChartBarIcon } from './components/icons';
 import { v4 as uuidv4 } from 'uuid';
 
+const paramInputClass = "px-2 py-1 border border-slate-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+// Declared outside App so its controls aren't remounted on every render
+const ParamRow = ({ label, children }: { label: string; children: React.ReactNode }) => (
+    <label className="flex items-center justify-between gap-4 text-slate-700">
+        <span>{label}</span>
+        {children}
+    </label>
+);
+
 interface GenerationOptions {
     summary: boolean;
     flashcards: boolean;
@@ -20,7 +50,6 @@ const App = () => {
   const [lectures, setLectures] = useState<LectureData[]>([]);
   const [viewMode, setViewMode] = useState<ViewMode>('dashboard');
   const [selectedLectureId, setSelectedLectureId] = useState<string | null>(null);
-  const [isProcessingId, setIsProcessingId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedTag, setSelectedTag] = useState<string | null>(null);
   
@@ -39,6 +68,12 @@ const App = () => {
   const [fetchedVideoData, setFetchedVideoData] = useState<YoutubeService.YoutubeVideoResult | null>(null);
   const [selectedLangIndex, setSelectedLangIndex] = useState<number>(0);
 
+  // Import Preview State
+  const [importItems, setImportItems] = useState<ImportItem[] | null>(null);
+  const [importResolutions, setImportResolutions] = useState<Record<string, ImportResolution>>({});
+  const [expandedImportId, setExpandedImportId] = useState<string | null>(null);
+  const [isApplyingImport, setIsApplyingImport] = useState(false);
+
   const [pendingLectureId, setPendingLectureId] = useState<string | null>(null);
   const [genOptions, setGenOptions] = useState<GenerationOptions>({
       summary: true,
@@ -47,13 +82,158 @@ const App = () => {
       notes: true,
       mindmap: true
   });
+  const [genParams, setGenParams] = useState<GenerationParams>(() => SettingsService.getSettings().generationParams);
+
+  // Trash State
+  const [sidebarView, setSidebarView] = useState<'lectures' | 'trash'>('lectures');
+  const [trashedLectures, setTrashedLectures] = useState<LectureData[]>([]);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(() => SettingsService.getSettings().trashRetentionDays);
+  const [undoDelete, setUndoDelete] = useState<{ id: string; title: string } | null>(null);
+  const undoTimerRef = useRef<number | null>(null);
+
+  // Storage Usage State
+  const [showStoragePanel, setShowStoragePanel] = useState(false);
+  const [storageEstimate, setStorageEstimate] = useState<StorageUsageService.StorageEstimate | null>(null);
+  // Bytes of recorded audio per lecture id, measured alongside the estimate
+  const [audioSizes, setAudioSizes] = useState<Map<string, number>>(new Map());
+  const [storageWarningPercent, setStorageWarningPercent] = useState(() => SettingsService.getSettings().storageWarningPercent);
+
+  // Encryption State
+  const [isLocked, setIsLocked] = useState(() => CryptoService.isVaultLocked());
+  const [isVaultEnabled, setIsVaultEnabled] = useState(() => CryptoService.isVaultEnabled());
+  // `lectures`/`fileName` override what an export prompt writes, e.g. for snapshot downloads
+  const [passphrasePrompt, setPassphrasePrompt] = useState<{ mode: 'enable' | 'disable' | 'export' | 'import'; file?: File; lectures?: LectureData[]; fileName?: string } | null>(null);
+
+  // Export State (`exportSelection` is null unless the sidebar is in selection mode)
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [exportSelection, setExportSelection] = useState<string[] | null>(null);
+
+  const [showAiSettings, setShowAiSettings] = useState(false);
+  // null while closed; the lecture it was opened from, or '' when opened from the sidebar
+  const [promptPanelLectureId, setPromptPanelLectureId] = useState<string | null>(null);
+
+  // Generation Job State
+  const [jobs, setJobs] = useState<JobService.GenerationJob[]>([]);
+  const [showJobPanel, setShowJobPanel] = useState(false);
+
+  // AI Usage State
+  const [showUsagePanel, setShowUsagePanel] = useState(false);
+  const [budget, setBudget] = useState<UsageService.BudgetStatus | null>(null);
+
+  // Backup State
+  const [showBackupPanel, setShowBackupPanel] = useState(false);
+  const [snapshots, setSnapshots] = useState<BackupService.SnapshotInfo[]>([]);
+  const [backupIntervalHours, setBackupIntervalHours] = useState(() => SettingsService.getSettings().backupIntervalHours);
+  const [backupKeepCount, setBackupKeepCount] = useState(() => SettingsService.getSettings().backupKeepCount);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const refreshLibrary = async () => {
+    setIsVaultEnabled(CryptoService.isVaultEnabled());
+    // Another tab may have turned encryption on since this one loaded
+    if (CryptoService.isVaultLocked()) {
+      setIsLocked(true);
+      return;
+    }
+    setLectures(await StorageService.getLectures());
+    setTrashedLectures(await StorageService.getTrashedLectures());
+  };
+
   useEffect(() => {
-    setLectures(StorageService.getLectures());
+    // However the library got locked (here or by another tab turning encryption on), running
+    // jobs go back in the queue and continue once it is unlocked
+    if (isLocked) {
+      JobService.pauseJobQueue();
+      return;
+    }
+    // Purge expired Trash entries and recover interrupted recordings before the first load
+    StorageService.purgeExpiredTrash(SettingsService.getSettings().trashRetentionDays)
+      .catch(e => console.error("Trash purge failed", e))
+      .then(() => StorageService.recoverInterruptedRecordings())
+      .catch(e => console.error("Recording recovery failed", e))
+      .finally(refreshLibrary);
+    // Jobs queued before a reload need the library, so they resume once it is readable
+    JobService.startJobQueue();
+  }, [isLocked]);
+
+  useEffect(() => {
+    const unsubscribeJobs = JobService.subscribeToJobs(setJobs);
+    const unsubscribeCompleted = JobService.subscribeToCompletedJobs(() => {
+      refreshLibrary();
+    });
+    const unsubscribeBudget = UsageService.subscribeToBudget(setBudget);
+    return () => {
+      unsubscribeJobs();
+      unsubscribeCompleted();
+      unsubscribeBudget();
+    };
   }, []);
 
+  useEffect(() => {
+    if (isLocked) return;
+    // Take a scheduled snapshot if one is due, and keep checking while the app stays open
+    const runScheduledBackup = async () => {
+      const { backupIntervalHours, backupKeepCount } = SettingsService.getSettings();
+      if (await BackupService.isBackupDue(backupIntervalHours)) {
+        await BackupService.createSnapshot(await StorageService.getAllLectures(), 'scheduled', backupKeepCount);
+      }
+    };
+    runScheduledBackup().catch(e => console.error("Scheduled backup failed", e));
+    const timer = window.setInterval(() => {
+      runScheduledBackup().catch(e => console.error("Scheduled backup failed", e));
+    }, 60 * 60 * 1000);
+    return () => window.clearInterval(timer);
+  }, [isLocked]);
+
+  useEffect(() => {
+    // Reload when another tab writes to the library
+    const unsubscribe = SyncService.subscribeToLibraryChanges(() => {
+      refreshLibrary();
+    });
+
+    return () => {
+      unsubscribe();
+      if (undoTimerRef.current) window.clearTimeout(undoTimerRef.current);
+    };
+  }, []);
+
+  // Re-measure whenever the library changes
+  useEffect(() => {
+    StorageUsageService.getStorageEstimate().then(setStorageEstimate);
+    AudioService.getLectureAudioSizes()
+      .then(setAudioSizes)
+      .catch(e => console.error("Could not measure recordings", e));
+  }, [lectures, trashedLectures]);
+
+  const storageUsagePercent = storageEstimate && storageEstimate.quota > 0
+    ? (storageEstimate.usage / storageEstimate.quota) * 100
+    : 0;
+  const isStorageWarning = storageUsagePercent >= storageWarningPercent;
+  const activeJobCount = jobs.filter(JobService.isActive).length;
+  const failedJobCount = jobs.filter(job => job.status === 'failed').length;
+
+  const handlePruneLecture = async (lectureId: string, part: PrunablePart) => {
+    if (part === 'audio') {
+      await AudioService.deleteLectureAudio([lectureId]);
+      await StorageService.updateLecture(lectureId, existing => ({
+        sessions: existing.sessions.map(session => ({ ...session, hasAudio: false })),
+      }));
+      await refreshLibrary();
+      return;
+    }
+    const patch: Partial<LectureData> =
+        part === 'chunks' ? { chunks: [] } :
+        part === 'chatHistory' ? { chatHistory: undefined } :
+        { revisions: undefined };
+    await StorageService.updateLecture(lectureId, patch);
+    await refreshLibrary();
+  };
+
+  const handleStorageWarningChange = (percent: number) => {
+    setStorageWarningPercent(percent);
+    SettingsService.updateSettings({ storageWarningPercent: percent });
+  };
+
   const resetYoutubeModal = () => {
       setShowYoutubeModal(false);
       setYoutubeUrl('');
@@ -62,153 +242,303 @@ const App = () => {
       setSelectedLangIndex(0);
   };
 
-  const handleRecordingFinished = async (result: { text: string, duration: number, startTime: string, endTime: string, chunks: any[] }) => {
-    let lectureToSave: LectureData;
+  const handleRecordingFinished = async (result: { text: string, duration: number, startTime: string, endTime: string, chunks: TranscriptChunk[], sessionId: string, lectureId: string, hasAudio: boolean }) => {
+    let lectureId: string;
 
     const newSession: TranscriptSession = {
-        id: uuidv4(),
+        // The recording was stored under this id while it was made
+        id: result.sessionId,
         startTime: result.startTime,
         endTime: result.endTime,
         duration: result.duration,
-        text: result.text
+        text: result.text,
+        hasAudio: result.hasAudio
     };
+    // Chunk timestamps count from the start of this session's recording
+    const sessionChunks = result.chunks.map(chunk => ({ ...chunk, sessionId: newSession.id }));
 
     if (selectedLectureId && viewMode === 'record') {
-        // APPENDING
-        const existing = lectures.find(l => l.id === selectedLectureId);
-        if (!existing) {
+        // APPENDING, to the stored record so edits made elsewhere meanwhile are kept
+        const appended = await StorageService.updateLecture(selectedLectureId, stored => {
+            // Recovery may have added this recording already, as a session without transcript
+            const recovered = stored.sessions?.find(session => session.id === newSession.id);
+            const existing = recovered
+                ? { ...stored, duration: stored.duration - recovered.duration, sessions: stored.sessions.filter(session => session !== recovered) }
+                : stored;
+            return {
+                duration: existing.duration + result.duration,
+                transcriptText: existing.transcriptText + "\n\n" + result.text,
+                sessions: existing.sessions ? [...existing.sessions, newSession] : [
+                    { id: uuidv4(), startTime: existing.date, endTime: new Date().toISOString(), duration: existing.duration, text: existing.transcriptText },
+                    newSession
+                ],
+                // Append chunks if existing has them
+                chunks: [...(existing.chunks || []), ...sessionChunks],
+                // Clear AI content so we can regenerate fresh
+                summary: undefined,
+                flashcards: undefined,
+                quiz: undefined,
+                studyNotes: undefined,
+                mindmap: undefined,
+            };
+        });
+        if (!appended) {
              console.error("Lecture not found during append");
              return;
         }
-
-        lectureToSave = {
-            ...existing,
-            duration: existing.duration + result.duration,
-            transcriptText: existing.transcriptText + "\n\n" + result.text,
-            sessions: existing.sessions ? [...existing.sessions, newSession] : [
-                { id: uuidv4(), startTime: existing.date, endTime: new Date().toISOString(), duration: existing.duration, text: existing.transcriptText },
-                newSession
-            ],
-            // Append chunks if existing has them
-            chunks: [...(existing.chunks || []), ...result.chunks],
-            // Clear AI content so we can regenerate fresh
-            summary: undefined,
-            flashcards: undefined,
-            quiz: undefined,
-            studyNotes: undefined,
-            mindmap: undefined,
-        };
+        lectureId = appended.id;
     } else {
         // CREATING NEW
-        const id = `lect_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-        lectureToSave = {
-            id,
+        lectureId = result.lectureId;
+        await StorageService.saveLecture({
+            id: lectureId,
             title: `Lecture ${new Date().toLocaleString()}`,
             date: result.startTime,
             duration: result.duration,
             transcriptText: result.text,
-            chunks: result.chunks || [],
+            chunks: sessionChunks,
             sessions: [newSession],
             tags: []
-        };
-        setSelectedLectureId(id);
+        });
+        setSelectedLectureId(lectureId);
     }
 
-    StorageService.saveLecture(lectureToSave);
-    setLectures(StorageService.getLectures());
+    setLectures(await StorageService.getLectures());
     setViewMode('detail');
     
     // Open Modal instead of auto-processing
-    setPendingLectureId(lectureToSave.id);
+    setPendingLectureId(lectureId);
     setShowGenModal(true);
   };
 
-  const processLectureAI = async (lectureId: string, options: GenerationOptions) => {
-    setIsProcessingId(lectureId);
+  // Each selected artifact becomes a job; results are stored as they finish.
+  // The parameters are remembered as the defaults for next time.
+  const processLectureAI = (lectureId: string, options: GenerationOptions, params: GenerationParams) => {
     setShowGenModal(false);
-    
-    const lecture = StorageService.getLectureById(lectureId);
+    setPendingLectureId(null);
+    SettingsService.updateSettings({ generationParams: params });
+
+    const lecture = lectures.find(l => l.id === lectureId);
     if (!lecture) return;
 
-    const updateLocally = (partialUpdate: Partial<LectureData>) => {
-        const currentLectures = StorageService.getLectures();
-        const index = currentLectures.findIndex(l => l.id === lectureId);
-        if (index !== -1) {
-            const updated = { ...currentLectures[index], ...partialUpdate };
-            StorageService.saveLecture(updated);
-            setLectures(StorageService.getLectures());
-        }
-    };
+    const artifacts = (Object.keys(options) as GeneratedArtifact[]).filter(artifact => options[artifact]);
+    JobService.enqueueGeneration(lecture, artifacts, params);
+  };
 
-    try {
-        const transcript = lecture.transcriptText;
-        const promises = [];
+  const handleUpdateLecture = async (lecture: LectureData, base?: LectureData) => {
+    if (base) {
+        await StorageService.saveLectureChanges(base, lecture);
+    } else {
+        await StorageService.saveLecture(lecture);
+    }
+    setLectures(await StorageService.getLectures());
+  };
 
-        if (options.summary) {
-            promises.push(GeminiService.generateSummary(transcript)
-                .then(summary => updateLocally({ summary }))
-                .catch(e => console.error("Summary failed", e)));
-        }
+  const handleDeleteLecture = async (id: string) => {
+    const title = lectures.find(l => l.id === id)?.title || 'Lecture';
+    await StorageService.deleteLecture(id);
+    await refreshLibrary();
+    setViewMode('dashboard');
+    setSelectedLectureId(null);
 
-        if (options.flashcards) {
-            promises.push(GeminiService.generateFlashcards(transcript)
-                .then(flashcards => updateLocally({ flashcards }))
-                .catch(e => console.error("Flashcards failed", e)));
-        }
-            
-        if (options.quiz) {
-            promises.push(GeminiService.generateQuiz(transcript)
-                .then(quiz => updateLocally({ quiz }))
-                .catch(e => console.error("Quiz failed", e)));
-        }
+    // Offer an immediate undo for a few seconds
+    if (undoTimerRef.current) window.clearTimeout(undoTimerRef.current);
+    setUndoDelete({ id, title });
+    undoTimerRef.current = window.setTimeout(() => setUndoDelete(null), 8000);
+  };
 
-        if (options.notes) {
-            promises.push(GeminiService.generateStudyNotes(transcript)
-                .then(studyNotes => updateLocally({ studyNotes }))
-                .catch(e => console.error("Notes failed", e)));
-        }
+  const handleRestoreLecture = async (id: string, openAfter = false) => {
+    await StorageService.restoreLecture(id);
+    await refreshLibrary();
+    if (openAfter) {
+        setSelectedLectureId(id);
+        setViewMode('detail');
+    }
+  };
 
-        if (options.mindmap) {
-            promises.push(GeminiService.generateMindMap(transcript)
-                .then(mindmap => updateLocally({ mindmap }))
-                .catch(e => console.error("Mindmap failed", e)));
-        }
+  const handleUndoDelete = async () => {
+    if (!undoDelete) return;
+    if (undoTimerRef.current) window.clearTimeout(undoTimerRef.current);
+    const { id } = undoDelete;
+    setUndoDelete(null);
+    await handleRestoreLecture(id, true);
+  };
 
-        await Promise.allSettled(promises);
-        
+  const handlePurgeLecture = async (lecture: LectureData) => {
+    if (!confirm(`Permanently delete "${lecture.title}"? This cannot be undone.`)) return;
+    await StorageService.purgeLectures([lecture.id]);
+    await refreshLibrary();
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!confirm(`Permanently delete ${trashedLectures.length} lecture(s) in the Trash? This cannot be undone.`)) return;
+    await StorageService.emptyTrash();
+    await refreshLibrary();
+  };
+
+  const handleRetentionChange = async (days: number) => {
+    setTrashRetentionDays(days);
+    SettingsService.updateSettings({ trashRetentionDays: days });
+    await StorageService.purgeExpiredTrash(days);
+    await refreshLibrary();
+  };
+
+  const openBackupPanel = async () => {
+    setSnapshots(await BackupService.getSnapshots());
+    setShowBackupPanel(true);
+  };
+
+  const handleBackupSettingsChange = (settings: { backupIntervalHours?: number; backupKeepCount?: number }) => {
+    if (settings.backupIntervalHours !== undefined) setBackupIntervalHours(settings.backupIntervalHours);
+    if (settings.backupKeepCount !== undefined) setBackupKeepCount(settings.backupKeepCount);
+    SettingsService.updateSettings(settings);
+  };
+
+  const handleCreateSnapshot = async () => {
+    try {
+      await BackupService.createSnapshot(await StorageService.getAllLectures(), 'manual', backupKeepCount);
     } catch (e) {
-        console.error("Processing AI Error", e);
-    } finally {
-        setIsProcessingId(null);
-        setPendingLectureId(null);
+      console.error("Snapshot failed", e);
+      alert("Could not create a snapshot.");
     }
+    setSnapshots(await BackupService.getSnapshots());
   };
 
-  const handleUpdateLecture = (lecture: LectureData) => {
-    StorageService.saveLecture(lecture);
-    setLectures(StorageService.getLectures());
+  const handleRestoreSnapshot = async (snapshotId: string) => {
+    try {
+      const snapshotLectures = await BackupService.getSnapshotLectures(snapshotId);
+      // Keep the current state so the restore can be reverted from the same list
+      await BackupService.createSnapshot(await StorageService.getAllLectures(), 'before-restore', backupKeepCount);
+      await StorageService.restoreFromSnapshot(snapshotLectures);
+      await refreshLibrary();
+      setSelectedLectureId(null);
+      setViewMode('dashboard');
+      setShowBackupPanel(false);
+      alert(`Restored ${snapshotLectures.length} lecture(s) from the snapshot.`);
+    } catch (e) {
+      console.error("Restore failed", e);
+      alert("Failed to restore the snapshot. Your library was not changed.");
+    }
   };
 
-  const handleDeleteLecture = (id: string) => {
-    StorageService.deleteLecture(id);
-    setLectures(StorageService.getLectures());
-    setViewMode('dashboard');
+  const handleDownloadSnapshot = async (snapshotId: string) => {
+    const snapshot = snapshots.find(s => s.id === snapshotId);
+    const fileName = `Ezi_snapshot_${(snapshot?.createdAt || new Date().toISOString()).slice(0, 10)}.json`;
+    try {
+      const snapshotLectures = await BackupService.getSnapshotLectures(snapshotId);
+      if (isVaultEnabled) {
+        setPassphrasePrompt({ mode: 'export', lectures: snapshotLectures, fileName });
+      } else {
+        StorageService.exportData(snapshotLectures, undefined, fileName);
+      }
+    } catch (e: any) {
+      alert(e?.message || "Could not read this snapshot.");
+    }
+  };
+
+  const handleDeleteSnapshot = async (snapshotId: string) => {
+    if (!confirm("Delete this snapshot?")) return;
+    await BackupService.deleteSnapshot(snapshotId);
+    setSnapshots(await BackupService.getSnapshots());
+  };
+
+  const handleLock = () => {
+    // Paused before the key is dropped, so no running job tries to seal with it
+    JobService.pauseJobQueue();
+    CryptoService.lockVault();
+    setShowBackupPanel(false);
+    setShowStoragePanel(false);
+    setLectures([]);
+    setTrashedLectures([]);
     setSelectedLectureId(null);
+    setViewMode('dashboard');
+    setIsLocked(true);
+  };
+
+  const toggleExportSelection = (id: string) => {
+    setExportSelection(prev => prev && (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+  };
+
+  const handleExport = (exportLectures: LectureData[]) => {
+    setShowExportModal(false);
+    setExportSelection(null);
+    if (isVaultEnabled) {
+      // Offer to protect the file too, since the library itself is encrypted
+      setPassphrasePrompt({ mode: 'export', lectures: exportLectures });
+    } else {
+      StorageService.exportData(exportLectures);
+    }
+  };
+
+  const handlePassphraseSubmit = async (passphrase: string) => {
+    if (!passphrasePrompt) return;
+    const { mode, file, fileName } = passphrasePrompt;
+    const exportLectures = passphrasePrompt.lectures || lectures;
+
+    if (mode === 'enable') {
+      await StorageService.enableEncryption(passphrase);
+    } else if (mode === 'disable') {
+      await StorageService.disableEncryption(passphrase);
+    } else if (mode === 'export') {
+      await StorageService.exportData(exportLectures, passphrase, fileName);
+    } else if (mode === 'import' && file) {
+      // Wrong passphrases throw here and are shown in the prompt
+      showImportPreview(await StorageService.previewImport(file, passphrase));
+    }
+    setPassphrasePrompt(null);
+    await refreshLibrary();
+  };
+
+  const showImportPreview = (items: ImportItem[]) => {
+    if (items.length === 0) {
+      alert("The selected file contains no lectures.");
+    } else {
+      setImportResolutions(Object.fromEntries(items.map(item => [item.incoming.id, defaultResolution(item)])));
+      setExpandedImportId(null);
+      setImportItems(items);
+    }
   };
 
   const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
+      const file = e.target.files[0];
       try {
-        const count = await StorageService.importData(e.target.files[0]);
-        setLectures(StorageService.getLectures());
-        alert(`Successfully imported ${count} lecture(s).`);
+        showImportPreview(await StorageService.previewImport(file));
       } catch (err) {
-        alert("Failed to import file. Please ensure it is a valid JSON export.");
+        if (err instanceof StorageService.PassphraseRequiredError) {
+          setPassphrasePrompt({ mode: 'import', file });
+        } else if (err instanceof UnsupportedSchemaError) {
+          alert(err.message);
+        } else {
+          alert("Failed to import file. Please ensure it is a valid JSON export.");
+        }
       }
       if (fileInputRef.current) fileInputRef.current.value = '';
     }
   };
 
+  const resetImportModal = () => {
+      setImportItems(null);
+      setImportResolutions({});
+      setExpandedImportId(null);
+      setIsApplyingImport(false);
+  };
+
+  const handleConfirmImport = async () => {
+      if (!importItems) return;
+      setIsApplyingImport(true);
+      try {
+          const { added, updated } = await StorageService.applyImport(importItems, importResolutions);
+          await refreshLibrary();
+          alert(`Imported ${added} new and updated ${updated} existing lecture(s).`);
+      } catch (err) {
+          console.error("Import failed", err);
+          alert("Failed to import lectures. Your library was not changed.");
+      } finally {
+          resetImportModal();
+      }
+  };
+
   // Step 1: Fetch details
   const handleFetchYoutubeDetails = async () => {
       if (!youtubeUrl.trim()) return;
@@ -229,7 +559,7 @@ const App = () => {
   };
 
   // Step 2: Confirm Import
-  const handleConfirmYoutubeImport = () => {
+  const handleConfirmYoutubeImport = async () => {
       if (!fetchedVideoData) return;
 
       const selectedTranscript = fetchedVideoData.transcripts[selectedLangIndex];
@@ -242,7 +572,7 @@ const App = () => {
           videoDuration = lastChunk.timestamp;
       }
 
-      const id = `lect_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      const id = StorageService.createLectureId();
       const newSession: TranscriptSession = {
           id: uuidv4(),
           startTime: new Date().toISOString(),
@@ -262,8 +592,8 @@ const App = () => {
           tags: ['YouTube', selectedTranscript.languageCode]
       };
 
-      StorageService.saveLecture(lectureToSave);
-      setLectures(StorageService.getLectures());
+      await StorageService.saveLecture(lectureToSave);
+      setLectures(await StorageService.getLectures());
       
       resetYoutubeModal();
       setSelectedLectureId(id);
@@ -287,8 +617,21 @@ const App = () => {
   // Extract unique tags and sort them
   const allTags = Array.from(new Set(lectures.flatMap(l => l.tags || []))).sort();
 
+  const updateGenParams = (partial: Partial<GenerationParams>) => setGenParams(prev => ({ ...prev, ...partial }));
+
+  const renderCountSelect = (key: keyof typeof PARAM_CHOICES) => (
+      <select
+          value={genParams[key]}
+          onChange={(e) => updateGenParams({ [key]: Number(e.target.value) })}
+          className={paramInputClass}
+      >
+          {PARAM_CHOICES[key].map(value => <option key={value} value={value}>{value}</option>)}
+      </select>
+  );
+
   const renderGenerationModal = () => {
     if (!showGenModal) return null;
+    const pendingLecture = lectures.find(l => l.id === pendingLectureId);
 
     return (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fadeIn">
@@ -299,6 +642,13 @@ const App = () => {
                 </div>
                 
                 <div className="p-6 space-y-4 max-h-[60vh] overflow-y-auto">
+                    {budget && budget.level !== 'ok' && (
+                        <p className={`text-xs px-3 py-2 rounded-lg ${budget.level === 'exceeded' ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-700'}`}>
+                            {budget.level === 'exceeded'
+                              ? `This month's AI budget of $${budget.budgetUsd.toFixed(2)} has been exceeded.`
+                              : `${Math.round(budget.share * 100)}% of this month's AI budget of $${budget.budgetUsd.toFixed(2)} is spent.`}
+                        </p>
+                    )}
                     <OptionCheckbox 
                         label="Lecture Summary" 
                         desc="Overview, main points, and key terms"
@@ -334,6 +684,85 @@ const App = () => {
                         onChange={(v: boolean) => setGenOptions(prev => ({...prev, mindmap: v}))}
                         icon={<MapIcon className="w-6 h-6 text-pink-500" />}
                     />
+
+                    <div className="pt-2 space-y-2 text-sm">
+                        <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Options</h4>
+                        {pendingLecture && (
+                            <ParamRow label="Output language">
+                                <select
+                                    value={pendingLecture.outputLanguage || ''}
+                                    onChange={(e) => handleUpdateLecture({ ...pendingLecture, outputLanguage: e.target.value || undefined, bilingual: e.target.value ? pendingLecture.bilingual : undefined }, pendingLecture)}
+                                    className={paramInputClass}
+                                >
+                                    <option value="">Same as transcript</option>
+                                    {OUTPUT_LANGUAGES.map(language => <option key={language} value={language}>{language}</option>)}
+                                </select>
+                            </ParamRow>
+                        )}
+                        {pendingLecture?.outputLanguage && (
+                            <ParamRow label="Bilingual flashcards and key terms">
+                                <input
+                                    type="checkbox"
+                                    checked={!!pendingLecture.bilingual}
+                                    onChange={(e) => handleUpdateLecture({ ...pendingLecture, bilingual: e.target.checked || undefined }, pendingLecture)}
+                                    className="accent-indigo-600"
+                                />
+                            </ParamRow>
+                        )}
+                        <ParamRow label="Audience level">
+                            <select
+                                value={genParams.audience}
+                                onChange={(e) => updateGenParams({ audience: e.target.value as AudienceLevel })}
+                                className={paramInputClass}
+                            >
+                                {(Object.keys(AUDIENCE_LABELS) as AudienceLevel[]).map(level => (
+                                    <option key={level} value={level}>{AUDIENCE_LABELS[level]}</option>
+                                ))}
+                            </select>
+                        </ParamRow>
+                        {(genOptions.flashcards || genOptions.quiz) && (
+                            <ParamRow label="Difficulty mix">
+                                <select
+                                    value={genParams.difficulty}
+                                    onChange={(e) => updateGenParams({ difficulty: e.target.value as DifficultyMix })}
+                                    className={paramInputClass}
+                                >
+                                    {(Object.keys(DIFFICULTY_LABELS) as DifficultyMix[]).map(mix => (
+                                        <option key={mix} value={mix}>{DIFFICULTY_LABELS[mix]}</option>
+                                    ))}
+                                </select>
+                            </ParamRow>
+                        )}
+                        {genOptions.flashcards && (
+                            <ParamRow label="Flashcards">
+                                {renderCountSelect('flashcardCount')}
+                            </ParamRow>
+                        )}
+                        {genOptions.quiz && (
+                            <ParamRow label="Quiz questions">
+                                {renderCountSelect('quizCount')}
+                            </ParamRow>
+                        )}
+                        {genOptions.notes && (
+                            <ParamRow label="Note length">
+                                <select
+                                    value={genParams.noteLength}
+                                    onChange={(e) => updateGenParams({ noteLength: e.target.value as NoteLength })}
+                                    className={paramInputClass}
+                                >
+                                    {(Object.keys(NOTE_LENGTH_LABELS) as NoteLength[]).map(length => (
+                                        <option key={length} value={length}>{NOTE_LENGTH_LABELS[length]}</option>
+                                    ))}
+                                </select>
+                            </ParamRow>
+                        )}
+                        {genOptions.mindmap && (
+                            <ParamRow label="Mind map depth (levels)">
+                                {renderCountSelect('mindMapDepth')}
+                            </ParamRow>
+                        )}
+                        <p className="text-xs text-slate-400">Long lectures split the counts across their parts.</p>
+                    </div>
                 </div>
 
                 <div className="p-4 bg-slate-50 border-t border-slate-100 flex gap-3 justify-end">
@@ -344,7 +773,7 @@ const App = () => {
                         Skip
                     </button>
                     <button 
-                        onClick={() => pendingLectureId && processLectureAI(pendingLectureId, genOptions)}
+                        onClick={() => pendingLectureId && processLectureAI(pendingLectureId, genOptions, genParams)}
                         className="px-6 py-2 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 shadow-sm transition-colors flex items-center gap-2"
                     >
                         <SparklesIcon className="w-4 h-4" />
@@ -458,6 +887,123 @@ const App = () => {
       );
   };
 
+  const renderImportModal = () => {
+      if (!importItems) return null;
+
+      const counts = {
+          new: importItems.filter(i => i.status === 'new').length,
+          changed: importItems.filter(i => i.status === 'changed').length,
+          identical: importItems.filter(i => i.status === 'identical').length,
+          trashed: importItems.filter(i => i.local?.deletedAt).length,
+      };
+      const statusStyles: Record<ImportItem['status'], string> = {
+          new: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+          changed: 'bg-amber-50 text-amber-700 border-amber-200',
+          identical: 'bg-slate-100 text-slate-500 border-slate-200',
+      };
+
+      return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fadeIn">
+            <div className="bg-white rounded-2xl shadow-xl max-w-2xl w-full overflow-hidden">
+                <div className="p-6 border-b border-slate-100 bg-slate-50">
+                    <h3 className="text-xl font-bold text-slate-800">Import Preview</h3>
+                    <p className="text-sm text-slate-500 mt-1">
+                        {counts.new} new, {counts.changed} changed, {counts.identical} identical{counts.trashed > 0 && `, ${counts.trashed} in your Trash`}. Choose how to handle lectures you already have.
+                    </p>
+                </div>
+
+                <div className="p-6 space-y-3 max-h-[60vh] overflow-y-auto">
+                    {importItems.map(item => {
+                        const id = item.incoming.id;
+                        const isExpanded = expandedImportId === id;
+                        const isTrashed = !!item.local?.deletedAt;
+                        return (
+                            <div key={id} className="border border-slate-200 rounded-xl overflow-hidden">
+                                <div className="flex items-center gap-3 p-3">
+                                    <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full border ${statusStyles[item.status]}`}>
+                                        {item.status}
+                                    </span>
+                                    {isTrashed && (
+                                        <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded-full border bg-red-50 text-red-600 border-red-200">
+                                            In Trash
+                                        </span>
+                                    )}
+                                    <div className="flex-1 min-w-0">
+                                        <div className="font-medium text-slate-900 truncate">{item.incoming.title}</div>
+                                        <div className="text-xs text-slate-500">
+                                            {new Date(item.incoming.date).toLocaleDateString()}
+                                            {isTrashed && (item.incoming.deletedAt ? ' · Trashed in both copies' : ' · Your copy is in the Trash; taking the incoming one restores it')}
+                                        </div>
+                                    </div>
+                                    {(item.status === 'changed' || isTrashed) && (
+                                        <>
+                                            {item.status === 'changed' && (
+                                                <button
+                                                    onClick={() => setExpandedImportId(isExpanded ? null : id)}
+                                                    className="text-xs text-indigo-600 hover:text-indigo-800 px-2 py-1 rounded hover:bg-indigo-50 transition-colors"
+                                                >
+                                                    {isExpanded ? 'Hide' : `${item.diffs.length} difference(s)`}
+                                                </button>
+                                            )}
+                                            <select
+                                                value={importResolutions[id]}
+                                                onChange={(e) => setImportResolutions(prev => ({ ...prev, [id]: e.target.value as ImportResolution }))}
+                                                className="text-xs px-2 py-1.5 border border-slate-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                            >
+                                                <option value="merge">Merge</option>
+                                                <option value="keep-local">Keep local</option>
+                                                <option value="take-incoming">Take incoming</option>
+                                            </select>
+                                        </>
+                                    )}
+                                </div>
+                                {isExpanded && (
+                                    <table className="w-full text-xs border-t border-slate-100">
+                                        <thead className="bg-slate-50 text-slate-500">
+                                            <tr>
+                                                <th className="text-left font-semibold px-3 py-2">Field</th>
+                                                <th className="text-left font-semibold px-3 py-2">Local</th>
+                                                <th className="text-left font-semibold px-3 py-2">Incoming</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {item.diffs.map(diff => (
+                                                <tr key={diff.field} className="border-t border-slate-100">
+                                                    <td className="px-3 py-2 font-medium text-slate-700">{diff.label}</td>
+                                                    <td className="px-3 py-2 text-slate-600">{diff.local}</td>
+                                                    <td className="px-3 py-2 text-slate-600">{diff.incoming}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div className="p-4 bg-slate-50 border-t border-slate-100 flex gap-3 justify-end">
+                    <button
+                        onClick={resetImportModal}
+                        className="px-4 py-2 text-slate-600 font-medium hover:bg-slate-200 rounded-lg transition-colors"
+                        disabled={isApplyingImport}
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleConfirmImport}
+                        disabled={isApplyingImport}
+                        className="px-6 py-2 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 shadow-sm transition-colors flex items-center gap-2 disabled:opacity-70"
+                    >
+                        <ArrowUpTrayIcon className="w-4 h-4" />
+                        {isApplyingImport ? 'Importing...' : 'Import'}
+                    </button>
+                </div>
+            </div>
+        </div>
+      );
+  };
+
   const OptionCheckbox = ({ label, desc, checked, onChange, icon }: any) => (
       <label className={`flex items-center gap-4 p-4 rounded-xl border cursor-pointer transition-all ${
           checked ? 'border-indigo-600 bg-indigo-50/50' : 'border-slate-200 hover:border-slate-300'
@@ -476,6 +1022,93 @@ const App = () => {
       </label>
   );
 
+  const renderTrashList = () => {
+    const daysLeft = (deletedAt: string) => {
+        const expiresAt = new Date(deletedAt).getTime() + trashRetentionDays * 24 * 60 * 60 * 1000;
+        return Math.max(0, Math.ceil((expiresAt - Date.now()) / (24 * 60 * 60 * 1000)));
+    };
+
+    return (
+      <>
+        <div className="flex items-center justify-between px-1 mb-2">
+            <button
+                onClick={() => setSidebarView('lectures')}
+                className="flex items-center gap-1 text-sm font-medium text-slate-600 hover:text-slate-900"
+            >
+                <ChevronLeftIcon className="w-4 h-4" /> Lectures
+            </button>
+            <button
+                onClick={handleEmptyTrash}
+                disabled={trashedLectures.length === 0}
+                className="text-xs font-medium text-red-600 hover:text-red-700 px-2 py-1 rounded hover:bg-red-50 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+            >
+                Empty Trash
+            </button>
+        </div>
+
+        <div className="px-1 mb-4">
+            <label className="block text-xs font-semibold text-slate-400 uppercase tracking-wider mb-1 px-1">Keep deleted lectures for</label>
+            <select
+                value={trashRetentionDays}
+                onChange={(e) => handleRetentionChange(Number(e.target.value))}
+                className="w-full px-3 py-2 bg-slate-100 border border-transparent focus:bg-white focus:border-indigo-300 rounded-lg text-sm text-slate-700 focus:outline-none"
+            >
+                <option value={7}>7 days</option>
+                <option value={30}>30 days</option>
+                <option value={90}>90 days</option>
+                <option value={0}>Forever</option>
+            </select>
+        </div>
+
+        <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider px-1 mb-2 mt-4">Trash</h3>
+
+        {trashedLectures.length === 0 ? (
+            <div className="text-center py-8 text-slate-400 text-sm">Trash is empty.</div>
+        ) : (
+            trashedLectures.map(lecture => (
+                <div key={lecture.id} className="p-3 rounded-lg border border-slate-100 bg-slate-50/50">
+                    <div className="font-medium truncate text-slate-700">{lecture.title}</div>
+                    <div className="text-xs text-slate-500 mt-1">
+                        Deleted {new Date(lecture.deletedAt!).toLocaleDateString()}
+                        {trashRetentionDays > 0 && ` • purged in ${daysLeft(lecture.deletedAt!)} day(s)`}
+                    </div>
+                    <div className="flex gap-2 mt-2">
+                        <button
+                            onClick={() => handleRestoreLecture(lecture.id)}
+                            className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 bg-white border border-slate-200 rounded-md text-xs font-medium text-slate-600 hover:text-indigo-700 hover:border-indigo-200 transition-colors"
+                        >
+                            <ArrowUturnLeftIcon className="w-3.5 h-3.5" /> Restore
+                        </button>
+                        <button
+                            onClick={() => handlePurgeLecture(lecture)}
+                            className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 bg-white border border-slate-200 rounded-md text-xs font-medium text-red-500 hover:text-red-700 hover:border-red-200 transition-colors"
+                        >
+                            <TrashIcon className="w-3.5 h-3.5" /> Delete Forever
+                        </button>
+                    </div>
+                </div>
+            ))
+        )}
+      </>
+    );
+  };
+
+  const renderUndoToast = () => {
+      if (!undoDelete) return null;
+
+      return (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 bg-slate-900 text-white pl-5 pr-2 py-2 rounded-full shadow-xl animate-fadeIn">
+            <span className="text-sm truncate max-w-[16rem]">Moved "{undoDelete.title}" to Trash</span>
+            <button
+                onClick={handleUndoDelete}
+                className="flex items-center gap-1 text-sm font-semibold text-indigo-300 hover:text-white px-3 py-1.5 rounded-full hover:bg-slate-800 transition-colors"
+            >
+                <ArrowUturnLeftIcon className="w-4 h-4" /> Undo
+            </button>
+        </div>
+      );
+  };
+
   const renderSidebar = () => (
     <>
       {/* Mobile/Tablet Backdrop */}
@@ -522,124 +1155,188 @@ const App = () => {
         </div>
         
         <div className="flex-1 overflow-y-auto p-4 space-y-2">
-          {/* Action Buttons Row */}
-          <div className="flex gap-2 mb-4">
-              <button 
-                onClick={() => {
-                  setViewMode('record');
-                  setSelectedLectureId(null);
-                  setIsSidebarOpen(false);
-                }}
-                className="flex-1 flex items-center justify-center bg-slate-900 hover:bg-slate-800 text-white py-3 rounded-lg transition-all shadow-md hover:shadow-lg"
-                title="New Recording"
-              >
-                  <MicIcon className="w-6 h-6" />
-              </button>
+          {sidebarView === 'trash' ? renderTrashList() : (
+            <>
+              {/* Action Buttons Row */}
+              <div className="flex gap-2 mb-4">
+                  <button 
+                    onClick={() => {
+                      setViewMode('record');
+                      setSelectedLectureId(null);
+                      setIsSidebarOpen(false);
+                    }}
+                    className="flex-1 flex items-center justify-center bg-slate-900 hover:bg-slate-800 text-white py-3 rounded-lg transition-all shadow-md hover:shadow-lg"
+                    title="New Recording"
+                  >
+                      <MicIcon className="w-6 h-6" />
+                  </button>
               
-              <button 
-                onClick={() => {
-                  setShowYoutubeModal(true);
-                  setIsSidebarOpen(false);
-                }}
-                className="flex-1 flex items-center justify-center bg-red-50 hover:bg-red-100 text-red-600 border border-red-200 py-3 rounded-lg transition-all shadow-sm"
-                title="Import YouTube"
-              >
-                  <PlayCircleIcon className="w-6 h-6" />
-              </button>
-          </div>
+                  <button 
+                    onClick={() => {
+                      setShowYoutubeModal(true);
+                      setIsSidebarOpen(false);
+                    }}
+                    className="flex-1 flex items-center justify-center bg-red-50 hover:bg-red-100 text-red-600 border border-red-200 py-3 rounded-lg transition-all shadow-sm"
+                    title="Import YouTube"
+                  >
+                      <PlayCircleIcon className="w-6 h-6" />
+                  </button>
+              </div>
 
-          <div className="px-1 mb-2">
-              <input 
-                  type="text" 
-                  placeholder="Search lectures..." 
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="w-full px-3 py-2 bg-slate-100 border-transparent focus:bg-white border focus:border-indigo-300 rounded-lg text-sm text-slate-700 placeholder-slate-400 focus:outline-none transition-all"
-              />
-          </div>
+              <div className="px-1 mb-2">
+                  <input 
+                      type="text" 
+                      placeholder="Search lectures..." 
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      className="w-full px-3 py-2 bg-slate-100 border-transparent focus:bg-white border focus:border-indigo-300 rounded-lg text-sm text-slate-700 placeholder-slate-400 focus:outline-none transition-all"
+                  />
+              </div>
 
-          {/* Tags Section */}
-          {allTags.length > 0 && (
-              <div className="px-1 mb-4">
-                  <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2 mt-4 px-1">
-                      Categories
-                  </h3>
-                  <div className="flex flex-wrap gap-1.5">
-                      <button
-                          onClick={() => setSelectedTag(null)}
-                          className={`text-xs px-2.5 py-1 rounded-full border transition-colors ${
-                              selectedTag === null
-                              ? 'bg-slate-800 text-white border-slate-800'
-                              : 'bg-white text-slate-600 border-slate-200 hover:border-slate-300'
-                          }`}
-                      >
-                          All
-                      </button>
-                      {allTags.map(tag => (
+              {/* Tags Section */}
+              {allTags.length > 0 && (
+                  <div className="px-1 mb-4">
+                      <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2 mt-4 px-1">
+                          Categories
+                      </h3>
+                      <div className="flex flex-wrap gap-1.5">
                           <button
-                              key={tag}
-                              onClick={() => setSelectedTag(tag === selectedTag ? null : tag)}
-                              className={`text-xs px-2.5 py-1 rounded-full border transition-colors flex items-center gap-1 ${
-                                  selectedTag === tag
-                                  ? 'bg-indigo-600 text-white border-indigo-600'
+                              onClick={() => setSelectedTag(null)}
+                              className={`text-xs px-2.5 py-1 rounded-full border transition-colors ${
+                                  selectedTag === null
+                                  ? 'bg-slate-800 text-white border-slate-800'
                                   : 'bg-white text-slate-600 border-slate-200 hover:border-slate-300'
                               }`}
                           >
-                              <HashtagIcon className="w-2.5 h-2.5" />
-                              {tag}
+                              All
                           </button>
-                      ))}
+                          {allTags.map(tag => (
+                              <button
+                                  key={tag}
+                                  onClick={() => setSelectedTag(tag === selectedTag ? null : tag)}
+                                  className={`text-xs px-2.5 py-1 rounded-full border transition-colors flex items-center gap-1 ${
+                                      selectedTag === tag
+                                      ? 'bg-indigo-600 text-white border-indigo-600'
+                                      : 'bg-white text-slate-600 border-slate-200 hover:border-slate-300'
+                                  }`}
+                              >
+                                  <HashtagIcon className="w-2.5 h-2.5" />
+                                  {tag}
+                              </button>
+                          ))}
+                      </div>
                   </div>
+              )}
+
+              <div className="flex items-center justify-between px-1 mb-2 mt-4">
+                  <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">
+                      {searchTerm ? 'Search Results' : selectedTag ? `Filed under #${selectedTag}` : 'Recent Lectures'}
+                  </h3>
+                  {lectures.length > 0 && (
+                      <button
+                          onClick={() => setExportSelection(exportSelection ? null : [])}
+                          className="text-xs font-medium text-indigo-600 hover:text-indigo-800"
+                      >
+                          {exportSelection ? 'Cancel' : 'Select'}
+                      </button>
+                  )}
               </div>
-          )}
 
-          <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider px-1 mb-2 mt-4">
-              {searchTerm ? 'Search Results' : selectedTag ? `Filed under #${selectedTag}` : 'Recent Lectures'}
-          </h3>
+              {exportSelection && (
+                  <div className="flex items-center justify-between px-3 py-2 mb-2 bg-indigo-50 rounded-lg text-xs text-indigo-700">
+                      <span>{exportSelection.length} selected</span>
+                      <button
+                          onClick={() => setShowExportModal(true)}
+                          disabled={exportSelection.length === 0}
+                          className="flex items-center gap-1 font-medium hover:text-indigo-900 disabled:opacity-50"
+                      >
+                          <ArrowDownTrayIcon className="w-3.5 h-3.5" /> Export Selected
+                      </button>
+                  </div>
+              )}
           
-          {filteredLectures.length === 0 ? (
-            <div className="text-center py-8 text-slate-400 text-sm">
-              {searchTerm ? 'No lectures match your search.' : selectedTag ? 'No lectures found with this tag.' : 'No lectures recorded yet.'}
-            </div>
-          ) : (
-              filteredLectures.map(lecture => (
-              <button
-                key={lecture.id}
-                onClick={() => {
-                  setSelectedLectureId(lecture.id);
-                  setViewMode('detail');
-                  setIsSidebarOpen(false);
-                }}
-                className={`w-full text-left p-3 rounded-lg transition-colors group ${
-                  selectedLectureId === lecture.id 
-                  ? 'bg-indigo-50 text-indigo-700' 
-                  : 'hover:bg-slate-50 text-slate-700'
-                }`}
-              >
-                <div className="font-medium truncate">{lecture.title}</div>
-                <div className="text-xs text-slate-500 flex justify-between mt-1 items-center">
-                  <span>{new Date(lecture.date).toLocaleDateString()}</span>
-                  <span className="flex items-center gap-1">
-                      {/* Tiny tag indicator */}
-                      {lecture.tags && lecture.tags.length > 0 && (
-                          <span className="flex items-center text-[10px] bg-slate-100 px-1.5 rounded text-slate-500">
-                            #{lecture.tags[0]} {lecture.tags.length > 1 && `+${lecture.tags.length - 1}`}
-                          </span>
-                      )}
-                      {lecture.flashcards && <span className="w-1.5 h-1.5 rounded-full bg-amber-400"></span>}
-                      {lecture.summary && <span className="w-1.5 h-1.5 rounded-full bg-blue-400"></span>}
-                      {isProcessingId === lecture.id && <span className="w-1.5 h-1.5 rounded-full bg-indigo-400 animate-pulse"></span>}
-                  </span>
+              {filteredLectures.length === 0 ? (
+                <div className="text-center py-8 text-slate-400 text-sm">
+                  {searchTerm ? 'No lectures match your search.' : selectedTag ? 'No lectures found with this tag.' : 'No lectures recorded yet.'}
                 </div>
-              </button>
-            ))
+              ) : (
+                  filteredLectures.map(lecture => (
+                  <button
+                    key={lecture.id}
+                    onClick={() => {
+                      if (exportSelection) {
+                        toggleExportSelection(lecture.id);
+                        return;
+                      }
+                      setSelectedLectureId(lecture.id);
+                      setViewMode('detail');
+                      setIsSidebarOpen(false);
+                    }}
+                    className={`w-full text-left p-3 rounded-lg transition-colors group ${
+                      selectedLectureId === lecture.id && !exportSelection
+                      ? 'bg-indigo-50 text-indigo-700' 
+                      : 'hover:bg-slate-50 text-slate-700'
+                    }`}
+                  >
+                    <div className="font-medium truncate flex items-center gap-2">
+                      {exportSelection && (
+                        <input
+                          type="checkbox"
+                          readOnly
+                          checked={exportSelection.includes(lecture.id)}
+                          className="rounded text-indigo-600 focus:ring-indigo-500 pointer-events-none"
+                        />
+                      )}
+                      <span className="truncate">{lecture.title}</span>
+                    </div>
+                    <div className="text-xs text-slate-500 flex justify-between mt-1 items-center">
+                      <span>{new Date(lecture.date).toLocaleDateString()}</span>
+                      <span className="flex items-center gap-1">
+                          {/* Tiny tag indicator */}
+                          {lecture.tags && lecture.tags.length > 0 && (
+                              <span className="flex items-center text-[10px] bg-slate-100 px-1.5 rounded text-slate-500">
+                                #{lecture.tags[0]} {lecture.tags.length > 1 && `+${lecture.tags.length - 1}`}
+                              </span>
+                          )}
+                          {lecture.flashcards && <span className="w-1.5 h-1.5 rounded-full bg-amber-400"></span>}
+                          {lecture.summary && <span className="w-1.5 h-1.5 rounded-full bg-blue-400"></span>}
+                          {JobService.getPendingArtifacts(jobs, lecture.id).length > 0 && <span className="w-1.5 h-1.5 rounded-full bg-indigo-400 animate-pulse"></span>}
+                      </span>
+                    </div>
+                  </button>
+                ))
+              )}
+            </>
           )}
         </div>
 
         <div className="p-4 border-t border-slate-100 bg-slate-50">
+          {/* Storage Meter */}
+          <button
+              onClick={() => setShowStoragePanel(true)}
+              className={`w-full mb-3 text-left px-3 py-2 rounded-md border transition-colors ${
+                  isStorageWarning ? 'bg-red-50 border-red-200 hover:bg-red-100' : 'bg-white border-slate-200 hover:bg-slate-50'
+              }`}
+              title="Manage storage"
+          >
+              <div className="flex justify-between text-xs mb-1">
+                  <span className={`font-medium ${isStorageWarning ? 'text-red-700' : 'text-slate-600'}`}>
+                      {isStorageWarning ? 'Storage almost full' : 'Storage'}
+                  </span>
+                  <span className="text-slate-500">
+                      {storageEstimate ? `${StorageUsageService.formatBytes(storageEstimate.usage)} / ${StorageUsageService.formatBytes(storageEstimate.quota)}` : '—'}
+                  </span>
+              </div>
+              <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                  <div
+                      className={`h-full ${isStorageWarning ? 'bg-red-500' : 'bg-indigo-500'}`}
+                      style={{ width: `${Math.min(100, storageUsagePercent)}%` }}
+                  />
+              </div>
+          </button>
           <div className="flex gap-2">
               <button 
-                  onClick={() => StorageService.exportData(lectures)}
+                  onClick={() => setShowExportModal(true)}
                   className="flex-1 flex items-center justify-center gap-1.5 px-2 py-2 bg-white border border-slate-200 rounded-md text-xs font-medium text-slate-600 hover:bg-slate-50 hover:text-slate-900 transition-colors"
               >
                   <ArrowDownTrayIcon className="w-4 h-4" /> Export
@@ -651,6 +1348,85 @@ const App = () => {
                   <ArrowUpTrayIcon className="w-4 h-4" /> Import
               </button>
           </div>
+          <div className="flex gap-2 mt-2">
+              <button
+                  onClick={() => setSidebarView(sidebarView === 'trash' ? 'lectures' : 'trash')}
+                  className={`flex-1 flex items-center justify-center gap-1.5 px-2 py-2 border rounded-md text-xs font-medium transition-colors ${
+                      sidebarView === 'trash'
+                      ? 'bg-slate-800 text-white border-slate-800'
+                      : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50 hover:text-slate-900'
+                  }`}
+              >
+                  <TrashIcon className="w-4 h-4" /> Trash{trashedLectures.length > 0 && ` (${trashedLectures.length})`}
+              </button>
+              <button
+                  onClick={openBackupPanel}
+                  className="flex-1 flex items-center justify-center gap-1.5 px-2 py-2 bg-white border border-slate-200 rounded-md text-xs font-medium text-slate-600 hover:bg-slate-50 hover:text-slate-900 transition-colors"
+              >
+                  <ClockIcon className="w-4 h-4" /> Backups
+              </button>
+          </div>
+          <div className="flex gap-2 mt-2">
+              <button
+                  onClick={() => setShowJobPanel(true)}
+                  className="flex-1 flex items-center justify-center gap-1.5 px-2 py-2 bg-white border border-slate-200 rounded-md text-xs font-medium text-slate-600 hover:bg-slate-50 hover:text-slate-900 transition-colors"
+              >
+                  <QueueListIcon className="w-4 h-4" /> Jobs
+                  {activeJobCount > 0 && <span className="px-1.5 rounded-full bg-indigo-100 text-indigo-700 text-[10px] font-bold">{activeJobCount}</span>}
+                  {failedJobCount > 0 && <span className="px-1.5 rounded-full bg-red-100 text-red-700 text-[10px] font-bold" title="Failed jobs">{failedJobCount}</span>}
+              </button>
+              <button
+                  onClick={() => setShowAiSettings(true)}
+                  className="flex-1 flex items-center justify-center gap-1.5 px-2 py-2 bg-white border border-slate-200 rounded-md text-xs font-medium text-slate-600 hover:bg-slate-50 hover:text-slate-900 transition-colors"
+              >
+                  <Cog6ToothIcon className="w-4 h-4" /> AI Providers
+              </button>
+          </div>
+          <div className="flex gap-2 mt-2">
+              <button
+                  onClick={() => setPromptPanelLectureId('')}
+                  className="flex-1 flex items-center justify-center gap-1.5 px-2 py-2 bg-white border border-slate-200 rounded-md text-xs font-medium text-slate-600 hover:bg-slate-50 hover:text-slate-900 transition-colors"
+              >
+                  <PencilSquareIcon className="w-4 h-4" /> Prompt Templates
+              </button>
+              <button
+                  onClick={() => setShowUsagePanel(true)}
+                  className="flex-1 flex items-center justify-center gap-1.5 px-2 py-2 bg-white border border-slate-200 rounded-md text-xs font-medium text-slate-600 hover:bg-slate-50 hover:text-slate-900 transition-colors"
+              >
+                  <ChartBarIcon className="w-4 h-4" /> Usage
+                  {budget && budget.level !== 'ok' && (
+                      <span
+                          className={`px-1.5 rounded-full text-[10px] font-bold ${budget.level === 'exceeded' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'}`}
+                          title="Share of the monthly AI budget spent"
+                      >
+                          {Math.round(budget.share * 100)}%
+                      </span>
+                  )}
+              </button>
+          </div>
+          {isVaultEnabled ? (
+              <div className="flex gap-2 mt-2">
+                  <button
+                      onClick={handleLock}
+                      className="flex-1 flex items-center justify-center gap-1.5 px-2 py-2 bg-white border border-slate-200 rounded-md text-xs font-medium text-slate-600 hover:bg-slate-50 hover:text-slate-900 transition-colors"
+                  >
+                      <LockClosedIcon className="w-4 h-4" /> Lock
+                  </button>
+                  <button
+                      onClick={() => setPassphrasePrompt({ mode: 'disable' })}
+                      className="flex-1 flex items-center justify-center gap-1.5 px-2 py-2 bg-white border border-slate-200 rounded-md text-xs font-medium text-slate-600 hover:bg-slate-50 hover:text-slate-900 transition-colors"
+                  >
+                      <LockOpenIcon className="w-4 h-4" /> Decrypt
+                  </button>
+              </div>
+          ) : (
+              <button
+                  onClick={() => setPassphrasePrompt({ mode: 'enable' })}
+                  className="w-full mt-2 flex items-center justify-center gap-1.5 px-2 py-2 bg-white border border-slate-200 rounded-md text-xs font-medium text-slate-600 hover:bg-slate-50 hover:text-slate-900 transition-colors"
+              >
+                  <LockClosedIcon className="w-4 h-4" /> Encrypt Library
+              </button>
+          )}
           <input 
               type="file" 
               ref={fileInputRef} 
@@ -682,6 +1458,7 @@ const App = () => {
                     }
                 }}
                 existingTitle={existingTitle}
+                lectureId={selectedLectureId || undefined}
             />
         </div>
       );
@@ -698,7 +1475,8 @@ const App = () => {
                     onUpdate={handleUpdateLecture}
                     onDelete={handleDeleteLecture}
                     onContinueRecording={() => setViewMode('record')}
-                    isProcessing={isProcessingId === lecture.id}
+                    jobs={jobs.filter(job => job.lectureId === lecture.id)}
+                    onEditPrompts={() => setPromptPanelLectureId(lecture.id)}
                 />
             </div>
         );
@@ -749,6 +1527,51 @@ const App = () => {
       </div>
   );
 
+  const renderPassphrasePrompt = () => {
+    if (!passphrasePrompt) return null;
+
+    const prompts = {
+      enable: {
+        title: 'Encrypt Library',
+        description: 'Lectures will be encrypted on this device and Ezi will ask for the passphrase on every start.',
+        submitLabel: 'Encrypt',
+      },
+      disable: {
+        title: 'Remove Encryption',
+        description: 'Enter your passphrase to store lectures unencrypted again.',
+        submitLabel: 'Remove Encryption',
+      },
+      export: {
+        title: 'Encrypt Export',
+        description: 'Protect the exported file with a passphrase. You will need it to import the file again.',
+        submitLabel: 'Export Encrypted',
+      },
+      import: {
+        title: 'Encrypted Export',
+        description: `Enter the passphrase that protects ${passphrasePrompt.file?.name || 'this file'}.`,
+        submitLabel: 'Decrypt',
+      },
+    };
+
+    return (
+      <PassphraseModal
+          {...prompts[passphrasePrompt.mode]}
+          requireConfirmation={passphrasePrompt.mode === 'enable' || passphrasePrompt.mode === 'export'}
+          secondaryLabel={passphrasePrompt.mode === 'export' ? 'Export Unencrypted' : undefined}
+          onSecondary={() => {
+              StorageService.exportData(passphrasePrompt.lectures || lectures, undefined, passphrasePrompt.fileName);
+              setPassphrasePrompt(null);
+          }}
+          onSubmit={handlePassphraseSubmit}
+          onCancel={() => setPassphrasePrompt(null)}
+      />
+    );
+  };
+
+  if (isLocked) {
+    return <UnlockScreen onUnlock={() => setIsLocked(false)} />;
+  }
+
   return (
     <div className="flex h-screen bg-slate-100 overflow-hidden font-sans relative">
       {renderSidebar()}
@@ -785,6 +1608,63 @@ const App = () => {
       
       {renderGenerationModal()}
       {renderYoutubeModal()}
+      {renderImportModal()}
+      {renderUndoToast()}
+      <AiStatusBanner />
+      {showStoragePanel && (
+        <StoragePanel
+            lectures={[...lectures, ...trashedLectures]}
+            audioSizes={audioSizes}
+            estimate={storageEstimate}
+            warningPercent={storageWarningPercent}
+            onWarningPercentChange={handleStorageWarningChange}
+            onPrune={handlePruneLecture}
+            onClose={() => setShowStoragePanel(false)}
+        />
+      )}
+      {showExportModal && (
+        <ExportModal
+            lectures={lectures}
+            initialSelectedIds={exportSelection || []}
+            onExport={handleExport}
+            onClose={() => setShowExportModal(false)}
+        />
+      )}
+      {showAiSettings && <AiSettingsPanel onClose={() => setShowAiSettings(false)} />}
+      {promptPanelLectureId !== null && (
+        <PromptTemplatesPanel
+            lectures={lectures}
+            initialLectureId={promptPanelLectureId || undefined}
+            onClose={() => setPromptPanelLectureId(null)}
+        />
+      )}
+      {showUsagePanel && <UsagePanel lectures={lectures} onClose={() => setShowUsagePanel(false)} />}
+      {showJobPanel && (
+        <JobQueuePanel
+            jobs={jobs}
+            onOpenLecture={(lectureId) => {
+                setShowJobPanel(false);
+                setSelectedLectureId(lectureId);
+                setViewMode('detail');
+            }}
+            onClose={() => setShowJobPanel(false)}
+        />
+      )}
+      {showBackupPanel && (
+        <BackupPanel
+            snapshots={snapshots}
+            lectures={[...lectures, ...trashedLectures]}
+            intervalHours={backupIntervalHours}
+            keepCount={backupKeepCount}
+            onSettingsChange={handleBackupSettingsChange}
+            onCreate={handleCreateSnapshot}
+            onRestore={handleRestoreSnapshot}
+            onDownload={handleDownloadSnapshot}
+            onDelete={handleDeleteSnapshot}
+            onClose={() => setShowBackupPanel(false)}
+        />
+      )}
+      {renderPassphrasePrompt()}
     </div>
   );
 };
@@ -0,0 +1,222 @@
+import React, { useEffect, useState } from 'react';
+import { XMarkIcon, TrashIcon } from './icons';
+import * as SettingsService from '../services/settingsService';
+import * as CacheService from '../services/cacheService';
+import { formatBytes } from '../services/storageUsageService';
+import { AppSettings } from '../services/settingsService';
+import { LlmTask, ProviderId, TASK_LABELS, PROVIDER_LABELS, isMockForced } from '../services/llmProvider';
+
+interface AiSettingsPanelProps {
+    onClose: () => void;
+}
+
+type ProviderSettings = Pick<AppSettings,
+    'taskProviders' | 'geminiModel' | 'openAiBaseUrl' | 'openAiApiKey' | 'openAiModel' | 'mockLatencyMs' | 'mockRateLimitRate' | 'mockMalformedJsonRate' | 'requestsPerMinute' | 'generationCacheLimitMb'
+>;
+
+const FAILURE_RATES = [0, 0.1, 0.25, 0.5, 1];
+const CACHE_LIMITS_MB = [0, 10, 25, 50, 100];
+
+const inputClass = "w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all";
+
+const AiSettingsPanel: React.FC<AiSettingsPanelProps> = ({ onClose }) => {
+    const [draft, setDraft] = useState<ProviderSettings>(() => {
+        const { taskProviders, geminiModel, openAiBaseUrl, openAiApiKey, openAiModel, mockLatencyMs, mockRateLimitRate, mockMalformedJsonRate, requestsPerMinute, generationCacheLimitMb } = SettingsService.getSettings();
+        return { taskProviders, geminiModel, openAiBaseUrl, openAiApiKey, openAiModel, mockLatencyMs, mockRateLimitRate, mockMalformedJsonRate, requestsPerMinute, generationCacheLimitMb };
+    });
+    const [cacheStats, setCacheStats] = useState<CacheService.CacheStats | null>(null);
+
+    useEffect(() => {
+        CacheService.getCacheStats().then(setCacheStats).catch(e => console.error("Could not read the cache", e));
+    }, []);
+
+    const update = (partial: Partial<ProviderSettings>) => setDraft(prev => ({ ...prev, ...partial }));
+
+    const setTaskProvider = (task: LlmTask, provider: ProviderId) => {
+        update({ taskProviders: { ...draft.taskProviders, [task]: provider } });
+    };
+
+    const renderRateLimit = (provider: ProviderId) => (
+        <label className="flex items-center justify-between text-slate-600">
+            <span>Requests per minute <span className="text-slate-400">(0 = unlimited)</span></span>
+            <input
+                type="number"
+                min={0}
+                value={draft.requestsPerMinute[provider] || 0}
+                onChange={(e) => update({ requestsPerMinute: { ...draft.requestsPerMinute, [provider]: Math.max(0, Number(e.target.value)) } })}
+                className="w-24 px-2 py-1 border border-slate-300 rounded-lg text-sm text-right focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+        </label>
+    );
+
+    const handleClearCache = async () => {
+        if (!confirm("Clear all cached AI results? Lectures keep their generated content.")) return;
+        await CacheService.clearGenerationCache();
+        setCacheStats(await CacheService.getCacheStats());
+    };
+
+    const handleSave = () => {
+        SettingsService.updateSettings(draft);
+        CacheService.trimGenerationCache().catch(e => console.error("Could not trim the cache", e));
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fadeIn">
+            <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full overflow-hidden flex flex-col max-h-[85vh]">
+                <div className="p-6 border-b border-slate-100 bg-slate-50 flex items-start justify-between">
+                    <div>
+                        <h3 className="text-xl font-bold text-slate-800">AI Providers</h3>
+                        <p className="text-sm text-slate-500 mt-1">Choose which model handles each task.</p>
+                    </div>
+                    <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-200 transition-colors">
+                        <XMarkIcon className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-6 space-y-6 text-sm">
+                    <section className="space-y-2">
+                        <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Tasks</h4>
+                        {isMockForced() && (
+                            <p className="text-xs px-3 py-2 rounded-lg bg-amber-50 text-amber-700">
+                                <code>AI_PROVIDER=mock</code> is set, so every task uses the mock provider.
+                            </p>
+                        )}
+                        {(Object.keys(TASK_LABELS) as LlmTask[]).map(task => (
+                            <label key={task} className="flex items-center justify-between text-slate-700">
+                                <span>{TASK_LABELS[task]}</span>
+                                <select
+                                    value={draft.taskProviders[task] || 'gemini'}
+                                    onChange={(e) => setTaskProvider(task, e.target.value as ProviderId)}
+                                    className="px-2 py-1 border border-slate-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                >
+                                    {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (
+                                        <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+                                    ))}
+                                </select>
+                            </label>
+                        ))}
+                    </section>
+
+                    <section className="space-y-2">
+                        <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Google Gemini</h4>
+                        <label className="block text-slate-600">
+                            Model
+                            <input type="text" value={draft.geminiModel} onChange={(e) => update({ geminiModel: e.target.value })} className={`${inputClass} mt-1`} />
+                        </label>
+                        {renderRateLimit('gemini')}
+                        <p className="text-xs text-slate-400">Uses the API key from <code>.env.local</code>. Requests above the limit wait instead of failing with quota errors.</p>
+                    </section>
+
+                    <section className="space-y-2">
+                        <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">OpenAI-compatible Server</h4>
+                        <label className="block text-slate-600">
+                            Base URL
+                            <input
+                                type="text"
+                                value={draft.openAiBaseUrl}
+                                onChange={(e) => update({ openAiBaseUrl: e.target.value })}
+                                placeholder="http://localhost:11434/v1"
+                                className={`${inputClass} mt-1`}
+                            />
+                        </label>
+                        <label className="block text-slate-600">
+                            Model
+                            <input type="text" value={draft.openAiModel} onChange={(e) => update({ openAiModel: e.target.value })} className={`${inputClass} mt-1`} />
+                        </label>
+                        <label className="block text-slate-600">
+                            API Key <span className="text-slate-400">(optional)</span>
+                            <input type="password" value={draft.openAiApiKey} onChange={(e) => update({ openAiApiKey: e.target.value })} className={`${inputClass} mt-1`} />
+                        </label>
+                        {renderRateLimit('openai')}
+                        <p className="text-xs text-slate-400">
+                            Works with llama.cpp, vLLM, Ollama and other servers that implement <code>/chat/completions</code>. The server must allow requests from this page (CORS).
+                        </p>
+                    </section>
+
+                    <section className="space-y-2">
+                        <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Mock (offline)</h4>
+                        <p className="text-xs text-slate-400">Builds fake but well-formed results from the transcript, for development without a key or network.</p>
+                        <label className="flex items-center justify-between text-slate-600">
+                            <span>Latency per call (ms)</span>
+                            <input
+                                type="number"
+                                min={0}
+                                step={100}
+                                value={draft.mockLatencyMs}
+                                onChange={(e) => update({ mockLatencyMs: Math.max(0, Number(e.target.value)) })}
+                                className="w-24 px-2 py-1 border border-slate-300 rounded-lg text-sm text-right focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                            />
+                        </label>
+                        <label className="flex items-center justify-between text-slate-600">
+                            <span>Fail with 429 (rate limit)</span>
+                            <select
+                                value={draft.mockRateLimitRate}
+                                onChange={(e) => update({ mockRateLimitRate: Number(e.target.value) })}
+                                className="px-2 py-1 border border-slate-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                            >
+                                {FAILURE_RATES.map(rate => <option key={rate} value={rate}>{Math.round(rate * 100)}% of calls</option>)}
+                            </select>
+                        </label>
+                        <label className="flex items-center justify-between text-slate-600">
+                            <span>Return malformed JSON</span>
+                            <select
+                                value={draft.mockMalformedJsonRate}
+                                onChange={(e) => update({ mockMalformedJsonRate: Number(e.target.value) })}
+                                className="px-2 py-1 border border-slate-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                            >
+                                {FAILURE_RATES.map(rate => <option key={rate} value={rate}>{Math.round(rate * 100)}% of calls</option>)}
+                            </select>
+                        </label>
+                        {renderRateLimit('mock')}
+                    </section>
+
+                    <section className="space-y-2">
+                        <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Result Cache</h4>
+                        <p className="text-xs text-slate-400">
+                            Generating again for the same transcript with the same prompt and model reuses the earlier result instead of calling the AI. Use <strong>Regenerate</strong> on a lecture tab to force a fresh result.
+                        </p>
+                        <label className="flex items-center justify-between text-slate-600">
+                            <span>Cache size limit</span>
+                            <select
+                                value={draft.generationCacheLimitMb}
+                                onChange={(e) => update({ generationCacheLimitMb: Number(e.target.value) })}
+                                className="px-2 py-1 border border-slate-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                            >
+                                {CACHE_LIMITS_MB.map(mb => <option key={mb} value={mb}>{mb === 0 ? 'Off' : `${mb} MB`}</option>)}
+                            </select>
+                        </label>
+                        <div className="flex items-center justify-between text-slate-600">
+                            <span>{cacheStats ? `${cacheStats.entries} result(s), ${formatBytes(cacheStats.bytes)}` : 'Reading cache...'}</span>
+                            <button
+                                onClick={handleClearCache}
+                                disabled={!cacheStats || cacheStats.entries === 0}
+                                className="flex items-center gap-1 text-xs text-red-500 hover:text-red-700 px-2 py-1 rounded hover:bg-red-50 transition-colors disabled:opacity-50"
+                            >
+                                <TrashIcon className="w-3 h-3" />
+                                Clear Cache
+                            </button>
+                        </div>
+                    </section>
+                </div>
+
+                <div className="p-4 bg-slate-50 border-t border-slate-100 flex gap-3 justify-end">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-slate-600 font-medium hover:bg-slate-200 rounded-lg transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        className="px-6 py-2 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 shadow-sm transition-colors"
+                    >
+                        Save
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AiSettingsPanel;
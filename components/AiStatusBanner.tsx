@@ -0,0 +1,43 @@
+import React, { useEffect, useState } from 'react';
+import { ClockIcon } from './icons';
+import * as RequestService from '../services/requestService';
+import { AiWait } from '../services/requestService';
+import { TASK_LABELS } from '../services/llmProvider';
+
+// Lists AI requests that are currently held back by the rate limiter or waiting to retry
+const AiStatusBanner: React.FC = () => {
+    const [waits, setWaits] = useState<AiWait[]>([]);
+    const [now, setNow] = useState(Date.now());
+
+    useEffect(() => RequestService.subscribeToAiWaits(setWaits), []);
+
+    // Tick the countdown only while something is waiting
+    useEffect(() => {
+        if (waits.length === 0) return;
+        const timer = window.setInterval(() => setNow(Date.now()), 500);
+        return () => window.clearInterval(timer);
+    }, [waits.length]);
+
+    if (waits.length === 0) return null;
+
+    return (
+        <div className="fixed bottom-4 right-4 z-40 space-y-2 max-w-xs animate-fadeIn">
+            {waits.map(wait => {
+                const seconds = Math.max(0, Math.ceil((wait.until - now) / 1000));
+                return (
+                    <div key={wait.id} className="flex items-start gap-2 px-4 py-3 bg-slate-800 text-white text-sm rounded-xl shadow-lg">
+                        <ClockIcon className="w-4 h-4 mt-0.5 flex-shrink-0 text-amber-300" />
+                        <span>
+                            <span className="font-medium">{TASK_LABELS[wait.task]}:</span>{' '}
+                            {wait.reason === 'quota'
+                                ? `waiting for quota, sending in ${seconds}s`
+                                : `waiting for quota, retrying in ${seconds}s (attempt ${wait.attempt})`}
+                        </span>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default AiStatusBanner;
@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { LectureData } from '../types';
+import { XMarkIcon, TrashIcon, ArrowDownTrayIcon, ArrowUturnLeftIcon, ClockIcon } from './icons';
+import * as BackupService from '../services/backupService';
+import { SnapshotInfo } from '../services/backupService';
+import { classifyImport, ImportStatus } from '../services/mergeService';
+import { formatBytes } from '../services/storageUsageService';
+
+interface BackupPanelProps {
+    snapshots: SnapshotInfo[];
+    // Current library including the Trash, to compare snapshots against
+    lectures: LectureData[];
+    intervalHours: number;
+    keepCount: number;
+    onSettingsChange: (settings: { backupIntervalHours?: number; backupKeepCount?: number }) => void;
+    onCreate: () => Promise<void>;
+    onRestore: (snapshotId: string) => Promise<void>;
+    onDownload: (snapshotId: string) => void;
+    onDelete: (snapshotId: string) => void;
+    onClose: () => void;
+}
+
+const STATUS_LABELS: Record<ImportStatus, { label: string; className: string }> = {
+    new: { label: 'Not in library', className: 'bg-emerald-100 text-emerald-700' },
+    changed: { label: 'Differs', className: 'bg-amber-100 text-amber-700' },
+    identical: { label: 'Unchanged', className: 'bg-slate-100 text-slate-500' },
+};
+
+interface SnapshotContents {
+    lectures: { lecture: LectureData; status: ImportStatus }[];
+    // Library lectures the snapshot doesn't have; a restore moves them to the Trash
+    missing: LectureData[];
+}
+
+const BackupPanel: React.FC<BackupPanelProps> = ({ snapshots, lectures, intervalHours, keepCount, onSettingsChange, onCreate, onRestore, onDownload, onDelete, onClose }) => {
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [contents, setContents] = useState<SnapshotContents | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+
+    const handleExpand = async (id: string) => {
+        if (expandedId === id) {
+            setExpandedId(null);
+            return;
+        }
+        setExpandedId(id);
+        setContents(null);
+        setError(null);
+        try {
+            const snapshotLectures = await BackupService.getSnapshotLectures(id);
+            const snapshotIds = new Set(snapshotLectures.map(l => l.id));
+            setContents({
+                lectures: classifyImport(snapshotLectures, lectures).map(item => ({ lecture: item.incoming, status: item.status })),
+                missing: lectures.filter(l => !snapshotIds.has(l.id) && !l.deletedAt),
+            });
+        } catch (e: any) {
+            setError(e?.message || "Could not read this snapshot.");
+        }
+    };
+
+    const handleRestore = async (snapshot: SnapshotInfo) => {
+        if (!confirm(`Restore the library to ${new Date(snapshot.createdAt).toLocaleString()}? A snapshot of the current library is taken first.`)) return;
+        setIsWorking(true);
+        try {
+            await onRestore(snapshot.id);
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleCreate = async () => {
+        setIsWorking(true);
+        try {
+            await onCreate();
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fadeIn">
+            <div className="bg-white rounded-2xl shadow-xl max-w-2xl w-full overflow-hidden flex flex-col max-h-[85vh]">
+                <div className="p-6 border-b border-slate-100 bg-slate-50 flex items-start justify-between">
+                    <div>
+                        <h3 className="text-xl font-bold text-slate-800">Backups</h3>
+                        <p className="text-sm text-slate-500 mt-1">
+                            Snapshots of the whole library, stored separately in this browser.
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-200 transition-colors">
+                        <XMarkIcon className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="p-6 border-b border-slate-100 space-y-3 text-sm text-slate-600">
+                    <label className="flex items-center justify-between">
+                        <span>Take a snapshot automatically</span>
+                        <select
+                            value={intervalHours}
+                            onChange={(e) => onSettingsChange({ backupIntervalHours: Number(e.target.value) })}
+                            className="px-2 py-1 border border-slate-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        >
+                            <option value={0}>Never</option>
+                            <option value={6}>Every 6 hours</option>
+                            <option value={24}>Daily</option>
+                            <option value={168}>Weekly</option>
+                        </select>
+                    </label>
+                    <label className="flex items-center justify-between">
+                        <span>Snapshots to keep of each kind</span>
+                        <select
+                            value={keepCount}
+                            onChange={(e) => onSettingsChange({ backupKeepCount: Number(e.target.value) })}
+                            className="px-2 py-1 border border-slate-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        >
+                            {[3, 7, 14, 30].map(n => <option key={n} value={n}>{n}</option>)}
+                        </select>
+                    </label>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-2">
+                    {snapshots.map(snapshot => {
+                        const isExpanded = expandedId === snapshot.id;
+                        return (
+                            <div key={snapshot.id} className="border border-slate-200 rounded-xl">
+                                <button
+                                    onClick={() => handleExpand(snapshot.id)}
+                                    className="w-full text-left p-3 hover:bg-slate-50 rounded-xl transition-colors flex items-center justify-between gap-3"
+                                >
+                                    <div>
+                                        <div className="font-medium text-slate-800">{new Date(snapshot.createdAt).toLocaleString()}</div>
+                                        <div className="text-xs text-slate-500 mt-0.5">
+                                            {BackupService.SNAPSHOT_REASON_LABELS[snapshot.reason]} · {snapshot.lectureCount} lecture(s) · {formatBytes(snapshot.size)}
+                                        </div>
+                                    </div>
+                                    <ClockIcon className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                                </button>
+                                {isExpanded && (
+                                    <div className="px-3 pb-3 space-y-2">
+                                        {error && <p className="text-sm text-red-600">{error}</p>}
+                                        {!contents && !error && <p className="text-xs text-slate-400">Reading snapshot...</p>}
+                                        {contents && (
+                                            <div className="space-y-1 max-h-56 overflow-y-auto">
+                                                {contents.lectures.map(({ lecture, status }) => (
+                                                    <div key={lecture.id} className="flex items-center justify-between gap-2 text-xs text-slate-600">
+                                                        <span className="truncate">
+                                                            {lecture.title}
+                                                            <span className="text-slate-400 ml-2">{new Date(lecture.date).toLocaleDateString()}</span>
+                                                            {lecture.deletedAt && <span className="ml-2 text-[10px] font-bold uppercase text-slate-400">In Trash</span>}
+                                                        </span>
+                                                        <span className={`text-[10px] font-bold uppercase px-1.5 py-0.5 rounded flex-shrink-0 ${STATUS_LABELS[status].className}`}>
+                                                            {STATUS_LABELS[status].label}
+                                                        </span>
+                                                    </div>
+                                                ))}
+                                                {contents.missing.map(lecture => (
+                                                    <div key={lecture.id} className="flex items-center justify-between gap-2 text-xs text-slate-400">
+                                                        <span className="truncate line-through">{lecture.title}</span>
+                                                        <span className="text-[10px] font-bold uppercase px-1.5 py-0.5 rounded bg-red-50 text-red-600 flex-shrink-0">Moves to Trash</span>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
+                                        <div className="flex gap-2 justify-end pt-1">
+                                            <button
+                                                onClick={() => onDelete(snapshot.id)}
+                                                className="flex items-center gap-1 text-xs text-red-500 hover:text-red-700 px-2 py-1 rounded hover:bg-red-50 transition-colors"
+                                            >
+                                                <TrashIcon className="w-3.5 h-3.5" /> Delete
+                                            </button>
+                                            <button
+                                                onClick={() => onDownload(snapshot.id)}
+                                                className="flex items-center gap-1 text-xs text-slate-600 px-2 py-1 border border-slate-200 rounded hover:bg-slate-50 transition-colors"
+                                            >
+                                                <ArrowDownTrayIcon className="w-3.5 h-3.5" /> Download
+                                            </button>
+                                            <button
+                                                onClick={() => handleRestore(snapshot)}
+                                                disabled={isWorking || !contents}
+                                                className="flex items-center gap-1 text-xs text-white bg-indigo-600 px-2 py-1 rounded hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                                            >
+                                                <ArrowUturnLeftIcon className="w-3.5 h-3.5" /> Restore
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                    {snapshots.length === 0 && (
+                        <div className="text-center py-8 text-slate-400 text-sm">No snapshots yet.</div>
+                    )}
+                </div>
+
+                <div className="p-4 bg-slate-50 border-t border-slate-100 flex gap-3 justify-end">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-slate-600 font-medium hover:bg-slate-200 rounded-lg transition-colors"
+                    >
+                        Close
+                    </button>
+                    <button
+                        onClick={handleCreate}
+                        disabled={isWorking}
+                        className="px-6 py-2 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 shadow-sm transition-colors disabled:opacity-50"
+                    >
+                        Snapshot Now
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BackupPanel;
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { LectureData } from '../types';
+import { XMarkIcon, ArrowDownTrayIcon, HashtagIcon } from './icons';
+import * as ExportService from '../services/exportService';
+import { ExportFilter, ExportOptions } from '../services/exportService';
+
+interface ExportModalProps {
+    lectures: LectureData[];
+    // Lectures picked in the sidebar; when empty, everything matching the filters starts selected
+    initialSelectedIds: string[];
+    onExport: (lectures: LectureData[]) => void;
+    onClose: () => void;
+}
+
+const ExportModal: React.FC<ExportModalProps> = ({ lectures, initialSelectedIds, onExport, onClose }) => {
+    const [filter, setFilter] = useState<ExportFilter>(ExportService.EMPTY_FILTER);
+    const [options, setOptions] = useState<ExportOptions>({ includeChat: true, includeGenerated: true });
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(
+        () => new Set(initialSelectedIds.length > 0 ? initialSelectedIds : lectures.map(l => l.id))
+    );
+
+    const allTags = Array.from(new Set(lectures.flatMap(l => l.tags || []))).sort();
+    const visible = lectures.filter(l => ExportService.matchesExportFilter(l, filter));
+    // Only what is both visible and ticked is exported, so filters act as a further narrowing
+    const chosen = visible.filter(l => selectedIds.has(l.id));
+    const allVisibleSelected = visible.length > 0 && visible.every(l => selectedIds.has(l.id));
+
+    const toggle = (id: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    const toggleAllVisible = () => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            visible.forEach(l => allVisibleSelected ? next.delete(l.id) : next.add(l.id));
+            return next;
+        });
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fadeIn">
+            <div className="bg-white rounded-2xl shadow-xl max-w-2xl w-full overflow-hidden flex flex-col max-h-[85vh]">
+                <div className="p-6 border-b border-slate-100 bg-slate-50 flex items-start justify-between">
+                    <div>
+                        <h3 className="text-xl font-bold text-slate-800">Export Lectures</h3>
+                        <p className="text-sm text-slate-500 mt-1">Choose which lectures to export and what to include.</p>
+                    </div>
+                    <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-200 transition-colors">
+                        <XMarkIcon className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="p-6 border-b border-slate-100 space-y-3 text-sm text-slate-600">
+                    <div className="flex flex-wrap gap-3 items-center">
+                        <label className="flex items-center gap-2">
+                            <HashtagIcon className="w-3.5 h-3.5 text-slate-400" />
+                            <select
+                                value={filter.tag || ''}
+                                onChange={(e) => setFilter(prev => ({ ...prev, tag: e.target.value || null }))}
+                                className="px-2 py-1 border border-slate-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                            >
+                                <option value="">All tags</option>
+                                {allTags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+                            </select>
+                        </label>
+                        <label className="flex items-center gap-2">
+                            From
+                            <input
+                                type="date"
+                                value={filter.from}
+                                onChange={(e) => setFilter(prev => ({ ...prev, from: e.target.value }))}
+                                className="px-2 py-1 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                            />
+                        </label>
+                        <label className="flex items-center gap-2">
+                            To
+                            <input
+                                type="date"
+                                value={filter.to}
+                                onChange={(e) => setFilter(prev => ({ ...prev, to: e.target.value }))}
+                                className="px-2 py-1 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                            />
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={filter.hasFlashcards}
+                                onChange={(e) => setFilter(prev => ({ ...prev, hasFlashcards: e.target.checked }))}
+                                className="rounded text-indigo-600 focus:ring-indigo-500"
+                            />
+                            Has flashcards
+                        </label>
+                    </div>
+                    <div className="flex flex-wrap gap-4">
+                        <label className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={options.includeGenerated}
+                                onChange={(e) => setOptions(prev => ({ ...prev, includeGenerated: e.target.checked }))}
+                                className="rounded text-indigo-600 focus:ring-indigo-500"
+                            />
+                            Include AI content
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={options.includeChat}
+                                onChange={(e) => setOptions(prev => ({ ...prev, includeChat: e.target.checked }))}
+                                className="rounded text-indigo-600 focus:ring-indigo-500"
+                            />
+                            Include chat history
+                        </label>
+                    </div>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-1">
+                    {visible.length > 0 && (
+                        <label className="flex items-center gap-3 px-3 py-2 text-xs font-semibold text-slate-500 uppercase tracking-wider">
+                            <input
+                                type="checkbox"
+                                checked={allVisibleSelected}
+                                onChange={toggleAllVisible}
+                                className="rounded text-indigo-600 focus:ring-indigo-500"
+                            />
+                            Select all shown
+                        </label>
+                    )}
+                    {visible.map(lecture => (
+                        <label key={lecture.id} className="flex items-center gap-3 p-3 rounded-lg hover:bg-slate-50 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={selectedIds.has(lecture.id)}
+                                onChange={() => toggle(lecture.id)}
+                                className="rounded text-indigo-600 focus:ring-indigo-500"
+                            />
+                            <div className="min-w-0 flex-1">
+                                <div className="font-medium text-slate-800 truncate">{lecture.title}</div>
+                                <div className="text-xs text-slate-500 flex gap-2">
+                                    <span>{new Date(lecture.date).toLocaleDateString()}</span>
+                                    {lecture.tags?.map(tag => <span key={tag}>#{tag}</span>)}
+                                </div>
+                            </div>
+                        </label>
+                    ))}
+                    {visible.length === 0 && (
+                        <div className="text-center py-8 text-slate-400 text-sm">No lectures match these filters.</div>
+                    )}
+                </div>
+
+                <div className="p-4 bg-slate-50 border-t border-slate-100 flex gap-3 justify-end">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-slate-600 font-medium hover:bg-slate-200 rounded-lg transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={() => onExport(ExportService.prepareExport(chosen, options))}
+                        disabled={chosen.length === 0}
+                        className="px-6 py-2 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 shadow-sm transition-colors flex items-center gap-2 disabled:opacity-50"
+                    >
+                        <ArrowDownTrayIcon className="w-4 h-4" />
+                        Export {chosen.length} Lecture{chosen.length === 1 ? '' : 's'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ExportModal;
@@ -0,0 +1,108 @@
+import React from 'react';
+import { XMarkIcon, ArrowPathIcon, StopIcon } from './icons';
+import * as JobService from '../services/jobService';
+import { GenerationJob, JobStatus } from '../services/jobService';
+
+interface JobQueuePanelProps {
+    jobs: GenerationJob[];
+    onOpenLecture: (lectureId: string) => void;
+    onClose: () => void;
+}
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+    queued: 'bg-slate-100 text-slate-600',
+    running: 'bg-indigo-100 text-indigo-700 animate-pulse',
+    succeeded: 'bg-emerald-100 text-emerald-700',
+    failed: 'bg-red-100 text-red-700',
+    cancelled: 'bg-amber-100 text-amber-700',
+};
+
+const JobQueuePanel: React.FC<JobQueuePanelProps> = ({ jobs, onOpenLecture, onClose }) => {
+    // Unfinished jobs first, then the most recent
+    const sorted = [...jobs].sort((a, b) =>
+        Number(JobService.isActive(b)) - Number(JobService.isActive(a)) || b.createdAt.localeCompare(a.createdAt)
+    );
+    const activeCount = jobs.filter(JobService.isActive).length;
+    const hasFinished = jobs.length > activeCount;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fadeIn">
+            <div className="bg-white rounded-2xl shadow-xl max-w-2xl w-full overflow-hidden flex flex-col max-h-[85vh]">
+                <div className="p-6 border-b border-slate-100 bg-slate-50 flex items-start justify-between">
+                    <div>
+                        <h3 className="text-xl font-bold text-slate-800">Generation Jobs</h3>
+                        <p className="text-sm text-slate-500 mt-1">
+                            {activeCount > 0 ? `${activeCount} job(s) queued or running.` : 'Nothing is being generated right now.'} Queued jobs resume after a reload.
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-200 transition-colors">
+                        <XMarkIcon className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-2">
+                    {sorted.map(job => (
+                        <div key={job.id} className="border border-slate-200 rounded-xl p-3 flex items-center gap-3">
+                            <div className="flex-1 min-w-0">
+                                <div className="flex items-center gap-2">
+                                    <span className="font-medium text-slate-800">{JobService.getJobLabel(job)}</span>
+                                    <span className={`text-[10px] font-bold uppercase px-1.5 py-0.5 rounded ${STATUS_STYLES[job.status]}`}>
+                                        {JobService.JOB_STATUS_LABELS[job.status]}
+                                    </span>
+                                </div>
+                                <button
+                                    onClick={() => onOpenLecture(job.lectureId)}
+                                    className="text-xs text-indigo-600 hover:underline truncate max-w-full block text-left"
+                                >
+                                    {job.lectureTitle}
+                                </button>
+                                <div className="text-xs text-slate-400 mt-0.5">
+                                    {new Date(job.finishedAt || job.startedAt || job.createdAt).toLocaleTimeString()}
+                                </div>
+                                {job.error && <div className="text-xs text-red-600 mt-1 break-words">{job.error}</div>}
+                            </div>
+                            {JobService.isActive(job) ? (
+                                <button
+                                    onClick={() => JobService.cancelJob(job.id)}
+                                    className="flex items-center gap-1 text-xs text-red-500 hover:text-red-700 px-2 py-1 rounded hover:bg-red-50 transition-colors flex-shrink-0"
+                                >
+                                    <StopIcon className="w-3 h-3" />
+                                    Cancel
+                                </button>
+                            ) : job.status !== 'succeeded' && (
+                                <button
+                                    onClick={() => JobService.retryJob(job.id)}
+                                    className="flex items-center gap-1 text-xs text-indigo-600 hover:text-indigo-800 px-2 py-1 rounded hover:bg-indigo-50 transition-colors flex-shrink-0"
+                                >
+                                    <ArrowPathIcon className="w-3 h-3" />
+                                    Retry
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                    {sorted.length === 0 && (
+                        <div className="text-center py-8 text-slate-400 text-sm">No generation jobs yet.</div>
+                    )}
+                </div>
+
+                <div className="p-4 bg-slate-50 border-t border-slate-100 flex gap-3 justify-end">
+                    <button
+                        onClick={JobService.clearFinishedJobs}
+                        disabled={!hasFinished}
+                        className="px-4 py-2 text-slate-600 font-medium hover:bg-slate-200 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                        Clear Finished
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="px-6 py-2 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 shadow-sm transition-colors"
+                    >
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default JobQueuePanel;
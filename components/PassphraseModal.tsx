@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { LockClosedIcon } from './icons';
+
+interface PassphraseModalProps {
+    title: string;
+    description: string;
+    submitLabel: string;
+    // Asks for the passphrase twice when setting a new one
+    requireConfirmation?: boolean;
+    secondaryLabel?: string;
+    onSecondary?: () => void;
+    // Rejections are shown inline so the user can try again
+    onSubmit: (passphrase: string) => Promise<void>;
+    onCancel: () => void;
+}
+
+const MIN_LENGTH = 8;
+
+const PassphraseModal: React.FC<PassphraseModalProps> = ({ title, description, submitLabel, requireConfirmation, secondaryLabel, onSecondary, onSubmit, onCancel }) => {
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmation, setConfirmation] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+
+    const handleSubmit = async () => {
+        if (requireConfirmation) {
+            if (passphrase.length < MIN_LENGTH) {
+                setError(`Use at least ${MIN_LENGTH} characters.`);
+                return;
+            }
+            if (passphrase !== confirmation) {
+                setError("The passphrases don't match.");
+                return;
+            }
+        }
+        if (!passphrase) return;
+
+        setIsWorking(true);
+        setError(null);
+        try {
+            await onSubmit(passphrase);
+        } catch (e: any) {
+            setError(e?.message || "Something went wrong. Please try again.");
+            setIsWorking(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fadeIn">
+            <div className="bg-white rounded-2xl shadow-xl max-w-md w-full overflow-hidden">
+                <div className="p-6 border-b border-slate-100 bg-slate-50 flex items-center gap-3">
+                    <div className="bg-indigo-100 p-2 rounded-full text-indigo-600">
+                        <LockClosedIcon className="w-6 h-6" />
+                    </div>
+                    <div>
+                        <h3 className="text-xl font-bold text-slate-800">{title}</h3>
+                        <p className="text-xs text-slate-500">{description}</p>
+                    </div>
+                </div>
+
+                <div className="p-6 space-y-3">
+                    <input
+                        type="password"
+                        value={passphrase}
+                        onChange={(e) => setPassphrase(e.target.value)}
+                        placeholder="Passphrase"
+                        autoFocus
+                        onKeyDown={e => e.key === 'Enter' && !requireConfirmation && handleSubmit()}
+                        className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                    />
+                    {requireConfirmation && (
+                        <input
+                            type="password"
+                            value={confirmation}
+                            onChange={(e) => setConfirmation(e.target.value)}
+                            placeholder="Repeat passphrase"
+                            onKeyDown={e => e.key === 'Enter' && handleSubmit()}
+                            className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                        />
+                    )}
+                    {requireConfirmation && (
+                        <p className="text-xs text-slate-400">There is no way to recover a forgotten passphrase.</p>
+                    )}
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+                </div>
+
+                <div className="p-4 bg-slate-50 border-t border-slate-100 flex gap-3 justify-end">
+                    <button
+                        onClick={onCancel}
+                        disabled={isWorking}
+                        className="px-4 py-2 text-slate-600 font-medium hover:bg-slate-200 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                        Cancel
+                    </button>
+                    {secondaryLabel && onSecondary && (
+                        <button
+                            onClick={onSecondary}
+                            disabled={isWorking}
+                            className="px-4 py-2 text-slate-600 font-medium border border-slate-200 bg-white hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                            {secondaryLabel}
+                        </button>
+                    )}
+                    <button
+                        onClick={handleSubmit}
+                        disabled={isWorking || !passphrase}
+                        className="px-6 py-2 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 shadow-sm transition-colors disabled:opacity-50"
+                    >
+                        {isWorking ? 'Working...' : submitLabel}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PassphraseModal;
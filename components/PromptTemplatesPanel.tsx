@@ -0,0 +1,211 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { XMarkIcon } from './icons';
+import { LectureData } from '../types';
+import * as PromptService from '../services/promptService';
+import { PromptId, PromptScope, PROMPT_DEFINITIONS, VARIABLE_DESCRIPTIONS } from '../services/promptService';
+import { previewPrompt } from '../services/geminiService';
+
+interface PromptTemplatesPanelProps {
+    lectures: LectureData[];
+    // Lecture the panel was opened from; preselected for the preview and lecture overrides
+    initialLectureId?: string;
+    onClose: () => void;
+}
+
+type ScopeKind = PromptScope['kind'];
+
+// Longest preview shown; the rest of a long transcript is elided
+const MAX_PREVIEW_CHARS = 6000;
+
+const PromptTemplatesPanel: React.FC<PromptTemplatesPanelProps> = ({ lectures, initialLectureId, onClose }) => {
+    const tags = useMemo(() => Array.from(new Set(lectures.flatMap(l => l.tags || []))).sort(), [lectures]);
+
+    const [promptId, setPromptId] = useState<PromptId>('summary');
+    const [scopeKind, setScopeKind] = useState<ScopeKind>(initialLectureId ? 'lecture' : 'global');
+    const [tag, setTag] = useState(tags[0] || '');
+    const [lectureId, setLectureId] = useState(initialLectureId || lectures[0]?.id || '');
+    const [draft, setDraft] = useState('');
+    const [isOverridden, setIsOverridden] = useState(false);
+
+    const lecture = lectures.find(l => l.id === lectureId);
+    const scope: PromptScope | null =
+        scopeKind === 'global' ? { kind: 'global' }
+        : scopeKind === 'tag' ? (tag ? { kind: 'tag', tag } : null)
+        : (lectureId ? { kind: 'lecture', lectureId } : null);
+    const scopeKey = scope ? JSON.stringify(scope) : '';
+
+    // Load the scope's own template, or what it inherits
+    useEffect(() => {
+        if (!scope) return;
+        const own = PromptService.getOverride(scope, promptId);
+        setIsOverridden(own !== undefined);
+        setDraft(own ?? PromptService.resolveInherited(promptId, scope, lecture).template);
+    }, [promptId, scopeKey]);
+
+    const definition = PROMPT_DEFINITIONS[promptId];
+    const unknownVariables = PromptService.findUnknownVariables(promptId, draft);
+    const inherited = scope ? PromptService.resolveInherited(promptId, scope, lecture) : null;
+
+    const preview = useMemo(() => lecture ? previewPrompt(promptId, lecture, draft) : null, [promptId, lecture, draft]);
+
+    const handleSave = () => {
+        if (!scope) return;
+        // Saving the inherited text unchanged keeps following later edits to it
+        const template = draft === inherited?.template ? null : draft;
+        PromptService.setOverride(scope, promptId, template);
+        setIsOverridden(template !== null);
+    };
+
+    const handleReset = () => {
+        if (!scope) return;
+        PromptService.setOverride(scope, promptId, null);
+        setIsOverridden(false);
+        setDraft(inherited?.template || '');
+    };
+
+    const inheritedFrom = () => {
+        const source = inherited?.source;
+        if (source?.kind === 'tag') return `tag #${source.tag}`;
+        if (source?.kind === 'global') return 'your default for all lectures';
+        return 'the built-in default';
+    };
+
+    const renderPreview = () => {
+        if (!preview) return <p className="text-xs text-slate-400">Pick a lecture to preview the prompt.</p>;
+        const text = preview.prompt.length > MAX_PREVIEW_CHARS
+            ? `${preview.prompt.slice(0, MAX_PREVIEW_CHARS)}\n\n… ${(preview.prompt.length - MAX_PREVIEW_CHARS).toLocaleString()} more characters`
+            : preview.prompt;
+        return (
+            <>
+                {preview.parts > 1 && (
+                    <p className="text-xs text-slate-400">This lecture is sent in {preview.parts} parts; the prompt for the first part is shown.</p>
+                )}
+                <pre className="text-xs bg-slate-900 text-slate-100 rounded-lg p-3 whitespace-pre-wrap break-words max-h-72 overflow-y-auto">{text}</pre>
+            </>
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fadeIn">
+            <div className="bg-white rounded-2xl shadow-xl max-w-4xl w-full overflow-hidden flex flex-col max-h-[90vh]">
+                <div className="p-6 border-b border-slate-100 bg-slate-50 flex items-start justify-between">
+                    <div>
+                        <h3 className="text-xl font-bold text-slate-800">Prompt Templates</h3>
+                        <p className="text-sm text-slate-500 mt-1">
+                            Edit what is sent to the AI. Lecture templates win over tag templates, which win over your defaults.
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-200 transition-colors">
+                        <XMarkIcon className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-hidden flex">
+                    <div className="w-48 border-r border-slate-100 overflow-y-auto p-2 flex-shrink-0">
+                        {(Object.keys(PROMPT_DEFINITIONS) as PromptId[]).map(id => (
+                            <button
+                                key={id}
+                                onClick={() => setPromptId(id)}
+                                className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+                                    promptId === id ? 'bg-indigo-50 text-indigo-700 font-medium' : 'text-slate-600 hover:bg-slate-50'
+                                }`}
+                            >
+                                {PROMPT_DEFINITIONS[id].label}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="flex-1 overflow-y-auto p-6 space-y-4 text-sm">
+                        <div className="flex flex-wrap items-center gap-2">
+                            <span className="text-slate-500">Applies to</span>
+                            <select
+                                value={scopeKind}
+                                onChange={(e) => setScopeKind(e.target.value as ScopeKind)}
+                                className="px-2 py-1 border border-slate-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                            >
+                                <option value="global">All lectures</option>
+                                <option value="tag" disabled={tags.length === 0}>Lectures tagged</option>
+                                <option value="lecture" disabled={lectures.length === 0}>One lecture</option>
+                            </select>
+                            {scopeKind === 'tag' && (
+                                <select
+                                    value={tag}
+                                    onChange={(e) => setTag(e.target.value)}
+                                    className="px-2 py-1 border border-slate-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                >
+                                    {tags.map(t => <option key={t} value={t}>#{t}</option>)}
+                                </select>
+                            )}
+                            <span className="text-slate-500 ml-auto">{scopeKind === 'lecture' ? 'Lecture' : 'Preview with'}</span>
+                            <select
+                                value={lectureId}
+                                onChange={(e) => setLectureId(e.target.value)}
+                                className="px-2 py-1 border border-slate-300 rounded-lg bg-white text-sm max-w-[14rem] focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                            >
+                                {lectures.map(l => <option key={l.id} value={l.id}>{l.title}</option>)}
+                            </select>
+                        </div>
+
+                        <div className="flex items-center justify-between">
+                            <span className="text-xs text-slate-400">
+                                {isOverridden ? 'Custom template for this scope.' : `Inherited from ${inheritedFrom()}.`}
+                            </span>
+                            <span className="text-xs text-slate-400">Task: {definition.task}</span>
+                        </div>
+                        <textarea
+                            value={draft}
+                            onChange={(e) => setDraft(e.target.value)}
+                            rows={12}
+                            spellCheck={false}
+                            className="w-full px-3 py-2 border border-slate-300 rounded-lg font-mono text-xs focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                        />
+
+                        {unknownVariables.length > 0 && (
+                            <p className="text-xs px-3 py-2 rounded-lg bg-amber-50 text-amber-700">
+                                Unknown variables are sent as written: {unknownVariables.map(v => `{{${v}}}`).join(', ')}
+                            </p>
+                        )}
+                        {!PromptService.usesTranscript(draft) && (
+                            <p className="text-xs px-3 py-2 rounded-lg bg-amber-50 text-amber-700">
+                                This template doesn't include {'{{transcript}}'}, so the AI won't see the lecture.
+                            </p>
+                        )}
+
+                        <section className="space-y-1">
+                            <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Variables</h4>
+                            {definition.variables.map(name => (
+                                <div key={name} className="text-xs text-slate-600">
+                                    <code className="text-indigo-600">{`{{${name}}}`}</code> {VARIABLE_DESCRIPTIONS[name]}
+                                </div>
+                            ))}
+                        </section>
+
+                        <section className="space-y-2">
+                            <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Preview</h4>
+                            {renderPreview()}
+                        </section>
+                    </div>
+                </div>
+
+                <div className="p-4 bg-slate-50 border-t border-slate-100 flex gap-3 justify-end">
+                    <button
+                        onClick={handleReset}
+                        disabled={!isOverridden}
+                        className="px-4 py-2 text-slate-600 font-medium hover:bg-slate-200 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                        Reset to Inherited
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={!scope}
+                        className="px-6 py-2 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 shadow-sm transition-colors disabled:opacity-50"
+                    >
+                        Save
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PromptTemplatesPanel;
@@ -2,6 +2,11 @@ import React, { useState, useEffect, useRef } from 'react';
 import { MicIcon, StopIcon } from './icons';
 import { TranscriptChunk } from '../types';
 import { GoogleGenAI, LiveServerMessage, Modality } from "@google/genai";
+import { AudioRecording, startAudioRecording } from '../services/audioService';
+import { createLectureId } from '../services/storageService';
+import { AudioCapture, CAPTURE_SAMPLE_RATE, prepareAudioCapture, startAudioCapture } from '../services/audioCaptureService';
+import { ReplayBuffer, createReplayBuffer } from '../services/liveReplayService';
+import { v4 as uuidv4 } from 'uuid';
 
 interface RecordingResult {
     startTime: string;
@@ -9,12 +14,19 @@ interface RecordingResult {
     duration: number;
     text: string;
     chunks: TranscriptChunk[];
+    // The recording is stored under these ids as it is made
+    sessionId: string;
+    lectureId: string;
+    // Whether any audio was stored; timestamps are seconds into it
+    hasAudio: boolean;
 }
 
 interface RecorderProps {
     onFinish: (result: RecordingResult) => void;
     onCancel: () => void;
     existingTitle?: string;
+    // The lecture the recording is appended to; a new lecture id is made otherwise
+    lectureId?: string;
 }
 
 // Audio encoding helpers
@@ -27,25 +39,32 @@ function encode(bytes: Uint8Array) {
     return btoa(binary);
 }
 
-function createBlob(data: Float32Array): { data: string; mimeType: string } {
-    const l = data.length;
-    const int16 = new Int16Array(l);
-    for (let i = 0; i < l; i++) {
-        const s = Math.max(-1, Math.min(1, data[i]));
-        int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-    }
+function createBlob(int16: Int16Array): { data: string; mimeType: string } {
     return {
         data: encode(new Uint8Array(int16.buffer)),
-        mimeType: 'audio/pcm;rate=16000',
+        mimeType: `audio/pcm;rate=${CAPTURE_SAMPLE_RATE}`,
     };
 }
 
-const Recorder: React.FC<RecorderProps> = ({ onFinish, onCancel, existingTitle }) => {
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+// Audio kept for replay while the Live session reconnects; anything older goes untranscribed
+const MAX_BUFFERED_SECONDS = 120;
+// Wait before each reconnection attempt; the last one repeats until recording stops
+const RECONNECT_DELAYS_MS = [0, 1000, 2000, 5000, 10000, 20000];
+// Turns starting this soon after a reconnect are taken to come from the replayed audio
+const REPLAY_GRACE_SECONDS = 5;
+
+const Recorder: React.FC<RecorderProps> = ({ onFinish, onCancel, existingTitle, lectureId }) => {
     const [isRecording, setIsRecording] = useState(false);
     const [transcript, setTranscript] = useState('');
     const [elapsedTime, setElapsedTime] = useState(0);
     const [error, setError] = useState<string | null>(null);
     const [startTime, setStartTime] = useState<string | null>(null);
+    const [isReconnecting, setIsReconnecting] = useState(false);
+    // Audio that could not be transcribed because the connection was down too long
+    const [lostSeconds, setLostSeconds] = useState(0);
+    // Frames the browser skipped while capturing (replaced by silence)
+    const [droppedFrames, setDroppedFrames] = useState(0);
 
     // Microphone Selection State
     const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
@@ -58,15 +77,36 @@ const Recorder: React.FC<RecorderProps> = ({ onFinish, onCancel, existingTitle }
     const turnStartTimeRef = useRef<number>(0);
     const isTurnActiveRef = useRef(false);
     const elapsedTimeRef = useRef(0);
+    // Stores the PCM captured alongside the Live session, for playback
+    const recordingRef = useRef<AudioRecording | null>(null);
+    const sessionIdRef = useRef('');
+    const lectureIdRef = useRef('');
 
     // Media/Session Refs
     const streamRef = useRef<MediaStream | null>(null);
     const audioContextRef = useRef<AudioContext | null>(null);
-    const processorRef = useRef<ScriptProcessorNode | null>(null);
-    const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+    const captureRef = useRef<AudioCapture | null>(null);
     const sessionRef = useRef<any>(null);
     const timerRef = useRef<number | null>(null);
 
+    // Reconnection Refs
+    const aiRef = useRef<GoogleGenAI | null>(null);
+    // Identifies the current connection; callbacks of replaced sessions are ignored
+    const connectionIdRef = useRef(0);
+    const isConnectedRef = useRef(false);
+    const hasConnectedRef = useRef(false);
+    const isStoppingRef = useRef(false);
+    const replayRef = useRef<ReplayBuffer | null>(null);
+    // Samples captured so far, which places each batch in the recording
+    const capturedSamplesRef = useRef(0);
+    // Recording time the replayed audio starts at, for the first turn after a reconnect
+    const resumeAtRef = useRef<number | null>(null);
+    const replayUntilRef = useRef(0);
+    const reconnectAttemptRef = useRef(0);
+    const reconnectTimerRef = useRef<number | null>(null);
+    const lostSecondsRef = useRef(0);
+    const droppedFramesRef = useRef(0);
+
     // Preview Refs
     const previewContextRef = useRef<AudioContext | null>(null);
     const previewStreamRef = useRef<MediaStream | null>(null);
@@ -74,13 +114,17 @@ const Recorder: React.FC<RecorderProps> = ({ onFinish, onCancel, existingTitle }
 
     // Cleanup function
     const stopEverything = () => {
-        if (processorRef.current) {
-            processorRef.current.disconnect();
-            processorRef.current = null;
+        isStoppingRef.current = true;
+        connectionIdRef.current++;
+        isConnectedRef.current = false;
+        if (reconnectTimerRef.current) {
+            window.clearTimeout(reconnectTimerRef.current);
+            reconnectTimerRef.current = null;
         }
-        if (sourceRef.current) {
-            sourceRef.current.disconnect();
-            sourceRef.current = null;
+        setIsReconnecting(false);
+        if (captureRef.current) {
+            captureRef.current.stop();
+            captureRef.current = null;
         }
         if (audioContextRef.current) {
             audioContextRef.current.close();
@@ -91,6 +135,11 @@ const Recorder: React.FC<RecorderProps> = ({ onFinish, onCancel, existingTitle }
             streamRef.current = null;
         }
         if (sessionRef.current) {
+            try {
+                sessionRef.current.close();
+            } catch {
+                // Already closed
+            }
             sessionRef.current = null;
         }
         if (timerRef.current) {
@@ -181,6 +230,10 @@ const Recorder: React.FC<RecorderProps> = ({ onFinish, onCancel, existingTitle }
         return () => {
             stopEverything();
             stopPreview();
+            // Left without Finish or Cancel (e.g. the library was locked): store the rest of the
+            // audio, so the recording is recovered in full on the next launch
+            recordingRef.current?.finish().catch(e => console.error("Could not store the rest of the recording", e));
+            recordingRef.current = null;
         };
     }, []);
 
@@ -197,6 +250,206 @@ const Recorder: React.FC<RecorderProps> = ({ onFinish, onCancel, existingTitle }
         return () => stopPreview();
     }, [selectedDeviceId, isRecording, transcript]);
 
+    const updateTranscript = () => {
+        const committedText = chunksRef.current.map(c => c.text).join(' ');
+        const currentText = currentTurnRef.current;
+        setTranscript(committedText + (committedText && currentText ? ' ' : '') + currentText);
+    };
+
+    // Moves the turn in progress into the timeline
+    const commitTurn = () => {
+        if (currentTurnRef.current.trim()) {
+            chunksRef.current.push({
+                timestamp: turnStartTimeRef.current,
+                text: currentTurnRef.current.trim()
+            });
+        }
+        currentTurnRef.current = '';
+        isTurnActiveRef.current = false;
+    };
+
+    const addLostSeconds = (seconds: number) => {
+        lostSecondsRef.current += seconds;
+        setLostSeconds(lostSecondsRef.current);
+    };
+
+    // Sends audio to the open session, or keeps the most recent audio for replay while disconnected.
+    // A send can throw when the socket closed before onclose fired; that counts as a disconnect.
+    const sendAudio = (pcm: Int16Array) => {
+        const frame = { pcm, at: capturedSamplesRef.current / CAPTURE_SAMPLE_RATE };
+        capturedSamplesRef.current += pcm.length;
+        if (sessionRef.current && isConnectedRef.current) {
+            try {
+                sessionRef.current.sendRealtimeInput({ media: createBlob(pcm) });
+                replayRef.current?.markSent(frame);
+                return;
+            } catch (e) {
+                handleDisconnect(connectionIdRef.current, e);
+            }
+        }
+        replayRef.current?.hold(frame);
+    };
+
+    const startCapture = (audioContext: AudioContext, stream: MediaStream) => {
+        setIsRecording(true);
+
+        timerRef.current = window.setInterval(() => {
+            setElapsedTime(prev => prev + 1);
+            elapsedTimeRef.current += 1;
+        }, 1000);
+
+        captureRef.current = startAudioCapture(audioContext, stream, {
+            onAudio: (pcm) => {
+                recordingRef.current?.add(pcm);
+                sendAudio(pcm);
+            },
+            onDroppedFrames: (frames) => {
+                droppedFramesRef.current += frames;
+                setDroppedFrames(droppedFramesRef.current);
+            },
+        });
+    };
+
+    const handleMessage = (message: LiveServerMessage) => {
+        // The server is about to end the session (time limit); switch to a new one now
+        if (message.goAway) {
+            handleDisconnect(connectionIdRef.current);
+            return;
+        }
+
+        const content = message.serverContent;
+        let needsUpdate = false;
+
+        if (content?.inputTranscription) {
+            let text = content.inputTranscription.text;
+            if (text) {
+                if (!isTurnActiveRef.current) {
+                    isTurnActiveRef.current = true;
+                    // Speech from the replayed audio belongs where the connection dropped
+                    const isReplayed = resumeAtRef.current !== null && elapsedTimeRef.current <= replayUntilRef.current;
+                    turnStartTimeRef.current = isReplayed ? Math.floor(resumeAtRef.current!) : elapsedTimeRef.current;
+                    resumeAtRef.current = null;
+
+                    if (chunksRef.current.length > 0) {
+                        const lastChunk = chunksRef.current[chunksRef.current.length - 1];
+                        if (lastChunk.text.length > 5 && text.startsWith(lastChunk.text)) {
+                            text = text.substring(lastChunk.text.length);
+                        }
+                    }
+                }
+                currentTurnRef.current += text;
+                needsUpdate = true;
+            }
+        }
+
+        if (content?.turnComplete) {
+            replayRef.current?.confirm();
+            commitTurn();
+            needsUpdate = true;
+        }
+
+        if (needsUpdate) updateTranscript();
+    };
+
+    // Opens a Live session. The first one starts the capture; later ones replay what was
+    // buffered while disconnected.
+    const connect = (audioContext: AudioContext, stream: MediaStream) => {
+        const ai = aiRef.current;
+        if (!ai) return;
+        const connectionId = ++connectionIdRef.current;
+
+        ai.live.connect({
+            model: LIVE_MODEL,
+            config: {
+                responseModalities: [Modality.AUDIO],
+                inputAudioTranscription: {},
+                systemInstruction: "You are a professional stenographer. Transcribe the user's speech exactly as spoken.",
+            },
+            callbacks: {
+                onmessage: (message: LiveServerMessage) => {
+                    if (connectionId === connectionIdRef.current) handleMessage(message);
+                },
+                onclose: () => handleDisconnect(connectionId),
+                onerror: (e) => handleDisconnect(connectionId, e),
+            }
+        }).then(session => {
+            if (connectionId !== connectionIdRef.current || isStoppingRef.current) {
+                session.close();
+                return;
+            }
+            sessionRef.current = session;
+            isConnectedRef.current = true;
+            reconnectAttemptRef.current = 0;
+            setIsReconnecting(false);
+
+            if (!hasConnectedRef.current) {
+                hasConnectedRef.current = true;
+                startCapture(audioContext, stream);
+                return;
+            }
+            const replay = replayRef.current;
+            if (!replay) return;
+            resumeAtRef.current = replay.startsAt();
+            replayUntilRef.current = elapsedTimeRef.current + REPLAY_GRACE_SECONDS;
+            // Sent one by one so what could not be sent stays buffered for the next session
+            for (let frame = replay.peek(); frame; frame = replay.peek()) {
+                try {
+                    session.sendRealtimeInput({ media: createBlob(frame.pcm) });
+                } catch (e) {
+                    handleDisconnect(connectionId, e);
+                    return;
+                }
+                replay.shift();
+            }
+        }).catch(e => handleDisconnect(connectionId, e));
+    };
+
+    const handleDisconnect = (connectionId: number, error?: unknown) => {
+        if (connectionId !== connectionIdRef.current || isStoppingRef.current) return;
+
+        // Without a first connection there is nothing to resume
+        if (!hasConnectedRef.current) {
+            // The Live socket reports failures as ErrorEvents
+            const message = error instanceof Error || error instanceof ErrorEvent ? error.message : undefined;
+            setError(message || "Connection error. Please try again.");
+            stopEverything();
+            return;
+        }
+
+        // Callbacks of the session being replaced are ignored from here on
+        connectionIdRef.current++;
+        if (sessionRef.current) {
+            try {
+                sessionRef.current.close();
+            } catch {
+                // Already closed
+            }
+            sessionRef.current = null;
+        }
+        if (isConnectedRef.current) {
+            isConnectedRef.current = false;
+            // Audio the old session had not finished transcribing goes to the new one as well
+            if (replayRef.current?.requeue()) {
+                // which transcribes the turn in progress again from its start
+                currentTurnRef.current = '';
+                isTurnActiveRef.current = false;
+            } else {
+                // The new session can't finish the turn in progress, so keep what was heard
+                commitTurn();
+            }
+            updateTranscript();
+        }
+        setIsReconnecting(true);
+
+        const delay = RECONNECT_DELAYS_MS[Math.min(reconnectAttemptRef.current, RECONNECT_DELAYS_MS.length - 1)];
+        reconnectAttemptRef.current++;
+        if (error) console.warn(`Live session lost, reconnecting in ${delay} ms`, error);
+        reconnectTimerRef.current = window.setTimeout(() => {
+            reconnectTimerRef.current = null;
+            if (audioContextRef.current && streamRef.current) connect(audioContextRef.current, streamRef.current);
+        }, delay);
+    };
+
     const startRecording = async () => {
         setError(null);
         setTranscript('');
@@ -206,10 +459,26 @@ const Recorder: React.FC<RecorderProps> = ({ onFinish, onCancel, existingTitle }
         setStartTime(start);
 
         chunksRef.current = [];
+        // Starting over throws away what was recorded before
+        recordingRef.current?.discard().catch(e => console.error("Could not remove the previous recording", e));
+        sessionIdRef.current = uuidv4();
+        lectureIdRef.current = lectureId || createLectureId();
+        recordingRef.current = startAudioRecording(sessionIdRef.current, lectureIdRef.current, CAPTURE_SAMPLE_RATE);
         currentTurnRef.current = '';
         isTurnActiveRef.current = false;
         turnStartTimeRef.current = 0;
 
+        isStoppingRef.current = false;
+        hasConnectedRef.current = false;
+        replayRef.current = createReplayBuffer(MAX_BUFFERED_SECONDS * CAPTURE_SAMPLE_RATE, CAPTURE_SAMPLE_RATE, addLostSeconds);
+        capturedSamplesRef.current = 0;
+        resumeAtRef.current = null;
+        reconnectAttemptRef.current = 0;
+        lostSecondsRef.current = 0;
+        setLostSeconds(0);
+        droppedFramesRef.current = 0;
+        setDroppedFrames(0);
+
         // Stop the preview stream before starting the actual recording stream
         stopPreview();
 
@@ -218,109 +487,24 @@ const Recorder: React.FC<RecorderProps> = ({ onFinish, onCancel, existingTitle }
                 throw new Error("API Key not found");
             }
 
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+            aiRef.current = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
             const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-            const audioContext = new AudioContextClass({ sampleRate: 16000 });
+            // Runs at the device's native rate; the capture worklet resamples to 16 kHz
+            const audioContext = new AudioContextClass();
             audioContextRef.current = audioContext;
+            await prepareAudioCapture(audioContext);
 
             // Use the selected device ID
             const stream = await navigator.mediaDevices.getUserMedia({
                 audio: {
                     deviceId: selectedDeviceId ? { exact: selectedDeviceId } : undefined,
-                    channelCount: 1,
-                    sampleRate: 16000
+                    channelCount: 1
                 }
             });
             streamRef.current = stream;
 
-            const sessionPromise = ai.live.connect({
-                model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    inputAudioTranscription: {},
-                    systemInstruction: "You are a professional stenographer. Transcribe the user's speech exactly as spoken.",
-                },
-                callbacks: {
-                    onopen: () => {
-                        setIsRecording(true);
-
-                        timerRef.current = window.setInterval(() => {
-                            setElapsedTime(prev => prev + 1);
-                            elapsedTimeRef.current += 1;
-                        }, 1000);
-
-                        const source = audioContext.createMediaStreamSource(stream);
-                        sourceRef.current = source;
-
-                        const processor = audioContext.createScriptProcessor(4096, 1, 1);
-                        processorRef.current = processor;
-
-                        processor.onaudioprocess = (e) => {
-                            const inputData = e.inputBuffer.getChannelData(0);
-                            const pcmBlob = createBlob(inputData);
-                            sessionPromise.then(session => {
-                                sessionRef.current = session;
-                                session.sendRealtimeInput({ media: pcmBlob });
-                            });
-                        };
-
-                        source.connect(processor);
-                        processor.connect(audioContext.destination);
-                    },
-                    onmessage: (message: LiveServerMessage) => {
-                        const content = message.serverContent;
-                        let needsUpdate = false;
-
-                        if (content?.inputTranscription) {
-                            let text = content.inputTranscription.text;
-                            if (text) {
-                                if (!isTurnActiveRef.current) {
-                                    isTurnActiveRef.current = true;
-                                    turnStartTimeRef.current = elapsedTimeRef.current;
-
-                                    if (chunksRef.current.length > 0) {
-                                        const lastChunk = chunksRef.current[chunksRef.current.length - 1];
-                                        if (lastChunk.text.length > 5 && text.startsWith(lastChunk.text)) {
-                                            text = text.substring(lastChunk.text.length);
-                                        }
-                                    }
-                                }
-                                currentTurnRef.current += text;
-                                needsUpdate = true;
-                            }
-                        }
-
-                        if (content?.turnComplete) {
-                            if (currentTurnRef.current.trim()) {
-                                const newChunk: TranscriptChunk = {
-                                    timestamp: turnStartTimeRef.current,
-                                    text: currentTurnRef.current.trim()
-                                };
-                                chunksRef.current.push(newChunk);
-                            }
-                            currentTurnRef.current = '';
-                            isTurnActiveRef.current = false;
-                            needsUpdate = true;
-                        }
-
-                        if (needsUpdate) {
-                            const committedText = chunksRef.current.map(c => c.text).join(' ');
-                            const currentText = currentTurnRef.current;
-                            const fullText = committedText + (committedText && currentText ? ' ' : '') + currentText;
-                            setTranscript(fullText);
-                        }
-                    },
-                    onclose: () => setIsRecording(false),
-                    onerror: (e) => {
-                        let msg = "Connection error. Please try again.";
-                        if (e instanceof Error) msg = e.message;
-                        setError(msg);
-                        stopEverything();
-                    }
-                }
-            });
-
+            connect(audioContext, stream);
         } catch (err: any) {
             setError(err.message || "Could not start recording");
             stopEverything();
@@ -335,7 +519,14 @@ const Recorder: React.FC<RecorderProps> = ({ onFinish, onCancel, existingTitle }
         }
     };
 
-    const handleFinish = () => {
+    const handleCancel = () => {
+        stopEverything();
+        recordingRef.current?.discard().catch(e => console.error("Could not remove the recording", e));
+        recordingRef.current = null;
+        onCancel();
+    };
+
+    const handleFinish = async () => {
         if (isRecording) stopEverything();
 
         if (currentTurnRef.current.trim()) {
@@ -351,13 +542,18 @@ const Recorder: React.FC<RecorderProps> = ({ onFinish, onCancel, existingTitle }
         }
 
         const finalTranscript = chunksRef.current.map(c => c.text).join(' ');
+        const hasAudio = recordingRef.current ? await recordingRef.current.finish() : false;
+        recordingRef.current = null;
 
         onFinish({
             startTime: startTime || new Date().toISOString(),
             endTime: new Date().toISOString(),
             duration: elapsedTime,
             text: finalTranscript,
-            chunks: chunksRef.current
+            chunks: chunksRef.current,
+            sessionId: sessionIdRef.current || uuidv4(),
+            lectureId: lectureIdRef.current || lectureId || createLectureId(),
+            hasAudio
         });
     };
 
@@ -375,7 +571,22 @@ const Recorder: React.FC<RecorderProps> = ({ onFinish, onCancel, existingTitle }
                     <h2 className="text-lg font-semibold text-slate-800">
                         {existingTitle ? `Continuing: ${existingTitle}` : 'New Recording'}
                     </h2>
-                    <p className="text-sm text-slate-500">Live Transcription (Gemini AI)</p>
+                    <p className="text-sm text-slate-500 flex items-center gap-2">
+                        Live Transcription (Gemini AI)
+                        {isReconnecting && (
+                            <span className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-700 text-xs font-medium animate-pulse">Reconnecting…</span>
+                        )}
+                        {lostSeconds >= 1 && (
+                            <span className="text-xs text-red-500" title="Audio is still recorded, but this much could not be transcribed">
+                                {formatTime(Math.round(lostSeconds))} not transcribed
+                            </span>
+                        )}
+                        {droppedFrames > 0 && (
+                            <span className="text-xs text-amber-600" title="The browser couldn't keep up with the microphone; the gaps are filled with silence">
+                                {Math.round(droppedFrames / CAPTURE_SAMPLE_RATE * 1000)} ms of audio dropped
+                            </span>
+                        )}
+                    </p>
                 </div>
                 <div className="font-mono text-xl font-medium text-slate-700">
                     {formatTime(elapsedTime)}
@@ -442,7 +653,7 @@ const Recorder: React.FC<RecorderProps> = ({ onFinish, onCancel, existingTitle }
             {/* Controls */}
             <div className="p-6 border-t border-slate-100 bg-slate-50 flex items-center justify-center gap-6">
                 <button
-                    onClick={onCancel}
+                    onClick={handleCancel}
                     className="px-6 py-3 rounded-full text-slate-600 font-medium hover:bg-slate-200 transition-colors"
                 >
                     Cancel
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { LectureData, GeneratedArtifact } from '../types';
+import { XMarkIcon, ArrowUturnLeftIcon } from './icons';
+import * as RevisionService from '../services/revisionService';
+
+interface RevisionHistoryModalProps {
+    lecture: LectureData;
+    artifact: GeneratedArtifact;
+    onRestore: (revisionId: string) => void;
+    onClose: () => void;
+}
+
+const RevisionHistoryModal: React.FC<RevisionHistoryModalProps> = ({ lecture, artifact, onRestore, onClose }) => {
+    // Newest first for browsing
+    const revisions = [...RevisionService.getRevisions(lecture, artifact)].reverse();
+    const [selectedId, setSelectedId] = useState<string | null>(
+        revisions.find(r => !RevisionService.isCurrentRevision(lecture, artifact, r))?.id || null
+    );
+
+    const selected = revisions.find(r => r.id === selectedId);
+    const diff = selected
+        ? RevisionService.diffLines(
+            RevisionService.contentToLines(artifact, RevisionService.getArtifactContent(lecture, artifact)),
+            RevisionService.contentToLines(artifact, selected.content)
+        )
+        : [];
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fadeIn">
+            <div className="bg-white rounded-2xl shadow-xl max-w-4xl w-full overflow-hidden flex flex-col max-h-[85vh]">
+                <div className="p-6 border-b border-slate-100 bg-slate-50 flex items-start justify-between">
+                    <div>
+                        <h3 className="text-xl font-bold text-slate-800">{RevisionService.ARTIFACT_LABELS[artifact]} History</h3>
+                        <p className="text-sm text-slate-500 mt-1">
+                            The last {RevisionService.MAX_REVISIONS} generated versions are kept. Select one to compare it with the current version.
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-200 transition-colors">
+                        <XMarkIcon className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 flex flex-col md:flex-row min-h-0">
+                    <div className="md:w-64 border-b md:border-b-0 md:border-r border-slate-100 overflow-y-auto p-3 space-y-1">
+                        {revisions.map(revision => {
+                            const isCurrent = RevisionService.isCurrentRevision(lecture, artifact, revision);
+                            return (
+                                <button
+                                    key={revision.id}
+                                    onClick={() => setSelectedId(revision.id)}
+                                    className={`w-full text-left p-3 rounded-lg transition-colors ${selectedId === revision.id
+                                            ? 'bg-indigo-50 text-indigo-700'
+                                            : 'hover:bg-slate-50 text-slate-700'
+                                        }`}
+                                >
+                                    <div className="text-sm font-medium flex items-center justify-between gap-2">
+                                        <span>{new Date(revision.createdAt).toLocaleString()}</span>
+                                        {isCurrent && (
+                                            <span className="text-[10px] font-bold uppercase px-1.5 py-0.5 rounded bg-emerald-100 text-emerald-700">Current</span>
+                                        )}
+                                    </div>
+                                    <div className="text-xs text-slate-500 font-mono mt-0.5">{revision.generator}</div>
+                                </button>
+                            );
+                        })}
+                    </div>
+
+                    <div className="flex-1 overflow-y-auto p-4 min-h-[12rem]">
+                        {!selected ? (
+                            <div className="h-full flex items-center justify-center text-sm text-slate-400">Select a version to compare.</div>
+                        ) : RevisionService.isCurrentRevision(lecture, artifact, selected) ? (
+                            <div className="h-full flex items-center justify-center text-sm text-slate-400">This is the current version.</div>
+                        ) : (
+                            <div className="font-mono text-xs space-y-0.5">
+                                <p className="font-sans text-xs text-slate-500 mb-3">
+                                    Lines marked <span className="text-red-600 font-semibold">−</span> are in the current version, lines marked <span className="text-emerald-600 font-semibold">+</span> come back if you restore.
+                                </p>
+                                {diff.map((line, i) => (
+                                    <div
+                                        key={i}
+                                        className={`px-2 py-0.5 rounded whitespace-pre-wrap ${line.type === 'added'
+                                                ? 'bg-emerald-50 text-emerald-800'
+                                                : line.type === 'removed'
+                                                    ? 'bg-red-50 text-red-800'
+                                                    : 'text-slate-500'
+                                            }`}
+                                    >
+                                        {line.type === 'added' ? '+ ' : line.type === 'removed' ? '− ' : '  '}{line.text}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                <div className="p-4 bg-slate-50 border-t border-slate-100 flex gap-3 justify-end">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-slate-600 font-medium hover:bg-slate-200 rounded-lg transition-colors"
+                    >
+                        Close
+                    </button>
+                    <button
+                        onClick={() => selected && onRestore(selected.id)}
+                        disabled={!selected || RevisionService.isCurrentRevision(lecture, artifact, selected)}
+                        className="px-6 py-2 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 shadow-sm transition-colors flex items-center gap-2 disabled:opacity-50"
+                    >
+                        <ArrowUturnLeftIcon className="w-4 h-4" />
+                        Restore This Version
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default RevisionHistoryModal;
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { LectureData } from '../types';
+import { XMarkIcon, TrashIcon } from './icons';
+import * as StorageUsageService from '../services/storageUsageService';
+import { LecturePart, StorageEstimate } from '../services/storageUsageService';
+
+// Parts that can be cleared without losing the lecture itself
+export type PrunablePart = 'chatHistory' | 'chunks' | 'revisions' | 'audio';
+
+interface StoragePanelProps {
+    lectures: LectureData[];
+    // Bytes of recorded audio per lecture id
+    audioSizes: Map<string, number>;
+    estimate: StorageEstimate | null;
+    warningPercent: number;
+    onWarningPercentChange: (percent: number) => void;
+    onPrune: (lectureId: string, part: PrunablePart) => void;
+    onClose: () => void;
+}
+
+const PART_COLORS: Record<LecturePart, string> = {
+    transcript: 'bg-indigo-500',
+    sessions: 'bg-sky-400',
+    chunks: 'bg-slate-400',
+    chatHistory: 'bg-emerald-400',
+    generated: 'bg-amber-400',
+    revisions: 'bg-pink-400',
+    audio: 'bg-violet-400',
+};
+
+const PRUNE_LABELS: Record<PrunablePart, string> = {
+    chatHistory: 'Clear chat',
+    chunks: 'Clear segments',
+    revisions: 'Clear history',
+    audio: 'Delete recording',
+};
+
+const StoragePanel: React.FC<StoragePanelProps> = ({ lectures, audioSizes, estimate, warningPercent, onWarningPercentChange, onPrune, onClose }) => {
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    const breakdowns = lectures
+        .map(lecture => StorageUsageService.measureLecture(lecture, audioSizes.get(lecture.id)))
+        .sort((a, b) => b.total - a.total);
+    const libraryTotal = breakdowns.reduce((sum, b) => sum + b.total, 0);
+    const largest = breakdowns[0]?.total || 1;
+
+    const usagePercent = estimate && estimate.quota > 0 ? (estimate.usage / estimate.quota) * 100 : 0;
+    const isWarning = usagePercent >= warningPercent;
+
+    const handlePrune = (lecture: LectureData, part: PrunablePart) => {
+        const warnings: Record<PrunablePart, string> = {
+            chatHistory: `Clear the AI chat history of "${lecture.title}"?`,
+            chunks: `Clear the timestamped segments of "${lecture.title}"? The full transcript and sessions are kept, but timestamps will no longer be shown.`,
+            revisions: `Clear older generated versions of "${lecture.title}"? The current content is kept.`,
+            audio: `Delete the recorded audio of "${lecture.title}"? The transcript is kept, but it can no longer be played back.`,
+        };
+        if (confirm(warnings[part])) {
+            onPrune(lecture.id, part);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fadeIn">
+            <div className="bg-white rounded-2xl shadow-xl max-w-2xl w-full overflow-hidden flex flex-col max-h-[85vh]">
+                <div className="p-6 border-b border-slate-100 bg-slate-50 flex items-start justify-between">
+                    <div>
+                        <h3 className="text-xl font-bold text-slate-800">Storage</h3>
+                        <p className="text-sm text-slate-500 mt-1">
+                            Lectures use {StorageUsageService.formatBytes(libraryTotal)} across {lectures.length} record(s).
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-200 transition-colors">
+                        <XMarkIcon className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="p-6 border-b border-slate-100 space-y-3">
+                    {estimate ? (
+                        <>
+                            <div className="flex justify-between text-sm">
+                                <span className="font-medium text-slate-700">
+                                    {StorageUsageService.formatBytes(estimate.usage)} of {StorageUsageService.formatBytes(estimate.quota)} used
+                                </span>
+                                <span className={isWarning ? 'text-red-600 font-semibold' : 'text-slate-500'}>{usagePercent.toFixed(1)}%</span>
+                            </div>
+                            <div className="h-2 bg-slate-200 rounded-full overflow-hidden relative">
+                                <div
+                                    className={`h-full transition-all ${isWarning ? 'bg-red-500' : 'bg-indigo-500'}`}
+                                    style={{ width: `${Math.min(100, usagePercent)}%` }}
+                                />
+                                <div className="absolute top-0 bottom-0 w-0.5 bg-slate-500" style={{ left: `${warningPercent}%` }} title="Warning threshold" />
+                            </div>
+                        </>
+                    ) : (
+                        <p className="text-sm text-slate-500">This browser does not report storage usage.</p>
+                    )}
+                    <label className="flex items-center justify-between text-sm text-slate-600">
+                        <span>Warn me when usage reaches</span>
+                        <select
+                            value={warningPercent}
+                            onChange={(e) => onWarningPercentChange(Number(e.target.value))}
+                            className="px-2 py-1 border border-slate-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        >
+                            {[50, 70, 80, 90, 95].map(p => <option key={p} value={p}>{p}%</option>)}
+                        </select>
+                    </label>
+                    <div className="flex flex-wrap gap-3 text-xs text-slate-500">
+                        {(Object.keys(PART_COLORS) as LecturePart[]).map(part => (
+                            <span key={part} className="flex items-center gap-1">
+                                <span className={`w-2 h-2 rounded-full ${PART_COLORS[part]}`}></span>
+                                {StorageUsageService.PART_LABELS[part]}
+                            </span>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 space-y-2">
+                    {breakdowns.map(breakdown => {
+                        const lecture = lectures.find(l => l.id === breakdown.id)!;
+                        const isExpanded = expandedId === breakdown.id;
+                        return (
+                            <div key={breakdown.id} className="border border-slate-200 rounded-xl">
+                                <button
+                                    onClick={() => setExpandedId(isExpanded ? null : breakdown.id)}
+                                    className="w-full text-left p-3 hover:bg-slate-50 rounded-xl transition-colors"
+                                >
+                                    <div className="flex justify-between items-center gap-3 mb-2">
+                                        <span className="font-medium text-slate-800 truncate">
+                                            {breakdown.title}
+                                            {lecture.deletedAt && <span className="ml-2 text-[10px] font-bold uppercase text-slate-400">In Trash</span>}
+                                        </span>
+                                        <span className="text-xs font-mono text-slate-500 flex-shrink-0">{StorageUsageService.formatBytes(breakdown.total)}</span>
+                                    </div>
+                                    <div className="h-1.5 flex rounded-full overflow-hidden bg-slate-100" style={{ width: `${Math.max(4, (breakdown.total / largest) * 100)}%` }}>
+                                        {(Object.keys(PART_COLORS) as LecturePart[]).map(part => (
+                                            <div key={part} className={PART_COLORS[part]} style={{ width: `${(breakdown.parts[part] / breakdown.total) * 100}%` }} />
+                                        ))}
+                                    </div>
+                                </button>
+                                {isExpanded && (
+                                    <div className="px-3 pb-3 space-y-1.5">
+                                        {(Object.keys(PART_COLORS) as LecturePart[]).map(part => {
+                                            const prunable =
+                                                (part === 'chatHistory' && !!lecture.chatHistory?.length) ||
+                                                (part === 'chunks' && !!lecture.chunks?.length) ||
+                                                (part === 'revisions' && !!lecture.revisions && Object.keys(lecture.revisions).length > 0) ||
+                                                (part === 'audio' && breakdown.parts.audio > 0);
+                                            return (
+                                                <div key={part} className="flex items-center justify-between text-xs text-slate-600">
+                                                    <span className="flex items-center gap-1.5">
+                                                        <span className={`w-2 h-2 rounded-full ${PART_COLORS[part]}`}></span>
+                                                        {StorageUsageService.PART_LABELS[part]}
+                                                    </span>
+                                                    <span className="flex items-center gap-2">
+                                                        <span className="font-mono">{StorageUsageService.formatBytes(breakdown.parts[part])}</span>
+                                                        {prunable && (
+                                                            <button
+                                                                onClick={() => handlePrune(lecture, part as PrunablePart)}
+                                                                className="flex items-center gap-1 text-red-500 hover:text-red-700 px-2 py-0.5 rounded hover:bg-red-50 transition-colors"
+                                                            >
+                                                                <TrashIcon className="w-3 h-3" />
+                                                                {PRUNE_LABELS[part as PrunablePart]}
+                                                            </button>
+                                                        )}
+                                                    </span>
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                    {breakdowns.length === 0 && (
+                        <div className="text-center py-8 text-slate-400 text-sm">No lectures stored yet.</div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default StoragePanel;
@@ -1,11 +1,15 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { LectureData, DetailTab, Flashcard, QuizQuestion, ChatMessage } from '../types';
-import { ChevronLeftIcon, SparklesIcon, BookOpenIcon, DocumentTextIcon, AcademicCapIcon, BoltIcon, TrashIcon, ChatBubbleLeftRightIcon, PaperAirplaneIcon, MicIcon, HashtagIcon, XMarkIcon, CheckCircleIcon, EyeIcon, ChatBubbleLeftEllipsisIcon, MapIcon } from './icons';
+import { LectureData, DetailTab, Flashcard, QuizQuestion, ChatMessage, GeneratedArtifact, TranscriptChunk } from '../types';
+import { ChevronLeftIcon, SparklesIcon, BookOpenIcon, DocumentTextIcon, AcademicCapIcon, BoltIcon, TrashIcon, ChatBubbleLeftRightIcon, PaperAirplaneIcon, MicIcon, HashtagIcon, XMarkIcon, CheckCircleIcon, EyeIcon, ChatBubbleLeftEllipsisIcon, MapIcon, ClockIcon, StopIcon, ArrowPathIcon, PencilSquareIcon } from './icons';
 import * as GeminiService from '../services/geminiService';
-import * as StorageService from '../services/storageService';
 import { marked } from 'marked';
-import { Chat } from '@google/genai';
 import MindMapRenderer from './MindMapRenderer';
+import RevisionHistoryModal from './RevisionHistoryModal';
+import * as RevisionService from '../services/revisionService';
+import * as SegmentService from '../services/segmentService';
+import * as JobService from '../services/jobService';
+import * as AudioService from '../services/audioService';
+import { LlmChat } from '../services/llmProvider';
 
 declare global {
     interface AIStudio {
@@ -20,15 +24,18 @@ declare global {
 interface TranscriptViewProps {
     lecture: LectureData;
     onBack: () => void;
-    onUpdate: (updated: LectureData) => void;
+    // `base` is the copy the edit started from, so only the changed fields are written
+    onUpdate: (updated: LectureData, base?: LectureData) => void;
     onDelete: (id: string) => void;
     onContinueRecording: () => void;
-    isProcessing?: boolean;
+    // Generation jobs of this lecture
+    jobs: JobService.GenerationJob[];
+    // Opens the prompt templates with this lecture selected
+    onEditPrompts?: () => void;
 }
 
-const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpdate, onDelete, onContinueRecording, isProcessing }) => {
+const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpdate, onDelete, onContinueRecording, jobs, onEditPrompts }) => {
     const [activeTab, setActiveTab] = useState<DetailTab>('transcript');
-    const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
     // Title Editing State
@@ -43,8 +50,31 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpda
     // Chat State
     const [chatMessages, setChatMessages] = useState<ChatMessage[]>(lecture.chatHistory || []);
     const [chatInput, setChatInput] = useState('');
-    const [chatSession, setChatSession] = useState<Chat | null>(null);
+    const [chatSession, setChatSession] = useState<LlmChat | null>(null);
     const [isChatLoading, setIsChatLoading] = useState(false);
+    const [chatController, setChatController] = useState<AbortController | null>(null);
+
+    // Generation State (`notesStream` is the full text shown while notes are written)
+    const pendingArtifacts = JobService.getPendingArtifacts(jobs, lecture.id);
+    const notesJob = jobs.find(job => job.artifact === 'notes' && JobService.isActive(job));
+    const [notesStream, setNotesStream] = useState<string | null>(null);
+    // Jobs started from this view, whose outcome is shown here when they finish
+    const followedJobIdsRef = useRef(new Set<string>());
+
+    // Revision History State
+    const [historyArtifact, setHistoryArtifact] = useState<GeneratedArtifact | null>(null);
+    // Artifact whose last generation was answered from the cache
+    const [cachedArtifact, setCachedArtifact] = useState<GeneratedArtifact | null>(null);
+
+    // Playback State (`audioSessionId` is the recording picked in the player; null = the first one)
+    const [audioSessionId, setAudioSessionId] = useState<string | null>(null);
+    const [audioUrl, setAudioUrl] = useState<string | null>(null);
+    const [audioError, setAudioError] = useState<string | null>(null);
+    const [playbackTime, setPlaybackTime] = useState(0);
+    const audioRef = useRef<HTMLAudioElement>(null);
+    // Where to jump once the recording picked by a timestamp click has loaded
+    const pendingSeekRef = useRef<number | null>(null);
+    const activeChunkRef = useRef<HTMLDivElement>(null);
 
     // Quiz State
     const [quizAnswers, setQuizAnswers] = useState<Record<number, string>>({});
@@ -76,20 +106,110 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpda
         setQuizAnswers({});
         setIsQuizSubmitted(false);
         setTempTitle(lecture.title);
+        setHistoryArtifact(null);
+        setCachedArtifact(null);
+        setAudioSessionId(null);
+        followedJobIdsRef.current.clear();
     }, [lecture.id]);
 
-    // State Reset on Quiz Data Change (Regeneration)
     useEffect(() => {
-        // Only reset if completely regenerated (handled by empty keys). 
-        // If appending, we might want to keep state, but current logic resets.
-        // Actually, for "More Questions", we want to allow answering new ones.
-        // The simplistic approach is to reset answers when data changes length significantly or is replaced.
-    }, [lecture.quiz]);
+        if (!notesJob) return;
+        return JobService.subscribeToJobText(notesJob.id, setNotesStream);
+    }, [notesJob?.id]);
+
+    // Streamed notes stay on screen until the saved version comes back
+    useEffect(() => {
+        setNotesStream(null);
+    }, [lecture.id, lecture.studyNotes]);
+
+    useEffect(() => {
+        jobs.forEach(job => {
+            if (!followedJobIdsRef.current.has(job.id) || JobService.isActive(job)) return;
+            followedJobIdsRef.current.delete(job.id);
+            if (job.status === 'failed') {
+                setError(job.error || "Failed to generate content. Please try again.");
+                if (job.artifact === 'notes') setNotesStream(null);
+            } else if (job.status === 'succeeded') {
+                setCachedArtifact(job.fromCache ? job.artifact : null);
+                if (job.artifact === 'quiz') {
+                    // Added questions can be answered without starting over
+                    if (job.kind !== 'extend') setQuizAnswers({});
+                    setIsQuizSubmitted(false);
+                }
+            }
+        });
+    }, [jobs]);
+
+    const audioSessions = (lecture.sessions || []).filter(s => s.hasAudio);
+    const playingSessionId = audioSessionId && audioSessions.some(s => s.id === audioSessionId) ? audioSessionId : audioSessions[0]?.id;
+    const isTranscriptTab = activeTab === 'transcript';
+
+    // Loads the picked recording while the Transcript tab is open
+    useEffect(() => {
+        if (!playingSessionId || !isTranscriptTab) return;
+        let url: string | null = null;
+        let cancelled = false;
+        setAudioError(null);
+        AudioService.getSessionAudio(playingSessionId)
+            .then(blob => {
+                if (cancelled) return;
+                if (!blob) {
+                    setAudioError("This recording isn't stored on this device.");
+                    return;
+                }
+                url = URL.createObjectURL(blob);
+                setAudioUrl(url);
+            })
+            .catch(e => {
+                if (!cancelled) setAudioError(e.message || "Could not load the recording.");
+            });
+        return () => {
+            cancelled = true;
+            if (url) URL.revokeObjectURL(url);
+            setAudioUrl(null);
+            setPlaybackTime(0);
+        };
+    }, [playingSessionId, isTranscriptTab]);
+
+    // Chunk being played: the last one of the loaded recording that has started
+    const activeChunkIndex = audioUrl && playbackTime > 0
+        ? (lecture.chunks || []).reduce((found, chunk, idx) => (
+            chunk.sessionId === playingSessionId && chunk.timestamp <= playbackTime ? idx : found
+        ), -1)
+        : -1;
+
+    useEffect(() => {
+        if (audioRef.current && !audioRef.current.paused) {
+            activeChunkRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+        }
+    }, [activeChunkIndex]);
+
+    const canSeek = (chunk: TranscriptChunk) => !!chunk.sessionId && audioSessions.some(s => s.id === chunk.sessionId);
+
+    const handleChunkSeek = (chunk: TranscriptChunk) => {
+        const audio = audioRef.current;
+        if (chunk.sessionId === playingSessionId && audioUrl && audio) {
+            audio.currentTime = chunk.timestamp;
+            audio.play().catch(() => undefined);
+            return;
+        }
+        // Another recording (or one still loading): seek once it is ready
+        pendingSeekRef.current = chunk.timestamp;
+        setAudioSessionId(chunk.sessionId!);
+    };
+
+    const handleAudioLoaded = () => {
+        const audio = audioRef.current;
+        if (!audio || pendingSeekRef.current === null) return;
+        audio.currentTime = pendingSeekRef.current;
+        pendingSeekRef.current = null;
+        audio.play().catch(() => undefined);
+    };
 
     // Title Editing Handlers
     const handleTitleSave = () => {
         if (tempTitle.trim() !== lecture.title) {
-            onUpdate({ ...lecture, title: tempTitle.trim() });
+            onUpdate({ ...lecture, title: tempTitle.trim() }, lecture);
         }
         setIsEditingTitle(false);
     };
@@ -108,7 +228,7 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpda
         if (tag) {
             const currentTags = lecture.tags || [];
             if (!currentTags.includes(tag)) {
-                onUpdate({ ...lecture, tags: [...currentTags, tag] });
+                onUpdate({ ...lecture, tags: [...currentTags, tag] }, lecture);
             }
         }
         setNewTagText('');
@@ -117,7 +237,7 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpda
 
     const handleRemoveTag = (tagToRemove: string) => {
         const currentTags = lecture.tags || [];
-        onUpdate({ ...lecture, tags: currentTags.filter(t => t !== tagToRemove) });
+        onUpdate({ ...lecture, tags: currentTags.filter(t => t !== tagToRemove) }, lecture);
     };
 
     const handleTagKeyDown = (e: React.KeyboardEvent) => {
@@ -134,7 +254,6 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpda
         }
     }, [isAddingTag]);
 
-
     // Auto-scroll chat
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -156,7 +275,7 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpda
                 try {
                     // Pass existing history to initialize context
                     const history = lecture.chatHistory || [];
-                    const session = GeminiService.createLectureChat(lecture.transcriptText, history);
+                    const session = GeminiService.createLectureChat(lecture.transcriptText, history, lecture);
                     setChatSession(session);
 
                     // If no history, add greeting
@@ -182,24 +301,34 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpda
         setChatInput('');
         setChatMessages(newHistoryUser);
         setIsChatLoading(true);
+        const controller = new AbortController();
+        setChatController(controller);
 
         // Keep focus on input
         if (chatInputRef.current) chatInputRef.current.focus();
 
+        let partial = '';
         try {
-            const response = await chatSession.sendMessage({ message: userMsg });
-            let modelText = "I'm having trouble thinking right now.";
-            if (response.text) {
-                modelText = response.text;
-            }
+            const reply = await chatSession.sendMessageStream(userMsg, text => {
+                partial = text;
+                setChatMessages([...newHistoryUser, { role: 'model', text }]);
+            }, controller.signal);
+            const modelText = reply || "I'm having trouble thinking right now.";
 
             const newHistoryModel: ChatMessage[] = [...newHistoryUser, { role: 'model', text: modelText }];
             setChatMessages(newHistoryModel);
 
             // Persist to lecture data
-            onUpdate({ ...lecture, chatHistory: newHistoryModel });
+            onUpdate({ ...lecture, chatHistory: newHistoryModel }, lecture);
 
         } catch (e: any) {
+            // Stopped by the user: keep what was written so far
+            if (controller.signal.aborted) {
+                const newHistoryStopped: ChatMessage[] = partial ? [...newHistoryUser, { role: 'model', text: partial }] : newHistoryUser;
+                setChatMessages(newHistoryStopped);
+                onUpdate({ ...lecture, chatHistory: newHistoryStopped }, lecture);
+                return;
+            }
             console.error("Chat Error", e);
 
             let errorMessage = e.message || "Unknown error";
@@ -221,6 +350,7 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpda
             setChatMessages(newHistoryError);
         } finally {
             setIsChatLoading(false);
+            setChatController(null);
             // Ensure focus is regained
             setTimeout(() => {
                 chatInputRef.current?.focus();
@@ -248,115 +378,54 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpda
         }
     };
 
-    const handleDelete = () => {
-        if (window.confirm(`Are you sure you want to delete "${lecture.title}"? This cannot be undone.`)) {
-            onDelete(lecture.id);
-        }
+    // Applies to content generated from now on; existing study aids keep their language
+    const handleOutputLanguageChange = (language: string) => {
+        onUpdate({ ...lecture, outputLanguage: language || undefined, bilingual: language ? lecture.bilingual : undefined }, lecture);
     };
 
-    // Generic handler for AI generation
-    const handleGenerate = async (type: 'summary' | 'flashcards' | 'quiz' | 'notes' | 'mindmap') => {
-        setIsLoading(true);
-        setError(null);
-        try {
-            const updatedLecture = { ...lecture };
-
-            if (type === 'summary') {
-                updatedLecture.summary = await GeminiService.generateSummary(lecture.transcriptText);
-            } else if (type === 'flashcards') {
-                updatedLecture.flashcards = await GeminiService.generateFlashcards(lecture.transcriptText);
-            } else if (type === 'quiz') {
-                updatedLecture.quiz = await GeminiService.generateQuiz(lecture.transcriptText);
-                setQuizAnswers({});
-                setIsQuizSubmitted(false);
-            } else if (type === 'notes') {
-                updatedLecture.studyNotes = await GeminiService.generateStudyNotes(lecture.transcriptText);
-            } else if (type === 'mindmap') {
-                updatedLecture.mindmap = await GeminiService.generateMindMap(lecture.transcriptText);
-            }
+    // Languages set elsewhere (e.g. by an import) stay selectable
+    const outputLanguages = lecture.outputLanguage && !GeminiService.OUTPUT_LANGUAGES.includes(lecture.outputLanguage)
+        ? [...GeminiService.OUTPUT_LANGUAGES, lecture.outputLanguage]
+        : GeminiService.OUTPUT_LANGUAGES;
 
-            StorageService.saveLecture(updatedLecture);
-            onUpdate(updatedLecture);
-        } catch (err: any) {
-            setError(err.message || "Failed to generate content. Please try again.");
-        } finally {
-            setIsLoading(false);
-        }
-    };
-
-    // Handlers for "Generate More"
-    const handleExpandSummary = async () => {
-        if (!lecture.summary) return;
-        setIsLoading(true);
-        setError(null);
-        try {
-            const newSummaryData = await GeminiService.expandSummary(lecture.transcriptText, lecture.summary);
-            const updatedLecture = { ...lecture, summary: newSummaryData };
-            StorageService.saveLecture(updatedLecture);
-            onUpdate(updatedLecture);
-        } catch (e: any) {
-            setError(e.message || "Failed to expand summary.");
-        } finally {
-            setIsLoading(false);
+    const handleDelete = () => {
+        if (window.confirm(`Move "${lecture.title}" to the Trash? You can restore it from the sidebar.`)) {
+            onDelete(lecture.id);
         }
     };
 
-    const handleMoreFlashcards = async () => {
-        if (!lecture.flashcards) return;
-        setIsLoading(true);
+    // Generations run as jobs, so they show in the Jobs panel, can be cancelled there and
+    // survive a reload. Unless `force` is set, an earlier result for the same transcript,
+    // prompt and model is reused from the cache.
+    const startJob = (artifact: GeneratedArtifact, kind: JobService.JobKind, force = false) => {
         setError(null);
-        try {
-            const newCards = await GeminiService.generateMoreFlashcards(lecture.transcriptText, lecture.flashcards);
-            const updatedLecture = { ...lecture, flashcards: [...lecture.flashcards, ...newCards] };
-            StorageService.saveLecture(updatedLecture);
-            onUpdate(updatedLecture);
-        } catch (e: any) {
-            setError(e.message || "Failed to generate more flashcards.");
-        } finally {
-            setIsLoading(false);
-        }
+        const [job] = JobService.enqueueGeneration(lecture, [artifact], undefined, { kind, force });
+        if (job) followedJobIdsRef.current.add(job.id);
     };
 
-    const handleMoreQuiz = async () => {
-        if (!lecture.quiz) return;
-        setIsLoading(true);
-        setError(null);
-        try {
-            const newQuestions = await GeminiService.generateMoreQuiz(lecture.transcriptText, lecture.quiz);
-            const updatedLecture = { ...lecture, quiz: [...lecture.quiz, ...newQuestions] };
-
-            // Allow user to answer new questions without resetting old ones if they wish,
-            // but for simplicity, we treat "Generate More" as extending the quiz.
-            // Reset submitted state to allow interactions with new questions.
-            setIsQuizSubmitted(false);
+    const handleGenerate = (type: GeneratedArtifact, force = false) => startJob(type, 'generate', force);
 
-            StorageService.saveLecture(updatedLecture);
-            onUpdate(updatedLecture);
-        } catch (e: any) {
-            setError(e.message || "Failed to generate more questions.");
-        } finally {
-            setIsLoading(false);
+    const handleForceRegenerate = (artifact: GeneratedArtifact) => {
+        if (confirm(`Regenerate the ${RevisionService.ARTIFACT_LABELS[artifact].toLowerCase()} with a fresh AI call instead of the cached result? The current version stays in History.`)) {
+            handleGenerate(artifact, true);
         }
     };
 
-    // Specific handler to expand notes
-    const handleExplainNotes = async () => {
-        if (!lecture.studyNotes) return;
-
-        setIsLoading(true);
-        setError(null);
-        try {
-            const extraContent = await GeminiService.generateMoreNotes(lecture.transcriptText, lecture.studyNotes);
-            const updatedNotes = lecture.studyNotes + "\n\n" + extraContent;
-
-            const updatedLecture = { ...lecture, studyNotes: updatedNotes };
-            StorageService.saveLecture(updatedLecture);
-            onUpdate(updatedLecture);
-        } catch (err: any) {
-            setError(err.message || "Failed to explain notes.");
-        } finally {
-            setIsLoading(false);
+    // Handlers for "Generate More"
+    const handleExpandSummary = () => startJob('summary', 'extend');
+    const handleMoreFlashcards = () => startJob('flashcards', 'extend');
+    const handleMoreQuiz = () => startJob('quiz', 'extend');
+    // Notes stream into the Notes tab as they are written; stopping keeps what was written so far
+    const handleExplainNotes = () => startJob('notes', 'extend');
+
+    const handleRestoreRevision = async (artifact: GeneratedArtifact, revisionId: string) => {
+        const updatedLecture = { ...lecture, ...RevisionService.restoreRevision(lecture, artifact, revisionId) };
+        if (artifact === 'quiz') {
+            setQuizAnswers({});
+            setIsQuizSubmitted(false);
         }
+        onUpdate(updatedLecture, lecture);
+        setHistoryArtifact(null);
     };
 
     // Quiz Handlers
@@ -409,10 +478,10 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpda
             return (
                 <EmptyState
                     icon={<DocumentTextIcon className="w-12 h-12 text-blue-500" />}
-                    title={isProcessing ? "Generating Summary..." : "No Summary Yet"}
-                    description={isProcessing ? "AI is processing your new recording." : "Generate a concise summary of the key points and terms from this lecture."}
+                    title={pendingArtifacts.includes('summary') ? "Generating Summary..." : "No Summary Yet"}
+                    description={pendingArtifacts.includes('summary') ? "AI is processing your new recording." : "Generate a concise summary of the key points and terms from this lecture."}
                     action={() => handleGenerate('summary')}
-                    loading={isLoading || isProcessing}
+                    loading={pendingArtifacts.includes('summary')}
                 />
             );
         }
@@ -441,8 +510,12 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpda
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         {lecture.summary.keyTerms.map((term, i) => (
                             <div key={i} className="p-4 bg-white border border-slate-200 rounded-lg shadow-sm">
-                                <span className="block font-bold text-slate-900 mb-1">{term.term}</span>
+                                <span className="block font-bold text-slate-900 mb-1">
+                                    {term.term}
+                                    {term.sourceTerm && <span className="font-normal text-slate-400"> · {term.sourceTerm}</span>}
+                                </span>
                                 <span className="text-sm text-slate-600">{term.definition}</span>
+                                {term.sourceDefinition && <span className="block text-xs text-slate-400 italic mt-1">{term.sourceDefinition}</span>}
                             </div>
                         ))}
                     </div>
@@ -451,10 +524,10 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpda
                 <div className="flex justify-center mt-8">
                     <button
                         onClick={handleExpandSummary}
-                        disabled={isLoading}
+                        disabled={pendingArtifacts.includes('summary')}
                         className="flex items-center gap-2 px-6 py-2.5 bg-white border border-indigo-200 text-indigo-600 rounded-full font-medium hover:bg-indigo-50 shadow-sm transition-all disabled:opacity-70"
                     >
-                        {isLoading ? "Expanding..." : (
+                        {pendingArtifacts.includes('summary') ? "Expanding..." : (
                             <>
                                 <SparklesIcon className="w-4 h-4" />
                                 <span>Expand Summary</span>
@@ -471,10 +544,10 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpda
             return (
                 <EmptyState
                     icon={<BoltIcon className="w-12 h-12 text-amber-500" />}
-                    title={isProcessing ? "Creating Flashcards..." : "Generate Flashcards"}
-                    description={isProcessing ? "AI is crafting study cards for you." : "Create study cards automatically to test your knowledge."}
+                    title={pendingArtifacts.includes('flashcards') ? "Creating Flashcards..." : "Generate Flashcards"}
+                    description={pendingArtifacts.includes('flashcards') ? "AI is crafting study cards for you." : "Create study cards automatically to test your knowledge."}
                     action={() => handleGenerate('flashcards')}
-                    loading={isLoading || isProcessing}
+                    loading={pendingArtifacts.includes('flashcards')}
                 />
             );
         }
@@ -488,10 +561,10 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpda
                 <div className="flex justify-center">
                     <button
                         onClick={handleMoreFlashcards}
-                        disabled={isLoading}
+                        disabled={pendingArtifacts.includes('flashcards')}
                         className="flex items-center gap-2 px-6 py-2.5 bg-white border border-indigo-200 text-indigo-600 rounded-full font-medium hover:bg-indigo-50 shadow-sm transition-all disabled:opacity-70"
                     >
-                        {isLoading ? "Generating..." : (
+                        {pendingArtifacts.includes('flashcards') ? "Generating..." : (
                             <>
                                 <BoltIcon className="w-4 h-4" />
                                 <span>Generate More Cards</span>
@@ -508,10 +581,10 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpda
             return (
                 <EmptyState
                     icon={<AcademicCapIcon className="w-12 h-12 text-emerald-500" />}
-                    title={isProcessing ? "Building Quiz..." : "Generate Quiz"}
-                    description={isProcessing ? "AI is generating quiz questions." : "Test yourself with a multiple choice quiz based on the lecture."}
+                    title={pendingArtifacts.includes('quiz') ? "Building Quiz..." : "Generate Quiz"}
+                    description={pendingArtifacts.includes('quiz') ? "AI is generating quiz questions." : "Test yourself with a multiple choice quiz based on the lecture."}
                     action={() => handleGenerate('quiz')}
-                    loading={isLoading || isProcessing}
+                    loading={pendingArtifacts.includes('quiz')}
                 />
             );
         }
@@ -568,7 +641,8 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpda
                             <button
                                 onClick={() => {
                                     if (confirm("This will replace the current quiz with new questions. Continue?")) {
-                                        handleGenerate('quiz');
+                                        // A new set needs a fresh call; the cache would return the same questions
+                                        handleGenerate('quiz', true);
                                     }
                                 }}
                                 className="px-5 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 font-medium shadow-sm transition-colors flex items-center gap-2"
@@ -578,10 +652,10 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpda
 
                             <button
                                 onClick={handleMoreQuiz}
-                                disabled={isLoading}
+                                disabled={pendingArtifacts.includes('quiz')}
                                 className="px-5 py-2 bg-white border border-emerald-300 text-emerald-700 rounded-lg hover:bg-emerald-50 font-medium shadow-sm transition-colors flex items-center gap-2 disabled:opacity-70"
                             >
-                                {isLoading ? "Adding..." : (
+                                {pendingArtifacts.includes('quiz') ? "Adding..." : (
                                     <>
                                         <AcademicCapIcon className="w-4 h-4" />
                                         <span>Add 5 More Questions</span>
@@ -679,48 +753,56 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpda
     };
 
     const renderNotes = () => {
-        if (!lecture.studyNotes) {
+        const notesText = notesStream || lecture.studyNotes;
+        if (!notesText && !notesJob) {
             return (
                 <EmptyState
                     icon={<BookOpenIcon className="w-12 h-12 text-purple-500" />}
-                    title={isProcessing ? "Writing Notes..." : "Create Study Notes"}
-                    description={isProcessing ? "AI is formatting your study notes." : "Format the raw transcript into readable markdown notes."}
+                    title={pendingArtifacts.includes('notes') ? "Writing Notes..." : "Create Study Notes"}
+                    description={pendingArtifacts.includes('notes') ? "AI is formatting your study notes." : "Format the raw transcript into readable markdown notes."}
                     action={() => handleGenerate('notes')}
-                    loading={isLoading || isProcessing}
+                    loading={pendingArtifacts.includes('notes')}
                 />
             );
         }
 
-        const htmlContent = marked.parse(lecture.studyNotes, { async: false }) as string;
+        const htmlContent = marked.parse(notesText || '', { async: false }) as string;
 
         return (
             <div className="relative">
                 <div className="bg-white p-8 rounded-xl border border-slate-200 shadow-sm animate-fadeIn mb-20">
-                    <div
-                        className="prose prose-slate max-w-none"
-                        dangerouslySetInnerHTML={{ __html: htmlContent }}
-                    />
+                    {notesText ? (
+                        <div
+                            className="prose prose-slate max-w-none"
+                            dangerouslySetInnerHTML={{ __html: htmlContent }}
+                        />
+                    ) : (
+                        <div className="flex items-center gap-2 text-sm text-slate-400">
+                            <div className="animate-spin h-4 w-4 border-2 border-slate-400 border-t-transparent rounded-full"></div>
+                            Writing notes...
+                        </div>
+                    )}
                 </div>
 
-                {/* Floating Action Button for Explain More */}
+                {/* Floating Action Button for Explain More, or Stop while notes are streaming */}
                 <div className="fixed bottom-8 right-8 z-20 flex flex-col gap-2 items-end">
-                    <button
-                        onClick={handleExplainNotes}
-                        disabled={isLoading}
-                        className="flex items-center gap-2 bg-indigo-100 text-indigo-700 px-5 py-3 rounded-full font-semibold shadow-lg hover:bg-indigo-200 transition-all hover:scale-105 disabled:opacity-70 disabled:scale-100"
-                    >
-                        {isLoading ? (
-                            <>
-                                <div className="animate-spin h-5 w-5 border-2 border-indigo-700 border-t-transparent rounded-full"></div>
-                                <span>Explaining...</span>
-                            </>
-                        ) : (
-                            <>
-                                <ChatBubbleLeftEllipsisIcon className="w-5 h-5" />
-                                <span>Explain More</span>
-                            </>
-                        )}
-                    </button>
+                    {notesJob ? (
+                        <button
+                            onClick={() => JobService.cancelJob(notesJob.id)}
+                            className="flex items-center gap-2 bg-red-100 text-red-700 px-5 py-3 rounded-full font-semibold shadow-lg hover:bg-red-200 transition-all hover:scale-105"
+                        >
+                            <StopIcon className="w-5 h-5" />
+                            <span>Stop</span>
+                        </button>
+                    ) : (
+                        <button
+                            onClick={handleExplainNotes}
+                            className="flex items-center gap-2 bg-indigo-100 text-indigo-700 px-5 py-3 rounded-full font-semibold shadow-lg hover:bg-indigo-200 transition-all hover:scale-105 disabled:opacity-70 disabled:scale-100"
+                        >
+                            <ChatBubbleLeftEllipsisIcon className="w-5 h-5" />
+                            <span>Explain More</span>
+                        </button>
+                    )}
                 </div>
             </div>
         );
@@ -731,10 +813,10 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpda
             return (
                 <EmptyState
                     icon={<MapIcon className="w-12 h-12 text-pink-500" />}
-                    title={isProcessing ? "Drawing Map..." : "Generate Mind Map"}
-                    description={isProcessing ? "AI is connecting the dots." : "Visualize the lecture structure with an interactive diagram."}
+                    title={pendingArtifacts.includes('mindmap') ? "Drawing Map..." : "Generate Mind Map"}
+                    description={pendingArtifacts.includes('mindmap') ? "AI is connecting the dots." : "Visualize the lecture structure with an interactive diagram."}
                     action={() => handleGenerate('mindmap')}
-                    loading={isLoading || isProcessing}
+                    loading={pendingArtifacts.includes('mindmap')}
                 />
             );
         }
@@ -752,7 +834,7 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpda
                     <button
                         onClick={() => {
                             if (confirm("Regenerate the mind map? This will replace the current one.")) {
-                                handleGenerate('mindmap');
+                                handleGenerate('mindmap', true);
                             }
                         }}
                         className="px-4 py-2 text-sm text-slate-500 hover:text-indigo-600 hover:bg-slate-100 rounded-lg transition-colors flex items-center gap-2"
@@ -792,7 +874,7 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpda
                             </div>
                         </div>
                     ))}
-                    {isChatLoading && (
+                    {isChatLoading && chatMessages[chatMessages.length - 1]?.role === 'user' && (
                         <div className="flex justify-start">
                             <div className="bg-white p-4 rounded-2xl rounded-bl-none border border-slate-200">
                                 <div className="flex gap-1">
@@ -818,13 +900,23 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpda
                             className="flex-1 px-4 py-2 bg-transparent focus:outline-none text-slate-700 placeholder:text-slate-400"
                             autoFocus
                         />
-                        <button
-                            onClick={handleSendMessage}
-                            disabled={!chatInput.trim() || isChatLoading}
-                            className="p-2 bg-indigo-600 text-white rounded-full hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                        >
-                            <PaperAirplaneIcon className="w-5 h-5" />
-                        </button>
+                        {chatController ? (
+                            <button
+                                onClick={() => chatController.abort()}
+                                className="p-2 bg-red-500 text-white rounded-full hover:bg-red-600 transition-colors"
+                                title="Stop"
+                            >
+                                <StopIcon className="w-5 h-5" />
+                            </button>
+                        ) : (
+                            <button
+                                onClick={handleSendMessage}
+                                disabled={!chatInput.trim() || isChatLoading}
+                                className="p-2 bg-indigo-600 text-white rounded-full hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                            >
+                                <PaperAirplaneIcon className="w-5 h-5" />
+                            </button>
+                        )}
                     </div>
                 </div>
             </div>
@@ -841,8 +933,27 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpda
         });
     };
 
+    // Generated artifact shown on the active tab, if any
+    const tabArtifact: GeneratedArtifact | null =
+        activeTab === 'summary' || activeTab === 'flashcards' || activeTab === 'quiz' || activeTab === 'notes' || activeTab === 'mindmap'
+            ? activeTab
+            : null;
+    // Only meaningful while the artifact exists
+    const tabCoverage = tabArtifact && RevisionService.getArtifactContent(lecture, tabArtifact) !== undefined
+        ? lecture.coverage?.[tabArtifact]
+        : undefined;
+
     return (
         <div className="flex flex-col h-full bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+            {historyArtifact && (
+                <RevisionHistoryModal
+                    lecture={lecture}
+                    artifact={historyArtifact}
+                    onRestore={(revisionId) => handleRestoreRevision(historyArtifact, revisionId)}
+                    onClose={() => setHistoryArtifact(null)}
+                />
+            )}
+
             {/* Header */}
             <div className="bg-white border-b border-slate-100 p-4 flex items-center justify-between sticky top-0 z-10">
                 <div className="flex items-center gap-4 flex-1 overflow-hidden">
@@ -915,16 +1026,50 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpda
                                     </button>
                                 )}
                             </div>
+
+                            {/* Output Language */}
+                            <div className="flex items-center gap-2 text-xs text-slate-500">
+                                <select
+                                    value={lecture.outputLanguage || ''}
+                                    onChange={(e) => handleOutputLanguageChange(e.target.value)}
+                                    className="px-1.5 py-0.5 border border-slate-200 rounded bg-white text-xs focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                                    title="Language of newly generated study material"
+                                >
+                                    <option value="">Output: transcript language</option>
+                                    {outputLanguages.map(language => <option key={language} value={language}>Output: {language}</option>)}
+                                </select>
+                                {lecture.outputLanguage && (
+                                    <label className="flex items-center gap-1 cursor-pointer" title="Flashcards and key terms also show the transcript's language">
+                                        <input
+                                            type="checkbox"
+                                            checked={!!lecture.bilingual}
+                                            onChange={(e) => onUpdate({ ...lecture, bilingual: e.target.checked || undefined }, lecture)}
+                                            className="accent-indigo-600"
+                                        />
+                                        Bilingual
+                                    </label>
+                                )}
+                            </div>
                         </div>
                     </div>
                 </div>
                 <div className="flex gap-2 ml-4 flex-shrink-0">
-                    {isProcessing && (
+                    {pendingArtifacts.length > 0 && (
                         <div className="flex items-center gap-2 px-3 py-1 bg-indigo-50 text-indigo-700 rounded-full text-xs font-semibold animate-pulse border border-indigo-100 whitespace-nowrap">
                             <SparklesIcon className="w-3 h-3" />
-                            Processing AI...
+                            Generating {pendingArtifacts.map(a => RevisionService.ARTIFACT_LABELS[a]).join(', ')}...
                         </div>
                     )}
+                    {onEditPrompts && (
+                        <button
+                            onClick={onEditPrompts}
+                            className="text-slate-400 hover:text-indigo-600 p-2 rounded-full hover:bg-slate-100 transition-colors"
+                            title="Edit prompts for this lecture"
+                            type="button"
+                        >
+                            <PencilSquareIcon className="w-5 h-5" />
+                        </button>
+                    )}
                     <button
                         onClick={handleDelete}
                         className="text-red-400 hover:text-red-600 p-2 rounded-full hover:bg-red-50 transition-colors cursor-pointer relative z-50"
@@ -949,6 +1094,48 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpda
 
             {/* Content Area */}
             <div className="flex-1 overflow-y-auto p-0 bg-slate-50/50 relative">
+                {tabArtifact && RevisionService.getArtifactContent(lecture, tabArtifact) !== undefined && (
+                    <div className="flex items-center justify-between gap-3 px-6 pt-4 -mb-2">
+                        <span className="flex items-center gap-2">
+                            {tabCoverage && (
+                                <span
+                                    className={`text-xs px-2.5 py-1 rounded-full ${tabCoverage.coveredChars < tabCoverage.totalChars ? 'bg-amber-50 text-amber-700' : 'bg-slate-100 text-slate-500'}`}
+                                    title={`${tabCoverage.coveredChars.toLocaleString()} of ${tabCoverage.totalChars.toLocaleString()} characters`}
+                                >
+                                    Based on {SegmentService.coveragePercent(tabCoverage)}% of the transcript
+                                    {tabCoverage.segments > 1 && ` · ${tabCoverage.segments} parts`}
+                                    {tabCoverage.failedSegments > 0 && ` · ${tabCoverage.failedSegments} failed, regenerate to retry`}
+                                </span>
+                            )}
+                            {cachedArtifact === tabArtifact && (
+                                <span className="text-xs px-2.5 py-1 rounded-full bg-sky-50 text-sky-700" title="Same transcript, prompt and model as an earlier generation">
+                                    Reused cached result
+                                </span>
+                            )}
+                        </span>
+                        <span className="flex items-center gap-1">
+                            <button
+                                onClick={() => handleForceRegenerate(tabArtifact)}
+                                disabled={pendingArtifacts.includes(tabArtifact)}
+                                className="flex items-center gap-1.5 text-xs font-medium text-slate-500 hover:text-indigo-600 px-3 py-1.5 rounded-lg hover:bg-slate-100 transition-colors disabled:opacity-50"
+                                title="Call the AI again, ignoring cached results"
+                            >
+                                <ArrowPathIcon className="w-4 h-4" />
+                                Regenerate
+                            </button>
+                            {RevisionService.getRevisions(lecture, tabArtifact).length > 1 && (
+                                <button
+                                    onClick={() => setHistoryArtifact(tabArtifact)}
+                                    className="flex items-center gap-1.5 text-xs font-medium text-slate-500 hover:text-indigo-600 px-3 py-1.5 rounded-lg hover:bg-slate-100 transition-colors"
+                                >
+                                    <ClockIcon className="w-4 h-4" />
+                                    History ({RevisionService.getRevisions(lecture, tabArtifact).length})
+                                </button>
+                            )}
+                        </span>
+                    </div>
+                )}
+
                 {error && activeTab !== 'chat' && (
                     <div className="m-6 p-4 bg-red-50 text-red-700 border border-red-200 rounded-lg">
                         {error}
@@ -971,13 +1158,62 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({ lecture, onBack, onUpda
                                     </button>
                                 </div>
 
+                                {audioSessions.length > 0 && (
+                                    <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                                        {audioSessions.length > 1 && (
+                                            <select
+                                                value={playingSessionId}
+                                                onChange={(e) => setAudioSessionId(e.target.value)}
+                                                className="px-2 py-1 border border-slate-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                            >
+                                                {audioSessions.map(session => (
+                                                    <option key={session.id} value={session.id}>
+                                                        Session {lecture.sessions.indexOf(session) + 1} · {formatSessionTime(session.startTime)}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                        )}
+                                        {audioError ? (
+                                            <p className="text-sm text-slate-400">{audioError}</p>
+                                        ) : (
+                                            <audio
+                                                ref={audioRef}
+                                                src={audioUrl || undefined}
+                                                controls
+                                                preload="metadata"
+                                                onLoadedMetadata={handleAudioLoaded}
+                                                onTimeUpdate={(e) => setPlaybackTime(e.currentTarget.currentTime)}
+                                                className="flex-1 w-full h-10"
+                                            />
+                                        )}
+                                    </div>
+                                )}
+
                                 {lecture.chunks && lecture.chunks.length > 0 ? (
                                     <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6 space-y-1">
                                         {lecture.chunks.map((chunk, idx) => (
-                                            <div key={idx} className="flex gap-4 group hover:bg-slate-50 p-1 -mx-2 rounded-lg transition-colors items-baseline">
-                                                <div className="w-20 flex-shrink-0 text-right font-mono text-xs text-slate-400 group-hover:text-indigo-500 select-none pt-1">
-                                                    {formatTime(chunk.timestamp)}
-                                                </div>
+                                            <div
+                                                key={idx}
+                                                ref={idx === activeChunkIndex ? activeChunkRef : undefined}
+                                                className={`flex gap-4 group p-1 -mx-2 rounded-lg transition-colors items-baseline ${
+                                                    idx === activeChunkIndex ? 'bg-indigo-50' : 'hover:bg-slate-50'
+                                                }`}
+                                            >
+                                                {canSeek(chunk) ? (
+                                                    <button
+                                                        onClick={() => handleChunkSeek(chunk)}
+                                                        title="Play from here"
+                                                        className={`w-20 flex-shrink-0 text-right font-mono text-xs select-none pt-1 hover:underline ${
+                                                            idx === activeChunkIndex ? 'text-indigo-600 font-semibold' : 'text-slate-400 group-hover:text-indigo-500'
+                                                        }`}
+                                                    >
+                                                        {formatTime(chunk.timestamp)}
+                                                    </button>
+                                                ) : (
+                                                    <div className="w-20 flex-shrink-0 text-right font-mono text-xs text-slate-400 group-hover:text-indigo-500 select-none pt-1">
+                                                        {formatTime(chunk.timestamp)}
+                                                    </div>
+                                                )}
                                                 <div className="flex-1 text-slate-700 leading-relaxed">
                                                     {chunk.text}
                                                 </div>
@@ -1078,8 +1314,9 @@ const FlashcardItem: React.FC<{ card: Flashcard }> = ({ card }) => {
                                     'bg-red-100 text-red-700'
                             }`}>{card.difficulty}</span>
                     </div>
-                    <div className="flex-1 flex items-center justify-center">
+                    <div className="flex-1 flex flex-col items-center justify-center">
                         <p className="text-xl font-medium text-slate-800 text-center leading-relaxed">{card.front}</p>
+                        {card.sourceFront && <p className="text-sm text-slate-400 text-center italic mt-3">{card.sourceFront}</p>}
                     </div>
                     <div className="mt-4 text-center">
                         <span className="text-xs text-slate-400 font-medium bg-slate-50 px-3 py-1 rounded-full">Click to Reveal Answer</span>
@@ -1091,8 +1328,9 @@ const FlashcardItem: React.FC<{ card: Flashcard }> = ({ card }) => {
                     <div className="flex justify-between items-start mb-4">
                         <span className="text-xs font-bold uppercase tracking-wider text-slate-400">Answer</span>
                     </div>
-                    <div className="flex-1 flex items-center justify-center overflow-y-auto custom-scrollbar">
+                    <div className="flex-1 flex flex-col items-center justify-center overflow-y-auto custom-scrollbar">
                         <p className="text-lg font-medium text-white text-center leading-relaxed">{card.back}</p>
+                        {card.sourceBack && <p className="text-sm text-slate-400 text-center italic mt-3">{card.sourceBack}</p>}
                     </div>
                     <div className="mt-4 text-center flex justify-between items-center text-xs text-slate-500 border-t border-slate-800 pt-3">
                         <span>{card.topic}</span>
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { LockClosedIcon } from './icons';
+import * as CryptoService from '../services/cryptoService';
+
+interface UnlockScreenProps {
+    onUnlock: () => void;
+}
+
+const UnlockScreen: React.FC<UnlockScreenProps> = ({ onUnlock }) => {
+    const [passphrase, setPassphrase] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isUnlocking, setIsUnlocking] = useState(false);
+
+    const handleUnlock = async () => {
+        if (!passphrase) return;
+        setIsUnlocking(true);
+        setError(null);
+        try {
+            await CryptoService.unlockVault(passphrase);
+            onUnlock();
+        } catch (e: any) {
+            setError(e instanceof CryptoService.WrongPassphraseError ? e.message : "Could not unlock the library.");
+            setIsUnlocking(false);
+        }
+    };
+
+    return (
+        <div className="flex h-screen items-center justify-center bg-slate-100 p-4 font-sans">
+            <div className="bg-white rounded-2xl shadow-xl max-w-sm w-full p-8 text-center">
+                <div className="w-16 h-16 mx-auto bg-indigo-50 rounded-full flex items-center justify-center mb-4">
+                    <LockClosedIcon className="w-8 h-8 text-indigo-500" />
+                </div>
+                <h2 className="text-xl font-bold text-slate-900 mb-1">Ezi is locked</h2>
+                <p className="text-sm text-slate-500 mb-6">Enter your passphrase to open your lecture library.</p>
+                <input
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    onKeyDown={e => e.key === 'Enter' && handleUnlock()}
+                    placeholder="Passphrase"
+                    autoFocus
+                    className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                />
+                {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+                <button
+                    onClick={handleUnlock}
+                    disabled={isUnlocking || !passphrase}
+                    className="w-full mt-4 px-6 py-2 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 shadow-sm transition-colors disabled:opacity-50"
+                >
+                    {isUnlocking ? 'Unlocking...' : 'Unlock'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default UnlockScreen;
@@ -0,0 +1,313 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { XMarkIcon, TrashIcon } from './icons';
+import { LectureData } from '../types';
+import * as SettingsService from '../services/settingsService';
+import * as UsageService from '../services/usageService';
+import { AppSettings } from '../services/settingsService';
+import { BudgetStatus, UsageRecord, UsageTotals } from '../services/usageService';
+import { LlmTask, ProviderId, TASK_LABELS, PROVIDER_LABELS } from '../services/llmProvider';
+
+interface UsagePanelProps {
+    lectures: LectureData[];
+    onClose: () => void;
+}
+
+type Period = 'month' | '30days' | 'all';
+
+type BudgetSettings = Pick<AppSettings, 'monthlyBudgetUsd' | 'budgetWarningPercent' | 'tokenPricesUsd'>;
+
+const PERIOD_LABELS: Record<Period, string> = {
+    month: 'This month',
+    '30days': 'Last 30 days',
+    all: 'All time',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const periodStart = (period: Period): number => {
+    if (period === 'month') return UsageService.getMonthStart();
+    if (period === '30days') return Date.now() - 30 * DAY_MS;
+    return 0;
+};
+
+// Local calendar day, sortable
+const dayKey = (at: number): string => {
+    const date = new Date(at);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const formatTokens = (tokens: number): string => {
+    if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+    if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}k`;
+    return String(tokens);
+};
+
+// Fractions of a cent still show up for single calls
+const formatUsd = (usd: number): string => `$${usd > 0 && usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+const numberInputClass = "w-24 px-2 py-1 border border-slate-300 rounded-lg text-sm text-right focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ lectures, onClose }) => {
+    const [draft, setDraft] = useState<BudgetSettings>(() => {
+        const { monthlyBudgetUsd, budgetWarningPercent, tokenPricesUsd } = SettingsService.getSettings();
+        return { monthlyBudgetUsd, budgetWarningPercent, tokenPricesUsd };
+    });
+    const [budget, setBudget] = useState<BudgetStatus | null>(null);
+    const [period, setPeriod] = useState<Period>('month');
+    const [lectureId, setLectureId] = useState('');
+    const [records, setRecords] = useState<UsageRecord[] | null>(null);
+
+    useEffect(() => UsageService.subscribeToBudget(setBudget), []);
+
+    const loadRecords = async () => {
+        const from = periodStart(period);
+        const loaded = lectureId
+            ? (await UsageService.getLectureUsage(lectureId)).filter(r => r.at >= from)
+            : await UsageService.getUsageSince(from);
+        setRecords(loaded);
+    };
+
+    useEffect(() => {
+        setRecords(null);
+        loadRecords().catch(e => console.error("Could not read AI usage", e));
+    }, [period, lectureId]);
+
+    const totals = useMemo(() => UsageService.totalUsage(records || []), [records]);
+    const byDay = useMemo(() => [...UsageService.groupUsage(records || [], r => dayKey(r.at)).entries()].reverse(), [records]);
+    const byTask = useMemo(() => [...UsageService.groupUsage(records || [], r => r.task).entries()], [records]);
+    const byLecture = useMemo(() => [...UsageService.groupUsage((records || []).filter(r => r.lectureId), r => r.lectureId!).entries()]
+        .sort((a, b) => (b[1].inputTokens + b[1].outputTokens) - (a[1].inputTokens + a[1].outputTokens)), [records]);
+    const busiestDay = Math.max(1, ...byDay.map(([, day]) => day.inputTokens + day.outputTokens));
+
+    const update = (partial: Partial<BudgetSettings>) => setDraft(prev => ({ ...prev, ...partial }));
+
+    const setPrice = (provider: ProviderId, side: 'input' | 'output', value: number) => {
+        update({ tokenPricesUsd: { ...draft.tokenPricesUsd, [provider]: { ...draft.tokenPricesUsd[provider], [side]: Math.max(0, value) } } });
+    };
+
+    const lectureTitle = (id: string) => lectures.find(l => l.id === id)?.title || 'Deleted lecture';
+
+    const handleClear = async () => {
+        if (!confirm("Clear the recorded AI usage? This month's budget starts again from zero.")) return;
+        await UsageService.clearUsage();
+        await loadRecords();
+    };
+
+    const handleSave = async () => {
+        SettingsService.updateSettings(draft);
+        await UsageService.refreshBudget();
+        onClose();
+    };
+
+    const renderTotalsRow = (label: React.ReactNode, row: UsageTotals, key: string) => (
+        <tr key={key} className="border-t border-slate-100">
+            <td className="py-1.5 pr-2 text-slate-700 truncate max-w-[12rem]">{label}</td>
+            <td className="py-1.5 px-2 text-right font-mono">{row.calls}</td>
+            <td className="py-1.5 px-2 text-right font-mono">{formatTokens(row.inputTokens)}</td>
+            <td className="py-1.5 px-2 text-right font-mono">{formatTokens(row.outputTokens)}</td>
+            <td className="py-1.5 px-2 text-right font-mono">{formatUsd(row.costUsd)}</td>
+            <td className="py-1.5 pl-2 text-right font-mono">{(row.latencyMs / row.calls / 1000).toFixed(1)}s</td>
+        </tr>
+    );
+
+    const renderTable = (rows: [string, UsageTotals][], labelOf: (key: string) => React.ReactNode, heading: string) => (
+        <table className="w-full text-xs text-slate-600">
+            <thead>
+                <tr className="text-slate-400">
+                    <th className="pb-1 pr-2 text-left font-medium">{heading}</th>
+                    <th className="pb-1 px-2 text-right font-medium">Calls</th>
+                    <th className="pb-1 px-2 text-right font-medium">Input</th>
+                    <th className="pb-1 px-2 text-right font-medium">Output</th>
+                    <th className="pb-1 px-2 text-right font-medium">Cost</th>
+                    <th className="pb-1 pl-2 text-right font-medium">Avg. time</th>
+                </tr>
+            </thead>
+            <tbody>
+                {rows.map(([key, row]) => renderTotalsRow(labelOf(key), row, key))}
+            </tbody>
+        </table>
+    );
+
+    const budgetPercent = budget ? budget.share * 100 : 0;
+    const budgetColor = budget?.level === 'exceeded' ? 'bg-red-500' : budget?.level === 'warning' ? 'bg-amber-500' : 'bg-indigo-500';
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fadeIn">
+            <div className="bg-white rounded-2xl shadow-xl max-w-2xl w-full overflow-hidden flex flex-col max-h-[90vh]">
+                <div className="p-6 border-b border-slate-100 bg-slate-50 flex items-start justify-between">
+                    <div>
+                        <h3 className="text-xl font-bold text-slate-800">AI Usage</h3>
+                        <p className="text-sm text-slate-500 mt-1">
+                            Tokens, cost and response time of every AI call. Live transcription is not included.
+                        </p>
+                    </div>
+                    <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-200 transition-colors">
+                        <XMarkIcon className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-6 space-y-6 text-sm">
+                    <section className="space-y-2">
+                        <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Monthly Budget</h4>
+                        <div className="flex justify-between">
+                            <span className="font-medium text-slate-700">
+                                {formatUsd(budget?.monthCostUsd || 0)} spent this month
+                                {budget && budget.budgetUsd > 0 && ` of ${formatUsd(budget.budgetUsd)}`}
+                            </span>
+                            {budget && budget.budgetUsd > 0 && (
+                                <span className={budget.level === 'ok' ? 'text-slate-500' : budget.level === 'warning' ? 'text-amber-600 font-semibold' : 'text-red-600 font-semibold'}>
+                                    {budgetPercent.toFixed(0)}%
+                                </span>
+                            )}
+                        </div>
+                        {budget && budget.budgetUsd > 0 && (
+                            <div className="h-2 bg-slate-200 rounded-full overflow-hidden relative">
+                                <div className={`h-full transition-all ${budgetColor}`} style={{ width: `${Math.min(100, budgetPercent)}%` }} />
+                                <div className="absolute top-0 bottom-0 w-0.5 bg-slate-500" style={{ left: `${draft.budgetWarningPercent}%` }} title="Warning threshold" />
+                            </div>
+                        )}
+                        <label className="flex items-center justify-between text-slate-600">
+                            <span>Budget per month (USD) <span className="text-slate-400">(0 = none)</span></span>
+                            <input
+                                type="number"
+                                min={0}
+                                step={1}
+                                value={draft.monthlyBudgetUsd}
+                                onChange={(e) => update({ monthlyBudgetUsd: Math.max(0, Number(e.target.value)) })}
+                                className={numberInputClass}
+                            />
+                        </label>
+                        <label className="flex items-center justify-between text-slate-600">
+                            <span>Warn me when spending reaches</span>
+                            <select
+                                value={draft.budgetWarningPercent}
+                                onChange={(e) => update({ budgetWarningPercent: Number(e.target.value) })}
+                                className="px-2 py-1 border border-slate-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                            >
+                                {[50, 70, 80, 90, 95].map(p => <option key={p} value={p}>{p}%</option>)}
+                            </select>
+                        </label>
+                    </section>
+
+                    <section className="space-y-2">
+                        <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Prices per Million Tokens (USD)</h4>
+                        {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(provider => (
+                            <div key={provider} className="flex items-center justify-between gap-2 text-slate-600">
+                                <span className="flex-1">{PROVIDER_LABELS[provider]}</span>
+                                <span className="text-xs text-slate-400">In</span>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={0.05}
+                                    value={draft.tokenPricesUsd[provider]?.input || 0}
+                                    onChange={(e) => setPrice(provider, 'input', Number(e.target.value))}
+                                    className={numberInputClass}
+                                />
+                                <span className="text-xs text-slate-400">Out</span>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={0.05}
+                                    value={draft.tokenPricesUsd[provider]?.output || 0}
+                                    onChange={(e) => setPrice(provider, 'output', Number(e.target.value))}
+                                    className={numberInputClass}
+                                />
+                            </div>
+                        ))}
+                        <p className="text-xs text-slate-400">
+                            Calls are priced when they are made, so changes apply to new calls only. Counts the server doesn't report are estimated from the text length.
+                        </p>
+                    </section>
+
+                    <section className="space-y-3">
+                        <div className="flex flex-wrap items-center gap-2">
+                            <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mr-auto">History</h4>
+                            <select
+                                value={lectureId}
+                                onChange={(e) => setLectureId(e.target.value)}
+                                className="px-2 py-1 border border-slate-300 rounded-lg bg-white text-sm max-w-[14rem] focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                            >
+                                <option value="">All lectures</option>
+                                {lectures.map(l => <option key={l.id} value={l.id}>{l.title}</option>)}
+                            </select>
+                            <select
+                                value={period}
+                                onChange={(e) => setPeriod(e.target.value as Period)}
+                                className="px-2 py-1 border border-slate-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                            >
+                                {(Object.keys(PERIOD_LABELS) as Period[]).map(p => <option key={p} value={p}>{PERIOD_LABELS[p]}</option>)}
+                            </select>
+                        </div>
+
+                        {!records ? (
+                            <p className="text-xs text-slate-400">Reading usage...</p>
+                        ) : records.length === 0 ? (
+                            <p className="text-center py-6 text-slate-400 text-sm">No AI calls recorded in this period.</p>
+                        ) : (
+                            <>
+                                <p className="text-slate-600">
+                                    {totals.calls} call(s), {formatTokens(totals.inputTokens)} input and {formatTokens(totals.outputTokens)} output tokens, {formatUsd(totals.costUsd)}.
+                                </p>
+
+                                <div className="space-y-1">
+                                    <h5 className="text-xs font-medium text-slate-500">By day</h5>
+                                    {byDay.map(([day, row]) => (
+                                        <div key={day} className="flex items-center gap-3 text-xs text-slate-600">
+                                            <span className="w-24 flex-shrink-0 font-mono">{day}</span>
+                                            <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                                                <div className="h-full bg-indigo-500" style={{ width: `${((row.inputTokens + row.outputTokens) / busiestDay) * 100}%` }} />
+                                            </div>
+                                            <span className="w-28 flex-shrink-0 text-right font-mono">
+                                                {formatTokens(row.inputTokens + row.outputTokens)} · {formatUsd(row.costUsd)}
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+
+                                <div className="space-y-1">
+                                    <h5 className="text-xs font-medium text-slate-500">By task</h5>
+                                    {renderTable(byTask, key => TASK_LABELS[key as LlmTask] || key, 'Task')}
+                                </div>
+
+                                {!lectureId && byLecture.length > 0 && (
+                                    <div className="space-y-1">
+                                        <h5 className="text-xs font-medium text-slate-500">By lecture</h5>
+                                        {renderTable(byLecture, lectureTitle, 'Lecture')}
+                                    </div>
+                                )}
+                            </>
+                        )}
+
+                        <div className="flex justify-end">
+                            <button
+                                onClick={handleClear}
+                                disabled={!records || (records.length === 0 && !budget?.monthCostUsd)}
+                                className="flex items-center gap-1 text-xs text-red-500 hover:text-red-700 px-2 py-1 rounded hover:bg-red-50 transition-colors disabled:opacity-50"
+                            >
+                                <TrashIcon className="w-3 h-3" />
+                                Clear History
+                            </button>
+                        </div>
+                    </section>
+                </div>
+
+                <div className="p-4 bg-slate-50 border-t border-slate-100 flex gap-3 justify-end">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-slate-600 font-medium hover:bg-slate-200 rounded-lg transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        className="px-6 py-2 bg-indigo-600 text-white font-medium rounded-lg hover:bg-indigo-700 shadow-sm transition-colors"
+                    >
+                        Save
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default UsagePanel;
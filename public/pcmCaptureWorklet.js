@@ -0,0 +1,109 @@
+// Runs on the audio rendering thread. Resamples the (mono) input to the target rate,
+// converts it to 16-bit PCM and posts it in fixed-size batches. Audio the browser lost is
+// filled with silence, so the timeline stays true, and reported.
+//
+// Lost audio does not show in currentFrame, which advances one render quantum per call
+// whatever happened in between; it shows as the audio clock falling behind the wall clock.
+// That lag also jitters with how the browser schedules rendering, so only the smallest lag
+// seen over a check period counts, and only by how far it grew since the period before
+// (the two clocks also drift apart slowly, which must not add up to a gap).
+
+// Lag growth below this is taken as jitter
+const TOLERANCE_SECONDS = 0.02;
+// Longer gaps (e.g. the device slept) are reported in full but not filled
+const MAX_FILL_SECONDS = 5;
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+    constructor(options) {
+        super();
+        const { targetSampleRate, batchSamples } = options.processorOptions;
+        // Input frames per output sample
+        this.ratio = sampleRate / targetSampleRate;
+        this.batch = new Int16Array(batchSamples);
+        this.batchLength = 0;
+        this.droppedFrames = 0;
+        // Wall clock time at audio clock 0, so lag = wall clock - audio clock
+        this.startMs = null;
+        this.lastLag = null;
+        this.periodMinLag = Infinity;
+        this.periodEnd = 0;
+        this.checkFrames = Math.round(sampleRate * batchSamples / targetSampleRate);
+        // Resampler state carried across render quanta
+        this.position = 0; // where the next output sample starts, in input frames from the start of the current block
+        this.sum = 0;
+        this.count = 0;
+        this.previous = 0;
+    }
+
+    push(sample) {
+        const s = Math.max(-1, Math.min(1, sample));
+        this.batch[this.batchLength++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+        if (this.batchLength === this.batch.length) {
+            const pcm = this.batch;
+            this.port.postMessage({ pcm, droppedFrames: this.droppedFrames }, [pcm.buffer]);
+            this.batch = new Int16Array(pcm.length);
+            this.batchLength = 0;
+            this.droppedFrames = 0;
+        }
+    }
+
+    // Downsampling averages the input frames each output sample covers, which also filters
+    // out most of what would alias; upsampling interpolates linearly.
+    resample(input) {
+        if (this.ratio >= 1) {
+            for (let i = 0; i < input.length; i++) {
+                this.sum += input[i];
+                this.count++;
+                if (i + 1 >= this.position + this.ratio) {
+                    this.push(this.sum / this.count);
+                    this.sum = 0;
+                    this.count = 0;
+                    this.position += this.ratio;
+                }
+            }
+        } else {
+            while (this.position < input.length) {
+                const index = Math.floor(this.position);
+                const fraction = this.position - index;
+                const before = index === 0 ? this.previous : input[index - 1];
+                this.push(before + (input[index] - before) * fraction);
+                this.position += this.ratio;
+            }
+            this.previous = input[input.length - 1];
+        }
+        this.position -= input.length;
+    }
+
+    // Seconds the audio clock is behind the wall clock
+    measureLag() {
+        const now = Date.now();
+        if (this.startMs === null) this.startMs = now - currentTime * 1000;
+        return (now - this.startMs) / 1000 - currentTime;
+    }
+
+    checkForLostAudio() {
+        this.periodMinLag = Math.min(this.periodMinLag, this.measureLag());
+        if (currentFrame < this.periodEnd) return;
+        this.periodEnd = currentFrame + this.checkFrames;
+
+        const lag = this.periodMinLag;
+        this.periodMinLag = Infinity;
+        const lost = this.lastLag === null ? 0 : lag - this.lastLag;
+        this.lastLag = lag;
+        if (lost < TOLERANCE_SECONDS) return;
+
+        const samples = Math.round(lost * sampleRate / this.ratio);
+        const silence = Math.min(samples, Math.round(MAX_FILL_SECONDS * sampleRate / this.ratio));
+        for (let i = 0; i < silence; i++) this.push(0);
+        this.droppedFrames += samples;
+    }
+
+    process(inputs) {
+        const channel = inputs[0] && inputs[0][0];
+        this.checkForLostAudio();
+        if (channel) this.resample(channel);
+        return true;
+    }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
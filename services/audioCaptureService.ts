@@ -0,0 +1,61 @@
+// Microphone capture for live transcription. An AudioWorklet resamples the input to 16 kHz
+// mono PCM off the main thread and hands it over in steady batches, whatever sample rate
+// the AudioContext actually runs at.
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+// Audio per batch sent to the Live session
+const BATCH_MS = 100;
+
+// Served from public/ as its own file: Vite would inline a module this small as a data: URL,
+// which a Content-Security-Policy without data: refuses to load
+const WORKLET_URL = `${import.meta.env.BASE_URL}pcmCaptureWorklet.js`;
+
+export interface CaptureOptions {
+    // One batch of 16-bit PCM at CAPTURE_SAMPLE_RATE
+    onAudio: (pcm: Int16Array) => void;
+    // Frames (at CAPTURE_SAMPLE_RATE) the browser skipped; they were replaced by silence
+    onDroppedFrames?: (frames: number) => void;
+}
+
+export interface AudioCapture {
+    stop: () => void;
+}
+
+// Loads the worklet into the context; do this before the capture is needed so a browser
+// without AudioWorklet support fails early
+export const prepareAudioCapture = async (audioContext: AudioContext): Promise<void> => {
+    if (!audioContext.audioWorklet) {
+        throw new Error("This browser can't capture audio for live transcription (AudioWorklet is not supported)");
+    }
+    await audioContext.audioWorklet.addModule(WORKLET_URL);
+};
+
+export const startAudioCapture = (audioContext: AudioContext, stream: MediaStream, { onAudio, onDroppedFrames }: CaptureOptions): AudioCapture => {
+    const source = audioContext.createMediaStreamSource(stream);
+    const node = new AudioWorkletNode(audioContext, 'pcm-capture', {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        // The browser mixes stereo microphones down to mono before the worklet sees them
+        channelCount: 1,
+        channelCountMode: 'explicit',
+        channelInterpretation: 'speakers',
+        processorOptions: {
+            targetSampleRate: CAPTURE_SAMPLE_RATE,
+            batchSamples: Math.round(CAPTURE_SAMPLE_RATE * BATCH_MS / 1000),
+        },
+    });
+
+    node.port.onmessage = (e: MessageEvent<{ pcm: Int16Array; droppedFrames: number }>) => {
+        if (e.data.droppedFrames > 0) onDroppedFrames?.(e.data.droppedFrames);
+        onAudio(e.data.pcm);
+    };
+    source.connect(node);
+
+    return {
+        stop: () => {
+            node.port.onmessage = null;
+            source.disconnect();
+            node.disconnect();
+        },
+    };
+};
@@ -0,0 +1,273 @@
+import { openDb, requestToPromise, transactionDone, STORE_AUDIO, STORE_AUDIO_CHUNKS } from './db';
+import { EncryptedBytes, getVaultKey, encryptBytes, decryptBytes } from './cryptoService';
+
+// Raw audio of live recordings, one record per TranscriptSession. Kept out of the lecture
+// records (and so out of exports and snapshots) because it is far larger than the text.
+// Sealed like lecture records when the library is encrypted.
+//
+// Recordings are written while they are made, in chunks of 16-bit mono PCM, so they neither
+// pile up in memory nor get lost with the tab. Sessions recorded before that hold the
+// whole WAV in their `audio` record instead.
+
+interface AudioRecord {
+    sessionId: string;
+    lectureId: string;
+    mimeType: string;
+    size: number;
+    // Chunked recordings
+    sampleRate?: number;
+    startTime?: string; // ISO
+    updatedAt?: string; // ISO, when the last chunk was written
+    chunkCount?: number;
+    // Whole recordings
+    blob?: Blob;
+    sealed?: EncryptedBytes;
+}
+
+interface AudioChunkRecord {
+    sessionId: string;
+    seq: number;
+    pcm?: Blob;
+    sealed?: EncryptedBytes;
+}
+
+// A chunked recording no lecture refers to, e.g. because the tab closed mid-recording
+export interface OrphanedRecording {
+    sessionId: string;
+    lectureId: string;
+    startTime: string;
+    endTime: string;
+    duration: number; // seconds
+}
+
+// Audio per stored chunk; at most this much is lost if the tab dies
+const CHUNK_SECONDS = 10;
+// Recordings written to this recently may still be in progress in another tab
+const ORPHAN_AFTER_MS = 2 * 60 * 1000;
+
+const getStore = async (mode: IDBTransactionMode) => {
+    const db = await openDb();
+    const tx = db.transaction(STORE_AUDIO, mode);
+    return { tx, store: tx.objectStore(STORE_AUDIO) };
+};
+
+const sessionChunks = (sessionId: string) => IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity]);
+
+// 16-bit mono PCM in a WAV container, which browsers can seek without an index
+const encodeWav = (pcm: Blob[], sampleRate: number): Blob => {
+    const dataBytes = pcm.reduce((sum, part) => sum + part.size, 0);
+    const header = new DataView(new ArrayBuffer(44));
+    const writeText = (offset: number, text: string) => {
+        for (let i = 0; i < text.length; i++) header.setUint8(offset + i, text.charCodeAt(i));
+    };
+    writeText(0, 'RIFF');
+    header.setUint32(4, 36 + dataBytes, true);
+    writeText(8, 'WAVE');
+    writeText(12, 'fmt ');
+    header.setUint32(16, 16, true); // fmt chunk size
+    header.setUint16(20, 1, true); // PCM
+    header.setUint16(22, 1, true); // mono
+    header.setUint32(24, sampleRate, true);
+    header.setUint32(28, sampleRate * 2, true); // bytes per second
+    header.setUint16(32, 2, true); // bytes per frame
+    header.setUint16(34, 16, true); // bits per sample
+    writeText(36, 'data');
+    header.setUint32(40, dataBytes, true);
+    return new Blob([header, ...pcm], { type: 'audio/wav' });
+};
+
+const sealChunk = async (chunk: AudioChunkRecord, key: CryptoKey | null): Promise<AudioChunkRecord> => {
+    const { pcm, sealed, ...position } = chunk;
+    if (!pcm) return chunk;
+    return key ? { ...position, sealed: await encryptBytes(key, await pcm.arrayBuffer()) } : chunk;
+};
+
+// --- Recording ---
+
+export interface AudioRecording {
+    // One batch of captured PCM
+    add: (pcm: Int16Array) => void;
+    // Writes what is left; resolves to whether any audio was stored
+    finish: () => Promise<boolean>;
+    // Removes everything written so far, e.g. when the recording is thrown away
+    discard: () => Promise<void>;
+}
+
+export const startAudioRecording = (sessionId: string, lectureId: string, sampleRate: number): AudioRecording => {
+    const info: AudioRecord = {
+        sessionId,
+        lectureId,
+        mimeType: 'audio/wav',
+        size: 0,
+        sampleRate,
+        startTime: new Date().toISOString(),
+        chunkCount: 0,
+    };
+    let parts: Int16Array[] = [];
+    let samples = 0;
+    // Chunks are written one after another; a failed write is reported and skipped
+    let writes = Promise.resolve();
+
+    const writeChunk = async (pcm: Blob) => {
+        const chunk = await sealChunk({ sessionId, seq: info.chunkCount!, pcm }, getVaultKey());
+        info.chunkCount! += 1;
+        info.size += pcm.size;
+        info.updatedAt = new Date().toISOString();
+
+        const db = await openDb();
+        const tx = db.transaction([STORE_AUDIO, STORE_AUDIO_CHUNKS], 'readwrite');
+        tx.objectStore(STORE_AUDIO_CHUNKS).put(chunk);
+        tx.objectStore(STORE_AUDIO).put({ ...info });
+        await transactionDone(tx);
+    };
+
+    const flush = () => {
+        if (samples === 0) return;
+        const pcm = new Blob(parts);
+        parts = [];
+        samples = 0;
+        writes = writes.then(() => writeChunk(pcm)).catch(e => console.error("Could not store part of the recording", e));
+    };
+
+    return {
+        add: (pcm) => {
+            parts.push(pcm);
+            samples += pcm.length;
+            if (samples >= CHUNK_SECONDS * sampleRate) flush();
+        },
+        finish: async () => {
+            flush();
+            await writes;
+            return info.chunkCount! > 0;
+        },
+        discard: async () => {
+            parts = [];
+            samples = 0;
+            await writes;
+            await deleteSessionAudio(sessionId);
+        },
+    };
+};
+
+// --- Reading ---
+
+// Null when the session has no recording on this device (e.g. an imported lecture)
+export const getSessionAudio = async (sessionId: string): Promise<Blob | null> => {
+    const { store } = await getStore('readonly');
+    const record = await requestToPromise<AudioRecord | undefined>(store.get(sessionId));
+    if (!record) return null;
+
+    if (record.chunkCount !== undefined) {
+        // One chunk at a time, so only one sealed copy is in memory at once
+        const db = await openDb();
+        const pcm: Blob[] = [];
+        for (let seq = 0; seq < record.chunkCount; seq++) {
+            const chunk = await requestToPromise<AudioChunkRecord | undefined>(
+                db.transaction(STORE_AUDIO_CHUNKS).objectStore(STORE_AUDIO_CHUNKS).get([sessionId, seq])
+            );
+            if (!chunk) continue;
+            if (chunk.pcm) {
+                pcm.push(chunk.pcm);
+            } else if (chunk.sealed) {
+                const key = getVaultKey();
+                if (!key) throw new Error("This recording is encrypted but encryption is disabled");
+                pcm.push(new Blob([await decryptBytes(key, chunk.sealed)]));
+            }
+        }
+        return encodeWav(pcm, record.sampleRate!);
+    }
+
+    if (!record.sealed) return record.blob || null;
+    const key = getVaultKey();
+    if (!key) throw new Error("This recording is encrypted but encryption is disabled");
+    return new Blob([await decryptBytes(key, record.sealed)], { type: record.mimeType });
+};
+
+// Bytes of recorded audio per lecture
+export const getLectureAudioSizes = async (): Promise<Map<string, number>> => {
+    const { store } = await getStore('readonly');
+    const records = await requestToPromise<AudioRecord[]>(store.getAll());
+    const sizes = new Map<string, number>();
+    records.forEach(record => sizes.set(record.lectureId, (sizes.get(record.lectureId) || 0) + record.size));
+    return sizes;
+};
+
+// Chunked recordings none of the given sessions refer to and that are no longer being written
+export const findOrphanedRecordings = async (knownSessionIds: Set<string>): Promise<OrphanedRecording[]> => {
+    const { store } = await getStore('readonly');
+    const records = await requestToPromise<AudioRecord[]>(store.getAll());
+    const cutoff = Date.now() - ORPHAN_AFTER_MS;
+    return records
+        .filter(r => r.chunkCount && !knownSessionIds.has(r.sessionId) && new Date(r.updatedAt!).getTime() < cutoff)
+        .map(r => ({
+            sessionId: r.sessionId,
+            lectureId: r.lectureId,
+            startTime: r.startTime!,
+            endTime: r.updatedAt!,
+            duration: Math.round(r.size / 2 / r.sampleRate!),
+        }));
+};
+
+// --- Removal and re-encryption ---
+
+const deleteSessions = (tx: IDBTransaction, sessionIds: IDBValidKey[]) => {
+    sessionIds.forEach(sessionId => {
+        tx.objectStore(STORE_AUDIO).delete(sessionId);
+        tx.objectStore(STORE_AUDIO_CHUNKS).delete(sessionChunks(sessionId as string));
+    });
+};
+
+export const deleteSessionAudio = async (sessionId: string): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction([STORE_AUDIO, STORE_AUDIO_CHUNKS], 'readwrite');
+    deleteSessions(tx, [sessionId]);
+    await transactionDone(tx);
+};
+
+// Removes the recordings of lectures, e.g. when they are purged
+export const deleteLectureAudio = async (lectureIds: string[]): Promise<void> => {
+    if (lectureIds.length === 0) return;
+    const db = await openDb();
+    const tx = db.transaction([STORE_AUDIO, STORE_AUDIO_CHUNKS], 'readwrite');
+    const index = tx.objectStore(STORE_AUDIO).index('lectureId');
+    lectureIds.forEach(lectureId => {
+        index.getAllKeys(lectureId).onsuccess = (e) => {
+            deleteSessions(tx, (e.target as IDBRequest<IDBValidKey[]>).result);
+        };
+    });
+    await transactionDone(tx);
+};
+
+// Re-encrypts every recording when the library key changes (null = plaintext).
+// One record at a time, since recordings can be large.
+export const resealAudio = async (fromKey: CryptoKey | null, toKey: CryptoKey | null): Promise<void> => {
+    const db = await openDb();
+
+    const sessionIds = await requestToPromise(db.transaction(STORE_AUDIO).objectStore(STORE_AUDIO).getAllKeys());
+    for (const sessionId of sessionIds) {
+        const { blob, sealed, ...info } = await requestToPromise<AudioRecord>(db.transaction(STORE_AUDIO).objectStore(STORE_AUDIO).get(sessionId));
+        // Chunked recordings are resealed below
+        if (!blob && !sealed) continue;
+        const plain = sealed ? (fromKey ? await decryptBytes(fromKey, sealed) : null) : await blob!.arrayBuffer();
+        // Sealed with a key we don't have; left as it is
+        if (!plain) continue;
+        const record: AudioRecord = toKey
+            ? { ...info, sealed: await encryptBytes(toKey, plain) }
+            : { ...info, blob: new Blob([plain], { type: info.mimeType }) };
+        const tx = db.transaction(STORE_AUDIO, 'readwrite');
+        tx.objectStore(STORE_AUDIO).put(record);
+        await transactionDone(tx);
+    }
+
+    const chunkKeys = await requestToPromise(db.transaction(STORE_AUDIO_CHUNKS).objectStore(STORE_AUDIO_CHUNKS).getAllKeys());
+    for (const chunkKey of chunkKeys) {
+        const chunk = await requestToPromise<AudioChunkRecord>(db.transaction(STORE_AUDIO_CHUNKS).objectStore(STORE_AUDIO_CHUNKS).get(chunkKey));
+        const { pcm, sealed, ...position } = chunk;
+        const plain = sealed ? (fromKey ? await decryptBytes(fromKey, sealed) : null) : await pcm?.arrayBuffer();
+        if (!plain) continue;
+        const resealed = await sealChunk({ ...position, pcm: new Blob([plain]) }, toKey);
+        const tx = db.transaction(STORE_AUDIO_CHUNKS, 'readwrite');
+        tx.objectStore(STORE_AUDIO_CHUNKS).put(resealed);
+        await transactionDone(tx);
+    }
+};
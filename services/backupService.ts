@@ -0,0 +1,140 @@
+import { LectureData, ExportBundle } from '../types';
+import { openDb, requestToPromise, transactionDone, STORE_SNAPSHOTS } from './db';
+import { createBundle, readBundle } from './schemaService';
+import { EncryptedPayload, getVaultKey, encryptJson, decryptJson, sha256Hex } from './cryptoService';
+import { v4 as uuidv4 } from 'uuid';
+
+export type SnapshotReason = 'scheduled' | 'manual' | 'before-restore';
+
+// What the snapshot list shows without opening the (possibly encrypted) bundle
+export interface SnapshotInfo {
+    id: string;
+    createdAt: string;
+    reason: SnapshotReason;
+    lectureCount: number;
+    size: number;
+}
+
+interface SnapshotRecord extends SnapshotInfo {
+    // Hash of the bundled lectures, so an unchanged library isn't snapshotted twice.
+    // Sealed with the bundle when the vault is on, since it tells whether the library changed.
+    fingerprint?: string;
+    bundle?: ExportBundle;
+    sealed?: EncryptedPayload;
+}
+
+// What is sealed when the vault is on; snapshots from older builds sealed only the bundle
+interface SnapshotContents {
+    bundle: ExportBundle;
+    fingerprint?: string;
+}
+
+export const SNAPSHOT_REASON_LABELS: Record<SnapshotReason, string> = {
+    scheduled: 'Automatic',
+    manual: 'Manual',
+    'before-restore': 'Before restore',
+};
+
+const fingerprintOf = async (lectures: LectureData[]): Promise<string> => {
+    const sorted = [...lectures].sort((a, b) => a.id.localeCompare(b.id));
+    return sha256Hex(JSON.stringify(sorted));
+};
+
+const isSnapshotContents = (value: SnapshotContents | ExportBundle): value is SnapshotContents => 'bundle' in value;
+
+const openSnapshot = async (record: SnapshotRecord, key: CryptoKey | null): Promise<SnapshotContents> => {
+    if (!record.sealed) return { bundle: record.bundle!, fingerprint: record.fingerprint };
+    if (!key) throw new Error("This snapshot is encrypted but encryption is disabled");
+    const contents = await decryptJson<SnapshotContents | ExportBundle>(key, record.sealed);
+    return isSnapshotContents(contents) ? contents : { bundle: contents, fingerprint: record.fingerprint };
+};
+
+const sealSnapshot = async ({ bundle, sealed, fingerprint, ...info }: SnapshotRecord, contents: SnapshotContents, key: CryptoKey | null): Promise<SnapshotRecord> =>
+    key ? { ...info, sealed: await encryptJson(key, contents) } : { ...info, ...contents };
+
+const toInfo = ({ id, createdAt, reason, lectureCount, size }: SnapshotRecord): SnapshotInfo => ({ id, createdAt, reason, lectureCount, size });
+
+const getAllSnapshotRecords = async (): Promise<SnapshotRecord[]> => {
+    const db = await openDb();
+    const store = db.transaction(STORE_SNAPSHOTS).objectStore(STORE_SNAPSHOTS);
+    const records = await requestToPromise<SnapshotRecord[]>(store.index('createdAt').getAll());
+    return records.reverse();
+};
+
+// Newest first
+export const getSnapshots = async (): Promise<SnapshotInfo[]> => {
+    return (await getAllSnapshotRecords()).map(toInfo);
+};
+
+// Whether the newest scheduled snapshot is older than the interval (0 = automatic backups off)
+export const isBackupDue = async (intervalHours: number): Promise<boolean> => {
+    if (intervalHours <= 0) return false;
+    const latest = (await getAllSnapshotRecords()).find(s => s.reason === 'scheduled');
+    if (!latest) return true;
+    return Date.now() - new Date(latest.createdAt).getTime() >= intervalHours * 60 * 60 * 1000;
+};
+
+// Stores a copy of the given lectures and drops the oldest snapshots of the same reason beyond
+// keepCount, so automatic snapshots never rotate out manual or before-restore ones.
+// Returns null when a scheduled snapshot would be identical to the newest one.
+export const createSnapshot = async (lectures: LectureData[], reason: SnapshotReason, keepCount: number): Promise<SnapshotInfo | null> => {
+    const key = getVaultKey();
+    const fingerprint = await fingerprintOf(lectures);
+    const existing = await getAllSnapshotRecords();
+    if (reason === 'scheduled' && existing[0] && (await openSnapshot(existing[0], key)).fingerprint === fingerprint) return null;
+
+    const bundle = createBundle(lectures);
+    // Encrypted alongside the library when the vault is on
+    const record = await sealSnapshot({
+        id: uuidv4(),
+        createdAt: new Date().toISOString(),
+        reason,
+        lectureCount: lectures.length,
+        size: new Blob([JSON.stringify(bundle)]).size,
+    }, { bundle, fingerprint }, key);
+
+    const db = await openDb();
+    const tx = db.transaction(STORE_SNAPSHOTS, 'readwrite');
+    const store = tx.objectStore(STORE_SNAPSHOTS);
+    store.put(record);
+    existing
+        .filter(old => old.reason === reason)
+        .slice(Math.max(0, keepCount - 1))
+        .forEach(old => store.delete(old.id));
+    await transactionDone(tx);
+    return toInfo(record);
+};
+
+// Lectures contained in a snapshot, upgraded to the current schema
+export const getSnapshotLectures = async (id: string): Promise<LectureData[]> => {
+    const db = await openDb();
+    const store = db.transaction(STORE_SNAPSHOTS).objectStore(STORE_SNAPSHOTS);
+    const record = await requestToPromise<SnapshotRecord | undefined>(store.get(id));
+    if (!record) throw new Error("Snapshot not found");
+
+    const { bundle } = await openSnapshot(record, record.sealed ? getVaultKey() : null);
+    return readBundle(bundle);
+};
+
+export const deleteSnapshot = async (id: string): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction(STORE_SNAPSHOTS, 'readwrite');
+    tx.objectStore(STORE_SNAPSHOTS).delete(id);
+    await transactionDone(tx);
+};
+
+// Re-encrypts every snapshot when the library key changes (null = plaintext)
+export const resealSnapshots = async (fromKey: CryptoKey | null, toKey: CryptoKey | null): Promise<void> => {
+    const records = await getAllSnapshotRecords();
+    const resealed = await Promise.all(records.map(async (record): Promise<SnapshotRecord> => {
+        // Sealed with a key we don't have; left as it is
+        if (record.sealed && !fromKey) return record;
+        return sealSnapshot(record, await openSnapshot(record, fromKey), toKey);
+    }));
+
+    const db = await openDb();
+    const tx = db.transaction(STORE_SNAPSHOTS, 'readwrite');
+    const store = tx.objectStore(STORE_SNAPSHOTS);
+    resealed.forEach(record => store.put(record));
+    await transactionDone(tx);
+};
@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { GenerationParams } from '../types';
+import { CacheLecture, getCacheKey } from './cacheService';
+import { setOverride } from './promptService';
+import { updateSettings } from './settingsService';
+
+const PARAMS: GenerationParams = { flashcardCount: 10, quizCount: 5, difficulty: 'balanced', audience: 'intermediate', noteLength: 'standard', mindMapDepth: 3 };
+
+const LECTURE: CacheLecture = { id: 'a', tags: ['math'], transcriptText: 'Hello' };
+
+beforeEach(() => {
+    // Settings and prompt overrides live in localStorage
+    const items = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => { items.set(key, value); },
+        removeItem: (key: string) => { items.delete(key); },
+    });
+});
+
+describe('getCacheKey', () => {
+    it('is the same for the same transcript, prompt and model', async () => {
+        // Lectures with the same transcript share results, whatever their id
+        expect(await getCacheKey('summary', LECTURE, PARAMS)).toBe(await getCacheKey('summary', { ...LECTURE, id: 'b' }, PARAMS));
+    });
+
+    it('changes with the transcript, the artifact and the model', async () => {
+        const key = await getCacheKey('summary', LECTURE, PARAMS);
+
+        expect(await getCacheKey('summary', { ...LECTURE, transcriptText: 'Bye' }, PARAMS)).not.toBe(key);
+        expect(await getCacheKey('notes', LECTURE, PARAMS)).not.toBe(key);
+        updateSettings({ geminiModel: 'gemini-other' });
+        expect(await getCacheKey('summary', LECTURE, PARAMS)).not.toBe(key);
+    });
+
+    it('only changes with the parameters the artifact uses', async () => {
+        const key = await getCacheKey('flashcards', LECTURE, PARAMS);
+
+        expect(await getCacheKey('flashcards', LECTURE, { ...PARAMS, quizCount: 20 })).toBe(key);
+        expect(await getCacheKey('flashcards', LECTURE, { ...PARAMS, flashcardCount: 20 })).not.toBe(key);
+    });
+
+    it('changes with the output language', async () => {
+        expect(await getCacheKey('summary', { ...LECTURE, outputLanguage: 'German' }, PARAMS)).not.toBe(await getCacheKey('summary', LECTURE, PARAMS));
+    });
+
+    it('changes with an edited template that applies to the lecture', async () => {
+        const key = await getCacheKey('summary', LECTURE, PARAMS);
+
+        setOverride({ kind: 'tag', tag: 'history' }, 'summary', 'Summarize {{transcript}}');
+        expect(await getCacheKey('summary', LECTURE, PARAMS)).toBe(key);
+
+        setOverride({ kind: 'tag', tag: 'math' }, 'summary', 'Summarize {{transcript}}');
+        const edited = await getCacheKey('summary', LECTURE, PARAMS);
+        expect(edited).not.toBe(key);
+
+        setOverride({ kind: 'tag', tag: 'math' }, 'summary', 'Summarize briefly {{transcript}}');
+        expect(await getCacheKey('summary', LECTURE, PARAMS)).not.toBe(edited);
+    });
+});
@@ -0,0 +1,146 @@
+import { GeneratedArtifact, ArtifactContent, GenerationResult, GenerationParams } from '../types';
+import { openDb, requestToPromise, transactionDone, STORE_GENERATIONS } from './db';
+import { EncryptedPayload, getVaultKey, encryptJson, decryptJson, sha256Hex } from './cryptoService';
+import { getModelId } from './llmProvider';
+import { getPromptVersion, GenerationLecture } from './geminiService';
+import { resolveTemplate } from './promptService';
+import * as SettingsService from './settingsService';
+
+// Cache of generated artifacts keyed by what produced them: the transcript's hash, the
+// artifact, the prompt version, parameters and language (plus the edited template, if any)
+// and the model. Results are sealed like lecture records when the library is encrypted.
+
+interface CacheRecord {
+    key: string;
+    artifact: GeneratedArtifact;
+    usedAt: number; // epoch ms, for least-recently-used eviction
+    size: number; // approximate bytes of the stored result
+    value?: GenerationResult<ArtifactContent>;
+    sealed?: EncryptedPayload;
+}
+
+export interface CacheStats {
+    entries: number;
+    bytes: number;
+}
+
+// The lecture the cached result is generated for; besides the transcript, its id, tags and
+// output language decide the prompt
+export type CacheLecture = GenerationLecture & { transcriptText: string };
+
+export const getCacheKey = async (artifact: GeneratedArtifact, lecture: CacheLecture, params?: GenerationParams): Promise<string> => {
+    // Whole-artifact prompts share their artifact's id
+    const { template, source } = resolveTemplate(artifact, lecture);
+    const version = getPromptVersion(artifact, params, lecture);
+    const prompt = source ? `${version}+${(await sha256Hex(template)).slice(0, 16)}` : version;
+    return [await sha256Hex(lecture.transcriptText), artifact, prompt, getModelId(artifact)].join('|');
+};
+
+const getStore = async (mode: IDBTransactionMode) => {
+    const db = await openDb();
+    const tx = db.transaction(STORE_GENERATIONS, mode);
+    return { tx, store: tx.objectStore(STORE_GENERATIONS) };
+};
+
+const getLimitBytes = () => SettingsService.getSettings().generationCacheLimitMb * 1024 * 1024;
+
+// Entries that can't be opened (sealed with another key, or with encryption since turned off) count as misses
+const openValue = async (record: CacheRecord): Promise<GenerationResult<ArtifactContent> | null> => {
+    if (!record.sealed) return record.value || null;
+    const key = getVaultKey();
+    if (!key) return null;
+    try {
+        return await decryptJson<GenerationResult<ArtifactContent>>(key, record.sealed);
+    } catch (e) {
+        console.warn("Ignoring unreadable cache entry", e);
+        return null;
+    }
+};
+
+const getCached = async (key: string): Promise<GenerationResult<ArtifactContent> | null> => {
+    const { store } = await getStore('readonly');
+    const record = await requestToPromise<CacheRecord | undefined>(store.get(key));
+    if (!record) return null;
+
+    const value = await openValue(record);
+    if (value) {
+        // Touch it so it is evicted last
+        const { tx, store: writeStore } = await getStore('readwrite');
+        writeStore.put({ ...record, usedAt: Date.now() });
+        await transactionDone(tx);
+    }
+    return value;
+};
+
+// Drops the least recently used entries until the cache fits its limit
+const evict = async (limitBytes: number) => {
+    const { tx, store } = await getStore('readwrite');
+    const records = await requestToPromise<CacheRecord[]>(store.index('usedAt').getAll());
+    let total = records.reduce((sum, r) => sum + r.size, 0);
+    for (const record of records) {
+        if (total <= limitBytes) break;
+        store.delete(record.key);
+        total -= record.size;
+    }
+    await transactionDone(tx);
+};
+
+const putCached = async (key: string, artifact: GeneratedArtifact, value: GenerationResult<ArtifactContent>) => {
+    const limitBytes = getLimitBytes();
+    const size = JSON.stringify(value).length;
+    if (size > limitBytes) return;
+
+    // Sealed before the transaction opens, since awaiting WebCrypto would let it auto-commit
+    const vaultKey = getVaultKey();
+    const record: CacheRecord = vaultKey
+        ? { key, artifact, usedAt: Date.now(), size, sealed: await encryptJson(vaultKey, value) }
+        : { key, artifact, usedAt: Date.now(), size, value };
+
+    const { tx, store } = await getStore('readwrite');
+    store.put(record);
+    await transactionDone(tx);
+    await evict(limitBytes);
+};
+
+// Returns the cached result for this lecture's transcript, artifact, prompt and model, or generates
+// and caches it. `force` skips the lookup but still refreshes the cache; `params` are the
+// generation parameters `generate` uses (the remembered defaults if omitted). Results with
+// failed transcript parts are not cached so a later run can fill the gaps.
+export const generateWithCache = async <T extends ArtifactContent>(
+    artifact: GeneratedArtifact,
+    lecture: CacheLecture,
+    generate: () => Promise<GenerationResult<T>>,
+    { force = false, params }: { force?: boolean; params?: GenerationParams } = {}
+): Promise<{ result: GenerationResult<T>; fromCache: boolean }> => {
+    if (getLimitBytes() <= 0) return { result: await generate(), fromCache: false };
+
+    const key = await getCacheKey(artifact, lecture, params);
+    if (!force) {
+        const cached = await getCached(key).catch(e => {
+            console.warn("Generation cache lookup failed", e);
+            return null;
+        });
+        if (cached) return { result: cached as GenerationResult<T>, fromCache: true };
+    }
+
+    const result = await generate();
+    if (result.coverage.failedSegments === 0) {
+        await putCached(key, artifact, result).catch(e => console.warn("Could not cache the generation", e));
+    }
+    return { result, fromCache: false };
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+    const { store } = await getStore('readonly');
+    const records = await requestToPromise<CacheRecord[]>(store.getAll());
+    return { entries: records.length, bytes: records.reduce((sum, r) => sum + r.size, 0) };
+};
+
+// Applies a lowered size limit right away instead of on the next write
+export const trimGenerationCache = (): Promise<void> => evict(getLimitBytes());
+
+export const clearGenerationCache = async (): Promise<void> => {
+    const { tx, store } = await getStore('readwrite');
+    store.clear();
+    await transactionDone(tx);
+};
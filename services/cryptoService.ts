@@ -0,0 +1,175 @@
+// WebCrypto helpers for the optional passphrase mode: AES-GCM with a PBKDF2-derived key.
+const PBKDF2_ITERATIONS = 600000;
+const VAULT_KEY = 'ezi_vault';
+const VAULT_CHECK = 'ezi-vault-check';
+
+export class WrongPassphraseError extends Error {
+    constructor() {
+        super("Wrong passphrase. Please check it and try again.");
+        this.name = 'WrongPassphraseError';
+    }
+}
+
+export class LibraryLockedError extends Error {
+    constructor() {
+        super("The library is locked. Unlock it with your passphrase first.");
+        this.name = 'LibraryLockedError';
+    }
+}
+
+export interface EncryptedPayload {
+    iv: string; // base64
+    data: string; // base64 ciphertext
+}
+
+// Self-contained payload that carries everything needed to derive its key
+export interface PassphraseEnvelope extends EncryptedPayload {
+    salt: string; // base64
+    iterations: number;
+}
+
+interface VaultDescriptor {
+    salt: string;
+    iterations: number;
+    check: EncryptedPayload;
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    // Chunked to stay under the argument limit of String.fromCharCode
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const fromBase64 = (base64: string): Uint8Array => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+};
+
+// Hex SHA-256 digest, used to recognise identical content
+export const sha256Hex = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+export const encryptJson = async (key: CryptoKey, value: unknown): Promise<EncryptedPayload> => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const plaintext = new TextEncoder().encode(JSON.stringify(value));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+    return { iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) };
+};
+
+export const decryptJson = async <T>(key: CryptoKey, payload: EncryptedPayload): Promise<T> => {
+    let plaintext: ArrayBuffer;
+    try {
+        plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data));
+    } catch (e) {
+        // AES-GCM authentication fails with an OperationError when the key is wrong
+        throw new WrongPassphraseError();
+    }
+    return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+};
+
+// Binary payloads such as recordings are kept binary rather than base64
+export interface EncryptedBytes {
+    iv: string; // base64
+    data: ArrayBuffer;
+}
+
+export const encryptBytes = async (key: CryptoKey, bytes: ArrayBuffer): Promise<EncryptedBytes> => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    return { iv: toBase64(iv), data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes) };
+};
+
+export const decryptBytes = async (key: CryptoKey, payload: EncryptedBytes): Promise<ArrayBuffer> => {
+    try {
+        return await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, payload.data);
+    } catch (e) {
+        throw new WrongPassphraseError();
+    }
+};
+
+export const encryptWithPassphrase = async (passphrase: string, value: unknown): Promise<PassphraseEnvelope> => {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    return { ...(await encryptJson(key, value)), salt: toBase64(salt), iterations: PBKDF2_ITERATIONS };
+};
+
+export const decryptWithPassphrase = async <T>(passphrase: string, envelope: PassphraseEnvelope): Promise<T> => {
+    const key = await deriveKey(passphrase, fromBase64(envelope.salt), envelope.iterations);
+    return decryptJson<T>(key, envelope);
+};
+
+// --- Library vault ---
+// The descriptor (salt + an encrypted check value) lives in localStorage; the derived key only in memory.
+
+let vaultKey: CryptoKey | null = null;
+
+const getVaultDescriptor = (): VaultDescriptor | null => {
+    const existingStr = localStorage.getItem(VAULT_KEY);
+    if (!existingStr) return null;
+    try {
+        return JSON.parse(existingStr);
+    } catch (e) {
+        console.error("Error parsing vault descriptor", e);
+        return null;
+    }
+};
+
+export const isVaultEnabled = (): boolean => getVaultDescriptor() !== null;
+
+export const isVaultLocked = (): boolean => isVaultEnabled() && vaultKey === null;
+
+// Key for sealing records, or null when encryption is off
+export const getVaultKey = (): CryptoKey | null => {
+    if (!isVaultEnabled()) return null;
+    if (!vaultKey) throw new LibraryLockedError();
+    return vaultKey;
+};
+
+export const unlockVault = async (passphrase: string): Promise<void> => {
+    const descriptor = getVaultDescriptor();
+    if (!descriptor) return;
+    const key = await deriveKey(passphrase, fromBase64(descriptor.salt), descriptor.iterations);
+    // Throws WrongPassphraseError if the key can't open the check value
+    await decryptJson(key, descriptor.check);
+    vaultKey = key;
+};
+
+export const lockVault = (): void => {
+    vaultKey = null;
+};
+
+export const createVault = async (passphrase: string): Promise<void> => {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const descriptor: VaultDescriptor = {
+        salt: toBase64(salt),
+        iterations: PBKDF2_ITERATIONS,
+        check: await encryptJson(key, VAULT_CHECK),
+    };
+    localStorage.setItem(VAULT_KEY, JSON.stringify(descriptor));
+    vaultKey = key;
+};
+
+export const removeVault = (): void => {
+    localStorage.removeItem(VAULT_KEY);
+    vaultKey = null;
+};
@@ -0,0 +1,89 @@
+// Shared IndexedDB connection used by the persistence services.
+const DB_NAME = 'ezi';
+const DB_VERSION = 6;
+
+export const STORE_LECTURES = 'lectures';
+export const STORE_SNAPSHOTS = 'snapshots';
+export const STORE_GENERATIONS = 'generations';
+export const STORE_USAGE = 'usage';
+export const STORE_AUDIO = 'audio';
+export const STORE_AUDIO_CHUNKS = 'audioChunks';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+    if (oldVersion < 1) {
+        // One record per lecture, indexed for date ordering and tag lookups.
+        // The tags index only covers unencrypted libraries: sealed records keep just id and
+        // date in the clear, so it is empty while encryption is on. Filter tags in memory.
+        const lectures = db.createObjectStore(STORE_LECTURES, { keyPath: 'id' });
+        lectures.createIndex('date', 'date');
+        lectures.createIndex('tags', 'tags', { multiEntry: true });
+    }
+    if (oldVersion < 2) {
+        // Backup copies of the whole library, kept apart from the live records
+        const snapshots = db.createObjectStore(STORE_SNAPSHOTS, { keyPath: 'id' });
+        snapshots.createIndex('createdAt', 'createdAt');
+    }
+    if (oldVersion < 3) {
+        // Cached AI results, evicted least recently used first
+        const generations = db.createObjectStore(STORE_GENERATIONS, { keyPath: 'key' });
+        generations.createIndex('usedAt', 'usedAt');
+    }
+    if (oldVersion < 4) {
+        // One record per AI call, for the usage dashboard and per-lecture totals
+        const usage = db.createObjectStore(STORE_USAGE, { keyPath: 'id' });
+        usage.createIndex('at', 'at');
+        usage.createIndex('lectureId', 'lectureId');
+    }
+    if (oldVersion < 5) {
+        // Raw audio of recorded sessions, stored as blobs next to the lecture records
+        const audio = db.createObjectStore(STORE_AUDIO, { keyPath: 'sessionId' });
+        audio.createIndex('lectureId', 'lectureId');
+    }
+    if (oldVersion < 6) {
+        // Recordings written as they are made, ten seconds per record; `audio` keeps one
+        // record per session describing them
+        db.createObjectStore(STORE_AUDIO_CHUNKS, { keyPath: ['sessionId', 'seq'] });
+    }
+};
+
+export const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (e) => upgrade(request.result, e.oldVersion);
+            request.onsuccess = () => {
+                const db = request.result;
+                // Another tab is upgrading the schema; release our handle so it can proceed
+                db.onversionchange = () => {
+                    db.close();
+                    dbPromise = null;
+                };
+                resolve(db);
+            };
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+// Promisify a single IDB request
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+// Resolves once the transaction has committed, so callers know the data is durable
+export const transactionDone = (tx: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+    });
+};
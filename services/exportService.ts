@@ -0,0 +1,47 @@
+import { LectureData } from '../types';
+
+// Narrows which lectures a partial export offers
+export interface ExportFilter {
+    tag: string | null;
+    from: string; // yyyy-mm-dd, inclusive; '' = open
+    to: string;   // yyyy-mm-dd, inclusive; '' = open
+    hasFlashcards: boolean;
+}
+
+// What each exported lecture carries besides its transcript
+export interface ExportOptions {
+    includeChat: boolean;
+    includeGenerated: boolean;
+}
+
+export const EMPTY_FILTER: ExportFilter = { tag: null, from: '', to: '', hasFlashcards: false };
+
+export const matchesExportFilter = (lecture: LectureData, filter: ExportFilter): boolean => {
+    if (filter.tag && !lecture.tags?.includes(filter.tag)) return false;
+    // Compare local calendar days, which is what the date inputs show
+    const day = new Date(lecture.date).toLocaleDateString('en-CA');
+    if (filter.from && day < filter.from) return false;
+    if (filter.to && day > filter.to) return false;
+    if (filter.hasFlashcards && !lecture.flashcards?.length) return false;
+    return true;
+};
+
+// Copies of the lectures with the excluded parts removed
+export const prepareExport = (lectures: LectureData[], options: ExportOptions): LectureData[] => {
+    return lectures.map(lecture => {
+        const copy: LectureData = { ...lecture };
+        if (!options.includeChat) {
+            delete copy.chatHistory;
+        }
+        if (!options.includeGenerated) {
+            delete copy.summary;
+            delete copy.flashcards;
+            delete copy.quiz;
+            delete copy.studyNotes;
+            delete copy.mindmap;
+            delete copy.revisions;
+            delete copy.coverage;
+        }
+        return copy;
+    });
+};
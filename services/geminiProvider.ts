@@ -0,0 +1,147 @@
+import { GoogleGenAI, Type, Content, Schema as GeminiSchema, GenerateContentResponse } from "@google/genai";
+import type { JsonRequest, LlmProvider, Schema, TextListener, UsageListener } from './llmProvider';
+import * as SettingsService from './settingsService';
+import { abortError, isAbortError, estimateTokens, withNetworkErrors } from './requestService';
+
+const getAiClient = () => {
+    if (!process.env.API_KEY) {
+        throw new Error("API Key is missing");
+    }
+    return new GoogleGenAI({ apiKey: process.env.API_KEY });
+};
+
+// Gemini spells schema types in upper case
+const toGeminiSchema = (schema: Schema): GeminiSchema => ({
+    type: schema.type.toUpperCase() as Type,
+    description: schema.description,
+    enum: schema.enum,
+    items: schema.items && toGeminiSchema(schema.items),
+    properties: schema.properties && Object.fromEntries(
+        Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    ),
+});
+
+// Thinking tokens are billed as output
+const reportUsage = (response: GenerateContentResponse | undefined, onUsage?: UsageListener) => {
+    const usage = response?.usageMetadata;
+    if (!usage || !onUsage) return;
+    onUsage({
+        inputTokens: usage.promptTokenCount || 0,
+        outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+    });
+};
+
+// Accumulates a response stream, reporting the text after every chunk. Usage comes with
+// the last chunks, each carrying the running totals. A stream that is stopped or breaks off
+// before then has used tokens all the same, so they are estimated from the prompt and text.
+const collectStream = async (stream: AsyncGenerator<GenerateContentResponse>, prompt: string, onText: TextListener, signal?: AbortSignal, onUsage?: UsageListener): Promise<string> => {
+    let text = '';
+    let last: GenerateContentResponse | undefined;
+    try {
+        while (true) {
+            const { value: chunk, done } = await withNetworkErrors(stream.next());
+            if (done) break;
+            if (signal?.aborted) throw abortError();
+            if (chunk.usageMetadata) last = chunk;
+            if (!chunk.text) continue;
+            text += chunk.text;
+            onText(text);
+        }
+    } finally {
+        if (last) {
+            reportUsage(last, onUsage);
+        } else {
+            onUsage?.({ inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(text) });
+        }
+    }
+    return text;
+};
+
+// The SDK passes fetch's rejections through unchanged, so its calls are wrapped the same
+// way the OpenAI provider wraps fetch
+export const createGeminiProvider = (): LlmProvider => {
+    const ai = getAiClient();
+    const model = SettingsService.getSettings().geminiModel;
+
+    return {
+        id: 'gemini',
+
+        generateText: async ({ prompt, systemInstruction, signal, onUsage }) => {
+            const response = await withNetworkErrors(ai.models.generateContent({
+                model,
+                contents: prompt,
+                config: { systemInstruction, abortSignal: signal },
+            }));
+            reportUsage(response, onUsage);
+            if (!response.text) throw new Error("Gemini returned an empty response");
+            return response.text;
+        },
+
+        streamText: async ({ prompt, systemInstruction, signal, onUsage }, onText) => {
+            const stream = await withNetworkErrors(ai.models.generateContentStream({
+                model,
+                contents: prompt,
+                config: { systemInstruction, abortSignal: signal },
+            }));
+            const text = await collectStream(stream, (systemInstruction || '') + prompt, onText, signal, onUsage);
+            if (!text) throw new Error("Gemini returned an empty response");
+            return text;
+        },
+
+        generateJson: async <T>({ prompt, systemInstruction, schema, signal, onUsage }: JsonRequest) => {
+            const response = await withNetworkErrors(ai.models.generateContent({
+                model,
+                contents: prompt,
+                config: {
+                    systemInstruction,
+                    abortSignal: signal,
+                    responseMimeType: "application/json",
+                    responseSchema: toGeminiSchema(schema),
+                },
+            }));
+            reportUsage(response, onUsage);
+            if (!response.text) throw new Error("Gemini returned an empty response");
+            return JSON.parse(response.text) as T;
+        },
+
+        createChat: ({ systemInstruction, history, onUsage }) => {
+            const formattedHistory: Content[] = history.map(msg => ({
+                role: msg.role,
+                parts: [{ text: msg.text }]
+            }));
+            let chat = ai.chats.create({ model, history: formattedHistory, config: { systemInstruction } });
+            return {
+                sendMessage: async (message) => {
+                    const response = await withNetworkErrors(chat.sendMessage({ message }));
+                    reportUsage(response, onUsage);
+                    return response.text || '';
+                },
+                sendMessageStream: async (message, onText, signal) => {
+                    let partial = '';
+                    try {
+                        const stream = await withNetworkErrors(chat.sendMessageStream({ message, config: { systemInstruction, abortSignal: signal } }));
+                        return await collectStream(stream, systemInstruction + message, text => {
+                            partial = text;
+                            onText(text);
+                        }, signal, onUsage);
+                    } catch (e) {
+                        // A stopped reply stays in the conversation as far as it got, like in the
+                        // OpenAI chat. The SDK only records finished turns, so the chat is rebuilt.
+                        if (isAbortError(e) && partial) {
+                            chat = ai.chats.create({
+                                model,
+                                history: [
+                                    ...chat.getHistory(true),
+                                    { role: 'user', parts: [{ text: message }] },
+                                    { role: 'model', parts: [{ text: partial }] },
+                                ],
+                                config: { systemInstruction },
+                            });
+                        }
+                        throw e;
+                    }
+                },
+            };
+        },
+    };
+};
@@ -1,364 +1,535 @@
-import { GoogleGenAI, Type, Chat, Content } from "@google/genai";
-import { Flashcard, QuizQuestion, SummaryData, ChatMessage } from '../types';
+import { Flashcard, QuizQuestion, SummaryData, ChatMessage, GenerationResult, GeneratedArtifact, ArtifactContent, LectureData, GenerationParams, DifficultyMix, AudienceLevel, NoteLength } from '../types';
+import { getProvider, LlmChat, LlmProvider, JsonRequest, Schema, TextListener, TextRequest } from './llmProvider';
+import { mapSegments, segmentContext, splitTranscript, dedupeBy, dedupeFlashcards, dedupeQuiz } from './segmentService';
+import { Checked, checkSummary, checkFlashcards, checkQuiz, checkMainPoints, checkKeyTerms, combineChecks, isAcceptable } from './validationService';
+import { PromptId, PromptLecture, renderPrompt, renderTemplate, resolveTemplate } from './promptService';
+import * as SettingsService from './settingsService';
 
-const getAiClient = () => {
-    if (!process.env.API_KEY) {
-        throw new Error("API Key is missing");
-    }
-    return new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Response shapes and request logic for every AI feature; the prompt texts are templates
+// in promptService. Requests go through the provider selected for each task in settings
+// (Gemini by default).
+
+// Bump an artifact's version when its prompts or post-processing change, so cached
+// results from the old version are no longer reused
+const PROMPT_VERSIONS: Record<GeneratedArtifact, number> = {
+    summary: 3,
+    flashcards: 3,
+    quiz: 3,
+    notes: 3,
+    mindmap: 3,
 };
 
-// Use the Flash model for everything to ensure speed and stay within free tier quotas
-const MODEL_FAST = 'gemini-2.5-flash';
-const MODEL_COMPLEX = 'gemini-2.5-flash'; // Changed from gemini-3-pro-preview to avoid 429 errors
+// Parameters each artifact's prompt uses, so changing one only invalidates the artifacts it affects
+const ARTIFACT_PARAMS: Record<GeneratedArtifact, (keyof GenerationParams)[]> = {
+    summary: ['audience'],
+    flashcards: ['flashcardCount', 'difficulty', 'audience'],
+    quiz: ['quizCount', 'difficulty', 'audience'],
+    notes: ['noteLength', 'audience'],
+    mindmap: ['mindMapDepth'],
+};
 
-export const generateSummary = async (transcript: string): Promise<SummaryData> => {
-    const ai = getAiClient();
-    
-    const response = await ai.models.generateContent({
-        model: MODEL_FAST,
-        contents: `Create a comprehensive structured summary of the following lecture transcript.
-        
-        TRANSCRIPT:
-        ${transcript.slice(0, 30000)}`, // Limit context window safely
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
+// Parameters passed in, or the ones last chosen in the generation modal
+const resolveParams = (params?: GenerationParams): GenerationParams => params || SettingsService.getSettings().generationParams;
+
+// The lecture fields that shape its prompts: overrides by id and tag, and the output language
+export type GenerationLecture = PromptLecture & Pick<LectureData, 'outputLanguage' | 'bilingual'>;
+
+// Bilingual mode only applies when the output language differs from the transcript's
+const isBilingual = (lecture?: GenerationLecture): boolean => !!(lecture?.bilingual && lecture.outputLanguage);
+
+const BILINGUAL_ARTIFACTS: GeneratedArtifact[] = ['summary', 'flashcards'];
+
+export const getPromptVersion = (artifact: GeneratedArtifact, params?: GenerationParams, lecture?: GenerationLecture): string => {
+    const resolved = resolveParams(params);
+    const language = (lecture?.outputLanguage || 'source') + (isBilingual(lecture) && BILINGUAL_ARTIFACTS.includes(artifact) ? '+source' : '');
+    return `v${PROMPT_VERSIONS[artifact]}:${ARTIFACT_PARAMS[artifact].map(key => resolved[key]).join('/')}:${language}`;
+};
+
+// Offered as output languages; generated content can be written in any of them
+export const OUTPUT_LANGUAGES = [
+    'English', 'German', 'French', 'Spanish', 'Italian', 'Portuguese', 'Dutch', 'Polish', 'Czech', 'Swedish',
+    'Turkish', 'Russian', 'Ukrainian', 'Greek', 'Arabic', 'Hebrew', 'Hindi', 'Chinese', 'Japanese', 'Korean',
+    'Vietnamese', 'Indonesian',
+];
+
+export const DIFFICULTY_LABELS: Record<DifficultyMix, string> = {
+    easier: 'Mostly easy',
+    balanced: 'Balanced',
+    harder: 'Mostly hard',
+};
+
+export const AUDIENCE_LABELS: Record<AudienceLevel, string> = {
+    beginner: 'Beginner',
+    intermediate: 'Intermediate',
+    advanced: 'Advanced',
+};
+
+export const NOTE_LENGTH_LABELS: Record<NoteLength, string> = {
+    brief: 'Brief',
+    standard: 'Standard',
+    detailed: 'Detailed',
+};
+
+// Values offered for the numeric parameters
+export const PARAM_CHOICES = {
+    flashcardCount: [5, 10, 15, 20, 30],
+    quizCount: [3, 5, 10, 15, 20],
+    mindMapDepth: [2, 3, 4],
+};
+
+const DIFFICULTY_PROMPTS: Record<DifficultyMix, string> = {
+    easier: 'mostly Easy items with a few Medium ones, testing recall of key facts and definitions',
+    balanced: 'a balanced mix of Easy, Medium and Hard items',
+    harder: 'mostly Medium and Hard items that test application and analysis rather than recall',
+};
+
+const AUDIENCE_PROMPTS: Record<AudienceLevel, string> = {
+    beginner: 'a beginner who is new to the subject, explaining jargon in plain words',
+    intermediate: 'a university student taking this course',
+    advanced: 'an advanced student who knows the basics, focusing on nuance and connections',
+};
+
+const NOTE_LENGTH_PROMPTS: Record<NoteLength, string> = {
+    brief: 'Keep them brief: only the essential points, in short bullets.',
+    standard: 'Cover every topic at a moderate level of detail.',
+    detailed: 'Be thorough: include every definition, example and derivation from the lecture.',
+};
+
+export interface GenerateOptions {
+    signal?: AbortSignal;
+    // Receives the text so far while it streams (text artifacts only)
+    onText?: TextListener;
+    // Lecture whose prompt overrides and output language apply
+    lecture?: GenerationLecture;
+    // Defaults to the parameters last chosen in the generation modal
+    params?: GenerationParams;
+}
+
+// Items requested by the "generate more" actions
+const MORE_FLASHCARDS_COUNT = '5-8';
+const MORE_QUIZ_COUNT = '5';
+// Fewest items asked of each part of a long transcript
+const MIN_FLASHCARDS_PER_SEGMENT = 4;
+const MIN_QUIZ_PER_SEGMENT = 2;
+
+// Longest excerpts sent with single-request prompts
+const MAX_EXISTING_CHARS = 1000;
+const MAX_EXISTING_NOTES_CHARS = 5000;
+const MAX_EXPAND_TRANSCRIPT_CHARS = 30000;
+const MAX_NOTES_TRANSCRIPT_CHARS = 25000;
+const MAX_CHAT_TRANSCRIPT_CHARS = 40000;
+
+const SAME_LANGUAGE = 'the same language as the transcript';
+const QUICK_REVIEW = 'Include a "Quick Review" section at the end.';
+const NO_CONCLUSION = 'Do not add a review or conclusion section.';
+
+const KEY_TERMS_BILINGUAL = "For every key term, also fill 'sourceTerm' and 'sourceDefinition' with the term and its definition in the transcript's original language.";
+const FLASHCARDS_BILINGUAL = "Also fill 'sourceFront' and 'sourceBack' with the same card in the transcript's original language.";
+
+const BILINGUAL_INSTRUCTIONS: Partial<Record<PromptId, string>> = {
+    summary: KEY_TERMS_BILINGUAL,
+    summaryExpand: KEY_TERMS_BILINGUAL,
+    flashcards: FLASHCARDS_BILINGUAL,
+    flashcardsMore: FLASHCARDS_BILINGUAL,
+};
+
+const outputLanguage = (lecture?: GenerationLecture) => lecture?.outputLanguage || SAME_LANGUAGE;
+
+// Variables every prompt can use
+const baseVariables = (id: PromptId, params?: GenerationParams, lecture?: GenerationLecture): Record<string, string> => {
+    const resolved = resolveParams(params);
+    return {
+        language: outputLanguage(lecture),
+        bilingual: isBilingual(lecture) ? BILINGUAL_INSTRUCTIONS[id] || '' : '',
+        difficulty: DIFFICULTY_PROMPTS[resolved.difficulty],
+        audience: AUDIENCE_PROMPTS[resolved.audience],
+        length: NOTE_LENGTH_PROMPTS[resolved.noteLength],
+        depth: String(resolved.mindMapDepth),
+    };
+};
+
+// Splits a requested total across the parts of a long transcript
+const countPerSegment = (total: number, segments: number, min: number): string => {
+    return String(segments === 1 ? total : Math.max(min, Math.ceil(total / segments)));
+};
+
+const existingFronts = (cards: Flashcard[]) => cards.map(c => c.front).join("; ").slice(0, MAX_EXISTING_CHARS);
+const existingQuestions = (questions: QuizQuestion[]) => questions.map(q => q.question).join("; ").slice(0, MAX_EXISTING_CHARS);
+const summaryVariables = (summary: SummaryData) => ({
+    existingPoints: summary.mainPoints.join('\n'),
+    existingTerms: summary.keyTerms.map(k => k.term).join(', '),
+});
+const chatTranscript = (transcript: string) => transcript ? transcript.slice(0, MAX_CHAT_TRANSCRIPT_CHARS) : "No transcript available.";
+
+const SUMMARY_SCHEMA: Schema = {
+    type: 'object',
+    properties: {
+        overview: { type: 'string', description: "2-3 sentence overview" },
+        mainPoints: { 
+            type: 'array', 
+            items: { type: 'string' },
+            description: "5-7 main bullet points"
+        },
+        keyTerms: {
+            type: 'array', 
+            items: {
+                type: 'object',
                 properties: {
-                    overview: { type: Type.STRING, description: "2-3 sentence overview" },
-                    mainPoints: { 
-                        type: Type.ARRAY, 
-                        items: { type: Type.STRING },
-                        description: "5-7 main bullet points"
-                    },
-                    keyTerms: {
-                        type: Type.ARRAY, 
-                        items: {
-                            type: Type.OBJECT,
-                            properties: {
-                                term: { type: Type.STRING },
-                                definition: { type: Type.STRING }
-                            }
-                        }
-                    }
+                    term: { type: 'string' },
+                    definition: { type: 'string' },
+                    sourceTerm: { type: 'string', description: "Only when asked: the term in the transcript's language" },
+                    sourceDefinition: { type: 'string', description: "Only when asked: the definition in the transcript's language" }
                 }
             }
         }
-    });
-
-    if (response.text) {
-        return JSON.parse(response.text) as SummaryData;
     }
-    throw new Error("Failed to generate summary");
 };
 
-export const expandSummary = async (transcript: string, currentSummary: SummaryData): Promise<SummaryData> => {
-    const ai = getAiClient();
-    
-    const response = await ai.models.generateContent({
-        model: MODEL_FAST,
-        contents: `I have a summary of a lecture but I need to expand it with more details.
-        
-        CURRENT MAIN POINTS:
-        ${currentSummary.mainPoints.join('\n')}
-        
-        CURRENT KEY TERMS:
-        ${currentSummary.keyTerms.map(k => k.term).join(', ')}
-        
-        TASK:
-        1. Identify 3-5 NEW main points or details from the transcript that are missing above.
-        2. Identify 4-6 NEW key terms/definitions from the transcript that are missing above.
-        3. Do NOT change the overview.
-        
-        TRANSCRIPT:
-        ${transcript.slice(0, 30000)}`,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    newMainPoints: { 
-                        type: Type.ARRAY, 
-                        items: { type: Type.STRING },
-                        description: "Additional bullet points"
-                    },
-                    newKeyTerms: {
-                        type: Type.ARRAY, 
-                        items: {
-                            type: Type.OBJECT,
-                            properties: {
-                                term: { type: Type.STRING },
-                                definition: { type: Type.STRING }
-                            }
-                        }
-                    }
-                }
-            }
+const FLASHCARDS_SCHEMA: Schema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            front: { type: 'string', description: "The question or term on the front of the card" },
+            back: { type: 'string', description: "The answer or definition on the back of the card" },
+            sourceFront: { type: 'string', description: "Only when asked: the front in the transcript's language" },
+            sourceBack: { type: 'string', description: "Only when asked: the back in the transcript's language" },
+            difficulty: { type: 'string', enum: ["Easy", "Medium", "Hard"] },
+            topic: { type: 'string' }
         }
-    });
+    }
+};
 
-    if (response.text) {
-        const data = JSON.parse(response.text);
-        return {
-            overview: currentSummary.overview,
-            mainPoints: [...currentSummary.mainPoints, ...(data.newMainPoints || [])],
-            keyTerms: [...currentSummary.keyTerms, ...(data.newKeyTerms || [])]
-        };
+const QUIZ_SCHEMA: Schema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            question: { type: 'string' },
+            options: { 
+                type: 'array', 
+                items: { type: 'string' },
+                description: "4 possible answers"
+            },
+            correctAnswer: { type: 'string', description: "Must match one of the options exactly" },
+            explanation: { type: 'string' }
+        }
     }
-    throw new Error("Failed to expand summary");
 };
 
-export const generateFlashcards = async (transcript: string): Promise<Flashcard[]> => {
-    const ai = getAiClient();
-    
-    const response = await ai.models.generateContent({
-        model: MODEL_FAST,
-        contents: `Generate 8-12 study flashcards from this lecture transcript.
-        
-        Instructions:
-        1. The 'front' should be a clear Question or a Key Term to define.
-        2. The 'back' should be the Answer or Definition.
-        3. Ensure content is concise and suitable for rapid review.
-        
-        TRANSCRIPT:
-        ${transcript.slice(0, 30000)}`,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        front: { type: Type.STRING, description: "The question or term on the front of the card" },
-                        back: { type: Type.STRING, description: "The answer or definition on the back of the card" },
-                        difficulty: { type: Type.STRING, enum: ["Easy", "Medium", "Hard"] },
-                        topic: { type: Type.STRING }
-                    }
-                }
+// Attempts per structured request before settling for the best partial result
+const MAX_ASKS = 3;
+
+// Requests JSON and checks it. Unparseable or mostly invalid responses are re-asked with
+// the problems spelled out; repaired and surviving items are returned.
+const generateChecked = async <T>(provider: LlmProvider, request: JsonRequest, check: (raw: unknown) => Checked<T>): Promise<T> => {
+    let best: Checked<T> | null = null;
+    let feedback = '';
+
+    for (let attempt = 1; attempt <= MAX_ASKS; attempt++) {
+        try {
+            const raw = await provider.generateJson<unknown>({ ...request, prompt: request.prompt + feedback });
+            const checked = check(raw);
+            if (checked.repaired > 0 || checked.dropped > 0) {
+                console.warn(`Structured response: ${checked.repaired} repaired, ${checked.dropped} dropped`, checked.issues);
             }
-        }
-    });
+            if (!best || checked.valid > best.valid) best = checked;
+            if (isAcceptable(checked)) return checked.value;
+
+            feedback = `
+
+        YOUR PREVIOUS ANSWER WAS REJECTED. Fix these problems and follow the schema exactly:
+        ${checked.issues.slice(0, 8).join('\n')}`;
+        } catch (e) {
+            if (!(e instanceof SyntaxError)) throw e;
+            feedback = `
 
-    if (response.text) {
-        return JSON.parse(response.text) as Flashcard[];
+        YOUR PREVIOUS ANSWER WAS NOT VALID JSON. Respond with JSON only.`;
+        }
     }
-    throw new Error("Failed to generate flashcards");
+
+    if (best && best.valid > 0) return best.value;
+    throw new Error("The AI response could not be used. Please try again.");
 };
 
-export const generateMoreFlashcards = async (transcript: string, existingCards: Flashcard[]): Promise<Flashcard[]> => {
-    const ai = getAiClient();
-    const existingFronts = existingCards.map(c => c.front).join("; ");
-    
-    const response = await ai.models.generateContent({
-        model: MODEL_FAST,
-        contents: `Generate 5-8 NEW and DISTINCT study flashcards from this lecture transcript.
-        Do NOT repeat the following concepts which are already covered: ${existingFronts.slice(0, 1000)}...
+// Long transcripts are summarized per segment, then the partial summaries are combined
+export const generateSummary = async (transcript: string, { signal, lecture, params }: GenerateOptions = {}): Promise<GenerationResult<SummaryData>> => {
+    const provider = getProvider('summary', lecture?.id);
+
+    const { results, coverage } = await mapSegments(transcript, segment => generateChecked(provider, {
+        prompt: renderPrompt('summary', { ...baseVariables('summary', params, lecture), transcript: segment.text, segmentNote: segmentContext(segment) }, lecture),
+        schema: SUMMARY_SCHEMA,
+        signal
+    }, checkSummary));
+
+    if (results.length === 1) {
+        return { content: results[0], coverage };
+    }
+
+    const merged = await generateChecked(provider, {
+        prompt: `The following are summaries of consecutive parts of one lecture, in order.
+        Combine them into a single summary of the whole lecture.
         
-        Instructions:
-        1. The 'front' should be a clear Question or a Key Term to define.
-        2. The 'back' should be the Answer or Definition.
-        3. Ensure content is concise.
+        RULES:
+        1. Write one 2-3 sentence overview for the whole lecture.
+        2. Merge overlapping main points; keep 5-9 points that cover all parts.
+        3. Keep every distinct key term once, with the clearest definition.
+        4. Write in ${outputLanguage(lecture)}.${isBilingual(lecture) ? " Keep each term's sourceTerm and sourceDefinition." : ''}
         
-        TRANSCRIPT:
-        ${transcript.slice(0, 30000)}`,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        front: { type: Type.STRING },
-                        back: { type: Type.STRING },
-                        difficulty: { type: Type.STRING, enum: ["Easy", "Medium", "Hard"] },
-                        topic: { type: Type.STRING }
-                    }
-                }
-            }
-        }
-    });
+        PART SUMMARIES:
+        ${JSON.stringify(results)}`,
+        schema: SUMMARY_SCHEMA,
+        signal
+    }, checkSummary);
 
-    if (response.text) {
-        return JSON.parse(response.text) as Flashcard[];
-    }
-    throw new Error("Failed to generate more flashcards");
+    return {
+        content: { ...merged, keyTerms: dedupeBy(merged.keyTerms, k => k.term) },
+        coverage
+    };
 };
 
-export const generateQuiz = async (transcript: string): Promise<QuizQuestion[]> => {
-    const ai = getAiClient();
-    
-    const response = await ai.models.generateContent({
-        model: MODEL_FAST,
-        contents: `Create a 5-question multiple choice quiz based on this transcript.
-        
-        TRANSCRIPT:
-        ${transcript.slice(0, 30000)}`,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        question: { type: Type.STRING },
-                        options: { 
-                            type: Type.ARRAY, 
-                            items: { type: Type.STRING },
-                            description: "4 possible answers"
-                        },
-                        correctAnswer: { type: Type.STRING, description: "Must match one of the options exactly" },
-                        explanation: { type: Type.STRING }
-                    }
-                }
+export const expandSummary = async (transcript: string, currentSummary: SummaryData, { signal, lecture, params }: GenerateOptions = {}): Promise<SummaryData> => {
+    const data = await generateChecked(getProvider('summary', lecture?.id), {
+        prompt: renderPrompt('summaryExpand', {
+            ...baseVariables('summaryExpand', params, lecture),
+            ...summaryVariables(currentSummary),
+            transcript: transcript.slice(0, MAX_EXPAND_TRANSCRIPT_CHARS),
+        }, lecture),
+        schema: {
+            type: 'object',
+            properties: {
+                newMainPoints: { 
+                    type: 'array', 
+                    items: { type: 'string' },
+                    description: "Additional bullet points"
+                },
+                newKeyTerms: SUMMARY_SCHEMA.properties!.keyTerms
             }
-        }
+        },
+        signal
+    }, (raw: any) => {
+        const newMainPoints = checkMainPoints(raw?.newMainPoints);
+        const newKeyTerms = checkKeyTerms(raw?.newKeyTerms);
+        return combineChecks({ newMainPoints: newMainPoints.value, newKeyTerms: newKeyTerms.value }, newMainPoints, newKeyTerms);
     });
 
-    if (response.text) {
-        return JSON.parse(response.text) as QuizQuestion[];
-    }
-    throw new Error("Failed to generate quiz");
+    return {
+        overview: currentSummary.overview,
+        mainPoints: [...currentSummary.mainPoints, ...data.newMainPoints],
+        keyTerms: [...currentSummary.keyTerms, ...data.newKeyTerms]
+    };
 };
 
-export const generateMoreQuiz = async (transcript: string, existingQuestions: QuizQuestion[]): Promise<QuizQuestion[]> => {
-    const ai = getAiClient();
-    const existingQs = existingQuestions.map(q => q.question).join("; ");
+export const generateFlashcards = async (transcript: string, { signal, lecture, params }: GenerateOptions = {}): Promise<GenerationResult<Flashcard[]>> => {
+    const provider = getProvider('flashcards', lecture?.id);
 
-    const response = await ai.models.generateContent({
-        model: MODEL_FAST,
-        contents: `Create 5 NEW multiple choice questions based on this transcript.
-        Avoid these topics/questions: ${existingQs.slice(0, 1000)}...
-        
-        TRANSCRIPT:
-        ${transcript.slice(0, 30000)}`,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        question: { type: Type.STRING },
-                        options: { 
-                            type: Type.ARRAY, 
-                            items: { type: Type.STRING },
-                            description: "4 possible answers"
-                        },
-                        correctAnswer: { type: Type.STRING },
-                        explanation: { type: Type.STRING }
-                    }
-                }
-            }
-        }
-    });
+    const { results, coverage } = await mapSegments(transcript, segment => generateChecked(provider, {
+        prompt: renderPrompt('flashcards', {
+            ...baseVariables('flashcards', params, lecture),
+            transcript: segment.text,
+            segmentNote: segmentContext(segment),
+            count: countPerSegment(resolveParams(params).flashcardCount, segment.total, MIN_FLASHCARDS_PER_SEGMENT),
+        }, lecture),
+        schema: FLASHCARDS_SCHEMA,
+        signal
+    }, checkFlashcards));
 
-    if (response.text) {
-        return JSON.parse(response.text) as QuizQuestion[];
-    }
-    throw new Error("Failed to generate more quiz questions");
+    return { content: dedupeFlashcards(results.flat()), coverage };
 };
 
-export const generateStudyNotes = async (transcript: string): Promise<string> => {
-    const ai = getAiClient();
-    
-    const response = await ai.models.generateContent({
-        model: MODEL_FAST,
-        contents: `Transform this lecture transcript into structured, markdown-formatted study notes. Use headers, bullet points, and bold text for emphasis. Include a "Quick Review" section at the end.
-        
-        TRANSCRIPT:
-        ${transcript.slice(0, 30000)}`,
-    });
+export const generateMoreFlashcards = async (transcript: string, existingCards: Flashcard[], { signal, lecture, params }: GenerateOptions = {}): Promise<Flashcard[]> => {
+    return generateChecked(getProvider('flashcards', lecture?.id), {
+        prompt: renderPrompt('flashcardsMore', {
+            ...baseVariables('flashcardsMore', params, lecture),
+            transcript: transcript.slice(0, MAX_EXPAND_TRANSCRIPT_CHARS),
+            count: MORE_FLASHCARDS_COUNT,
+            existing: existingFronts(existingCards),
+        }, lecture),
+        schema: FLASHCARDS_SCHEMA,
+        signal
+    }, checkFlashcards);
+};
 
-    if (response.text) {
-        return response.text;
-    }
-    throw new Error("Failed to generate notes");
+export const generateQuiz = async (transcript: string, { signal, lecture, params }: GenerateOptions = {}): Promise<GenerationResult<QuizQuestion[]>> => {
+    const provider = getProvider('quiz', lecture?.id);
+
+    const { results, coverage } = await mapSegments(transcript, segment => generateChecked(provider, {
+        prompt: renderPrompt('quiz', {
+            ...baseVariables('quiz', params, lecture),
+            transcript: segment.text,
+            segmentNote: segmentContext(segment),
+            count: countPerSegment(resolveParams(params).quizCount, segment.total, MIN_QUIZ_PER_SEGMENT),
+        }, lecture),
+        schema: QUIZ_SCHEMA,
+        signal
+    }, checkQuiz));
+
+    return { content: dedupeQuiz(results.flat()), coverage };
 };
 
-export const generateMoreNotes = async (transcript: string, currentNotes: string): Promise<string> => {
-    const ai = getAiClient();
-
-    const response = await ai.models.generateContent({
-        model: MODEL_FAST,
-        contents: `You are an expert tutor.
-        1. Analyze the lecture transcript and the existing study notes provided below.
-        2. Identify the 3-4 most complex or significant concepts that need further clarification.
-        3. Generate a "Deep Dive & Explanations" section in Markdown. 
-        4. For each selected concept, provide a detailed explanation, a useful analogy, and a concrete example.
-        5. Do NOT repeat the existing notes verbatim.
-        6. Start your response with a horizontal rule (---) and a header "## Deep Dive & Explanations".
-        
-        EXISTING NOTES:
-        ${currentNotes.slice(0, 5000)}
+export const generateMoreQuiz = async (transcript: string, existing: QuizQuestion[], { signal, lecture, params }: GenerateOptions = {}): Promise<QuizQuestion[]> => {
+    return generateChecked(getProvider('quiz', lecture?.id), {
+        prompt: renderPrompt('quizMore', {
+            ...baseVariables('quizMore', params, lecture),
+            transcript: transcript.slice(0, MAX_EXPAND_TRANSCRIPT_CHARS),
+            count: MORE_QUIZ_COUNT,
+            existing: existingQuestions(existing),
+        }, lecture),
+        schema: QUIZ_SCHEMA,
+        signal
+    }, checkQuiz);
+};
+
+// Notes for long transcripts are written per segment and joined in order.
+// With `onText` the parts stream in parallel and the listener sees them joined in order.
+export const generateStudyNotes = async (transcript: string, { signal, onText, lecture, params }: GenerateOptions = {}): Promise<GenerationResult<string>> => {
+    const provider = getProvider('notes', lecture?.id);
+    const parts: string[] = [];
 
-        TRANSCRIPT:
-        ${transcript.slice(0, 25000)}`,
+    const { results, coverage } = await mapSegments(transcript, segment => {
+        const isLast = segment.index === segment.total - 1;
+        const request: TextRequest = {
+            prompt: renderPrompt('notes', {
+                ...baseVariables('notes', params, lecture),
+                transcript: segment.text,
+                segmentNote: segmentContext(segment),
+                closingInstruction: isLast ? QUICK_REVIEW : NO_CONCLUSION,
+            }, lecture),
+            signal
+        };
+        if (!onText) return provider.generateText(request);
+        return provider.streamText(request, text => {
+            parts[segment.index] = text;
+            onText(parts.filter(Boolean).join('\n\n'));
+        });
     });
 
-    if (response.text) {
-        return response.text;
-    }
-    throw new Error("Failed to explain notes");
+    return { content: results.join('\n\n'), coverage };
 };
 
-export const generateMindMap = async (transcript: string): Promise<string> => {
-    const ai = getAiClient();
-    
-    // We request plain text, not JSON, because Mermaid syntax is text-based.
-    const response = await ai.models.generateContent({
-        model: MODEL_FAST,
-        contents: `Analyze the following lecture transcript and create a hierarchical mind map structure using Mermaid.js syntax (Graph).
-        
-        RULES:
+export const generateMoreNotes = async (transcript: string, currentNotes: string, { signal, onText, lecture, params }: GenerateOptions = {}): Promise<string> => {
+    const request: TextRequest = {
+        prompt: renderPrompt('notesMore', {
+            ...baseVariables('notesMore', params, lecture),
+            transcript: transcript.slice(0, MAX_NOTES_TRANSCRIPT_CHARS),
+            existing: currentNotes.slice(0, MAX_EXISTING_NOTES_CHARS),
+        }, lecture),
+        signal
+    };
+    const provider = getProvider('notes', lecture?.id);
+    return onText ? provider.streamText(request, onText) : provider.generateText(request);
+};
+
+// Rules for the merge prompt; the per-segment rules live in the mind map template
+const mindMapRules = (depth: number, language: string) => `RULES:
         1. Use 'graph LR' (Left to Right) as the base direction.
         2. The root node should be the main topic of the lecture.
-        3. Branch out into major concepts, then sub-concepts.
+        3. Branch out into major concepts, then sub-concepts, at most ${depth} levels below the root.
         4. Keep node text concise (1-4 words max) to ensure the map remains readable.
         5. Use standard brackets for nodes with QUOTED labels: id["Label"].
         6. Output ONLY the raw Mermaid syntax. Do not wrap it in markdown code blocks.
         7. Do not use special characters inside labels that might break SVG rendering.
+        8. Write the labels in ${language}.`;
+
+// Clean up any potential markdown wrapping just in case
+const cleanMermaid = (text: string) => text.replace(/```mermaid/g, '').replace(/```/g, '').trim();
+
+export const generateMindMap = async (transcript: string, { signal, lecture, params }: GenerateOptions = {}): Promise<GenerationResult<string>> => {
+    const provider = getProvider('mindmap', lecture?.id);
+    
+    // We request plain text, not JSON, because Mermaid syntax is text-based.
+    const { results, coverage } = await mapSegments(transcript, async segment => cleanMermaid(await provider.generateText({
+        prompt: renderPrompt('mindmap', { ...baseVariables('mindmap', params, lecture), transcript: segment.text, segmentNote: segmentContext(segment) }, lecture),
+        signal
+    })));
+
+    if (results.length === 1) {
+        return { content: results[0], coverage };
+    }
+
+    const merged = await provider.generateText({
+        prompt: `The following Mermaid.js mind maps each cover one consecutive part of the same lecture.
+        Merge them into a single mind map of the whole lecture, combining duplicate concepts into one node.
+        
+        ${mindMapRules(resolveParams(params).mindMapDepth, outputLanguage(lecture))}
         
-        TRANSCRIPT:
-        ${transcript.slice(0, 30000)}`,
+        PART MIND MAPS:
+        ${results.map((map, i) => `--- Part ${i + 1} ---\n${map}`).join('\n\n')}`,
+        signal
     });
 
-    if (response.text) {
-        // Clean up any potential markdown wrapping just in case
-        return response.text.replace(/```mermaid/g, '').replace(/```/g, '').trim();
-    }
-    throw new Error("Failed to generate mind map");
+    return { content: cleanMermaid(merged), coverage };
 };
 
-export const createLectureChat = (transcript: string, history: ChatMessage[] = []): Chat => {
-    const ai = getAiClient();
-    
-    // Safety: Slice transcript to prevent context overflow
-    const safeTranscript = transcript ? transcript.slice(0, 40000) : "No transcript available.";
-    
-    // Convert generic ChatMessage to GoogleGenAI Content format
+export const createLectureChat = (transcript: string, history: ChatMessage[] = [], lecture?: GenerationLecture): LlmChat => {
     // Take the last 10 messages (5 turns) for context to save tokens/avoid clutter, as requested
     const recentHistory = history.slice(-10);
-    const formattedHistory: Content[] = recentHistory.map(msg => ({
-        role: msg.role,
-        parts: [{ text: msg.text }]
-    }));
-
-    return ai.chats.create({
-        model: MODEL_COMPLEX,
-        history: formattedHistory,
-        config: {
-            systemInstruction: `You are a helpful and knowledgeable teaching assistant. 
-            You will be answering questions about a specific lecture.
-            
-            LECTURE CONTENT:
-            ${safeTranscript}
-            
-            RULES:
-            1. Answer questions based ONLY on the provided lecture content.
-            2. If the answer cannot be found in the lecture, politely state that the information is not in the recording.
-            3. Keep answers concise and helpful.
-            4. Do not hallucinate information outside of the provided text.`
-        }
+
+    return getProvider('chat', lecture?.id).createChat({
+        history: recentHistory,
+        // Safety: the transcript is sliced to prevent context overflow
+        systemInstruction: renderPrompt('chat', { ...baseVariables('chat', undefined, lecture), transcript: chatTranscript(transcript) }, lecture)
     });
-};
\ No newline at end of file
+};
+
+// Full generator for each artifact, with the name recorded in its revision history
+export const ARTIFACT_GENERATORS: Record<GeneratedArtifact, { name: string; run: (transcript: string, options?: GenerateOptions) => Promise<GenerationResult<ArtifactContent>> }> = {
+    summary: { name: 'generateSummary', run: generateSummary },
+    flashcards: { name: 'generateFlashcards', run: generateFlashcards },
+    quiz: { name: 'generateQuiz', run: generateQuiz },
+    notes: { name: 'generateStudyNotes', run: generateStudyNotes },
+    mindmap: { name: 'generateMindMap', run: generateMindMap },
+};
+
+// Renders a prompt as it would be sent for the lecture. Long lectures are shown with
+// their first part, which is what the first request of the generation receives.
+export const previewPrompt = (
+    id: PromptId,
+    lecture: LectureData,
+    template = resolveTemplate(id, lecture).template
+): { prompt: string; parts: number } => {
+    const [segment] = splitTranscript(lecture.transcriptText);
+    const params = resolveParams();
+    const variables: Record<string, string> = {
+        ...baseVariables(id, params, lecture),
+        transcript: segment.text,
+        segmentNote: segmentContext(segment),
+    };
+
+    switch (id) {
+        case 'summaryExpand':
+            Object.assign(variables, summaryVariables(lecture.summary || { overview: '', mainPoints: [], keyTerms: [] }));
+            variables.transcript = lecture.transcriptText.slice(0, MAX_EXPAND_TRANSCRIPT_CHARS);
+            break;
+        case 'flashcards':
+            variables.count = countPerSegment(params.flashcardCount, segment.total, MIN_FLASHCARDS_PER_SEGMENT);
+            break;
+        case 'flashcardsMore':
+            variables.count = MORE_FLASHCARDS_COUNT;
+            variables.existing = existingFronts(lecture.flashcards || []);
+            variables.transcript = lecture.transcriptText.slice(0, MAX_EXPAND_TRANSCRIPT_CHARS);
+            break;
+        case 'quiz':
+            variables.count = countPerSegment(params.quizCount, segment.total, MIN_QUIZ_PER_SEGMENT);
+            break;
+        case 'quizMore':
+            variables.count = MORE_QUIZ_COUNT;
+            variables.existing = existingQuestions(lecture.quiz || []);
+            variables.transcript = lecture.transcriptText.slice(0, MAX_EXPAND_TRANSCRIPT_CHARS);
+            break;
+        case 'notes':
+            variables.closingInstruction = segment.total === 1 ? QUICK_REVIEW : NO_CONCLUSION;
+            break;
+        case 'notesMore':
+            variables.existing = (lecture.studyNotes || '').slice(0, MAX_EXISTING_NOTES_CHARS);
+            variables.transcript = lecture.transcriptText.slice(0, MAX_NOTES_TRANSCRIPT_CHARS);
+            break;
+        case 'chat':
+            variables.transcript = chatTranscript(lecture.transcriptText);
+            break;
+    }
+
+    // Single-request prompts always see the start of the whole transcript
+    const segmented: PromptId[] = ['summary', 'flashcards', 'quiz', 'notes', 'mindmap'];
+    return { prompt: renderTemplate(template, variables), parts: segmented.includes(id) ? segment.total : 1 };
+};
@@ -0,0 +1,398 @@
+import { LectureData, GeneratedArtifact, GenerationParams, ArtifactContent, TranscriptCoverage } from '../types';
+import * as StorageService from './storageService';
+import * as GeminiService from './geminiService';
+import * as RevisionService from './revisionService';
+import * as CacheService from './cacheService';
+import { v4 as uuidv4 } from 'uuid';
+
+// Queue for AI generations (one job per lecture and artifact). Jobs run in the background,
+// can be cancelled or retried, and queued jobs are kept across reloads.
+//
+// The queue lives in localStorage and is shared by every open tab, but only one tab runs it:
+// the one holding the Web Lock below. Other tabs show the queue and add to it; the runner
+// picks their changes up through the storage event.
+
+const JOBS_KEY = 'ezi_jobs';
+const LEADER_LOCK = 'ezi-job-queue';
+// Streamed text of running jobs, for tabs that show a job another tab runs
+const PROGRESS_CHANNEL = 'ezi-job-progress';
+// Jobs generating at once; the request layer still rate limits their calls
+const MAX_RUNNING_JOBS = 3;
+// Finished jobs kept for the panel until they are cleared
+const MAX_FINISHED_JOBS = 50;
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+    queued: 'Queued',
+    running: 'Running',
+    succeeded: 'Done',
+    failed: 'Failed',
+    cancelled: 'Cancelled',
+};
+
+// 'extend' adds to the existing artifact ("Expand Summary", "More Flashcards", ...)
+export type JobKind = 'generate' | 'extend';
+
+export interface GenerationJob {
+    id: string;
+    lectureId: string;
+    lectureTitle: string;
+    artifact: GeneratedArtifact;
+    kind?: JobKind; // unset = 'generate'
+    // Chosen in the generation modal; older jobs use the remembered defaults
+    params?: GenerationParams;
+    // Skip the generation cache
+    force?: boolean;
+    status: JobStatus;
+    createdAt: string; // ISO
+    startedAt?: string;
+    finishedAt?: string;
+    error?: string;
+    // Set on success when the result came from the generation cache
+    fromCache?: boolean;
+}
+
+const EXTEND_LABELS: Record<GeneratedArtifact, string> = {
+    summary: 'Expanded Summary',
+    flashcards: 'More Flashcards',
+    quiz: 'More Quiz Questions',
+    notes: 'Notes Deep Dive',
+    mindmap: 'Mind Map',
+};
+
+export const getJobLabel = (job: GenerationJob): string => {
+    return job.kind === 'extend' ? EXTEND_LABELS[job.artifact] : RevisionService.ARTIFACT_LABELS[job.artifact];
+};
+
+export const isActive = (job: GenerationJob): boolean => job.status === 'queued' || job.status === 'running';
+
+// Artifacts of a lecture that are queued or being generated
+export const getPendingArtifacts = (jobs: GenerationJob[], lectureId: string): GeneratedArtifact[] => {
+    return jobs.filter(job => job.lectureId === lectureId && isActive(job)).map(job => job.artifact);
+};
+
+const readStoredJobs = (): GenerationJob[] => {
+    const storedStr = localStorage.getItem(JOBS_KEY);
+    if (!storedStr) return [];
+    try {
+        return JSON.parse(storedStr);
+    } catch (e) {
+        console.error("Error parsing job queue", e);
+        return [];
+    }
+};
+
+let jobs: GenerationJob[] = readStoredJobs();
+// Whether this tab can read the library, i.e. is unlocked
+let isStarted = false;
+// 'held' while this tab runs the queue
+let leadership: 'none' | 'waiting' | 'held' = 'none';
+let releaseLeadership: (() => void) | null = null;
+const controllers = new Map<string, AbortController>();
+const listeners = new Set<(jobs: GenerationJob[]) => void>();
+const completionListeners = new Set<(job: GenerationJob) => void>();
+const jobTexts = new Map<string, string>();
+const textListeners = new Set<{ jobId: string; listener: (text: string) => void }>();
+const progressChannel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(PROGRESS_CHANNEL) : null;
+
+const pruneFinished = (list: GenerationJob[]): GenerationJob[] => {
+    const finished = list.filter(job => !isActive(job));
+    if (finished.length <= MAX_FINISHED_JOBS) return list;
+    const dropped = new Set(finished.slice(0, finished.length - MAX_FINISHED_JOBS).map(job => job.id));
+    return list.filter(job => !dropped.has(job.id));
+};
+
+const showJobs = (next: GenerationJob[]) => {
+    jobs = next;
+    jobTexts.forEach((_, id) => {
+        if (!jobs.some(job => job.id === id && isActive(job))) jobTexts.delete(id);
+    });
+    listeners.forEach(listener => listener(jobs));
+};
+
+// Read-modify-write of the stored queue, so changes other tabs made meanwhile are kept
+const updateJobs = (update: (current: GenerationJob[]) => GenerationJob[]) => {
+    const next = pruneFinished(update(readStoredJobs()));
+    try {
+        localStorage.setItem(JOBS_KEY, JSON.stringify(next));
+    } catch (e) {
+        console.warn("Could not save the job queue", e);
+    }
+    showJobs(next);
+};
+
+const patchJob = (id: string, patch: Partial<GenerationJob>) => {
+    updateJobs(current => current.map(job => job.id === id ? { ...job, ...patch } : job));
+};
+
+const requeue = (job: GenerationJob): GenerationJob => ({ ...job, status: 'queued', startedAt: undefined });
+
+const publishText = (jobId: string, text: string) => {
+    jobTexts.set(jobId, text);
+    textListeners.forEach(entry => {
+        if (entry.jobId === jobId) entry.listener(text);
+    });
+};
+
+// Another tab changed the queue: show it, stop jobs cancelled there and run what was added
+window.addEventListener('storage', (e) => {
+    if (e.key !== JOBS_KEY) return;
+    showJobs(readStoredJobs());
+    controllers.forEach((controller, id) => {
+        if (jobs.find(job => job.id === id)?.status !== 'running') controller.abort();
+    });
+    pump();
+});
+
+progressChannel?.addEventListener('message', (e: MessageEvent<{ jobId: string; text: string }>) => {
+    publishText(e.data.jobId, e.data.text);
+});
+
+export const subscribeToJobs = (listener: (jobs: GenerationJob[]) => void): (() => void) => {
+    listeners.add(listener);
+    listener(jobs);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+// Text a running job has streamed so far (study notes), in this tab or the one running it
+export const subscribeToJobText = (jobId: string, listener: (text: string) => void): (() => void) => {
+    const entry = { jobId, listener };
+    textListeners.add(entry);
+    const text = jobTexts.get(jobId);
+    if (text !== undefined) listener(text);
+    return () => {
+        textListeners.delete(entry);
+    };
+};
+
+// Called in the tab that ran the job, once it has stored its result in the lecture
+export const subscribeToCompletedJobs = (listener: (job: GenerationJob) => void): (() => void) => {
+    completionListeners.add(listener);
+    return () => {
+        completionListeners.delete(listener);
+    };
+};
+
+interface JobOutput {
+    // Computed from the freshest stored lecture, so "more" items land on top of it
+    content: (existing: LectureData) => ArtifactContent;
+    generatorName: string;
+    // Left out by extensions, which keep the artifact's coverage
+    coverage?: TranscriptCoverage | null;
+    fromCache?: boolean;
+}
+
+const produce = async (job: GenerationJob, lecture: LectureData, signal: AbortSignal, onText: (text: string) => void): Promise<JobOutput> => {
+    const options = { signal, onText, lecture, params: job.params };
+    const transcript = lecture.transcriptText;
+
+    if (job.kind !== 'extend') {
+        const generator = GeminiService.ARTIFACT_GENERATORS[job.artifact];
+        const { result: { content, coverage }, fromCache } = await CacheService.generateWithCache(
+            job.artifact,
+            lecture,
+            () => generator.run(transcript, options),
+            { params: job.params, force: job.force }
+        );
+        return { content: () => content, coverage, fromCache, generatorName: fromCache ? `${generator.name} (cached)` : generator.name };
+    }
+
+    switch (job.artifact) {
+        case 'summary': {
+            if (!lecture.summary) throw new Error("There is no summary to expand");
+            const summary = await GeminiService.expandSummary(transcript, lecture.summary, options);
+            return { content: () => summary, generatorName: 'expandSummary' };
+        }
+        case 'flashcards': {
+            if (!lecture.flashcards) throw new Error("There are no flashcards to add to");
+            const cards = await GeminiService.generateMoreFlashcards(transcript, lecture.flashcards, options);
+            return { content: existing => [...(existing.flashcards || []), ...cards], generatorName: 'generateMoreFlashcards' };
+        }
+        case 'quiz': {
+            if (!lecture.quiz) throw new Error("There is no quiz to add to");
+            const questions = await GeminiService.generateMoreQuiz(transcript, lecture.quiz, options);
+            return { content: existing => [...(existing.quiz || []), ...questions], generatorName: 'generateMoreQuiz' };
+        }
+        case 'notes': {
+            if (!lecture.studyNotes) throw new Error("There are no notes to explain");
+            const extra = await GeminiService.generateMoreNotes(transcript, lecture.studyNotes, options);
+            return { content: existing => `${existing.studyNotes}\n\n${extra}`, generatorName: 'generateMoreNotes' };
+        }
+        default:
+            throw new Error(`${getJobLabel(job)} can't be extended`);
+    }
+};
+
+const runJob = async (job: GenerationJob) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    patchJob(job.id, { status: 'running', startedAt: new Date().toISOString(), finishedAt: undefined, error: undefined });
+
+    // Streamed text without the existing notes a deep dive is appended to
+    let partial = '';
+    try {
+        const lecture = await StorageService.getLectureById(job.lectureId);
+        if (!lecture || lecture.deletedAt) {
+            throw new Error("The lecture no longer exists");
+        }
+
+        const prefix = job.kind === 'extend' && lecture.studyNotes ? `${lecture.studyNotes}\n\n` : '';
+        const output = await produce(job, lecture, controller.signal, text => {
+            partial = text;
+            publishText(job.id, prefix + text);
+            progressChannel?.postMessage({ jobId: job.id, text: prefix + text });
+        });
+        // The result may arrive after a cancel the provider couldn't interrupt
+        if (controller.signal.aborted) return;
+
+        await StorageService.updateLecture(job.lectureId, existing =>
+            RevisionService.recordRevision(existing, job.artifact, output.content(existing), output.generatorName, output.coverage)
+        );
+        patchJob(job.id, { status: 'succeeded', finishedAt: new Date().toISOString(), fromCache: output.fromCache });
+        const finished = jobs.find(j => j.id === job.id);
+        if (finished) completionListeners.forEach(listener => listener(finished));
+    } catch (e: any) {
+        if (controller.signal.aborted) {
+            // Stopped notes keep what was written so far; paused jobs were put back in the queue
+            const wasStopped = jobs.find(j => j.id === job.id)?.status === 'cancelled';
+            if (wasStopped && job.artifact === 'notes' && partial.trim()) {
+                await saveStoppedNotes(job, partial).catch(err => console.error("Could not keep the stopped notes", err));
+            }
+            return;
+        }
+        console.error(`${getJobLabel(job)} job failed`, e);
+        patchJob(job.id, { status: 'failed', finishedAt: new Date().toISOString(), error: e?.message || "Generation failed" });
+    } finally {
+        controllers.delete(job.id);
+        pump();
+    }
+};
+
+// Stopped notes don't say how much of the transcript they cover
+const saveStoppedNotes = async (job: GenerationJob, partial: string) => {
+    await StorageService.updateLecture(job.lectureId, existing => job.kind === 'extend'
+        ? RevisionService.recordRevision(existing, 'notes', `${existing.studyNotes}\n\n${partial}`, 'generateMoreNotes (stopped)')
+        : RevisionService.recordRevision(existing, 'notes', partial, 'generateStudyNotes (stopped)', null)
+    );
+    const stopped = jobs.find(j => j.id === job.id);
+    if (stopped) completionListeners.forEach(listener => listener(stopped));
+};
+
+// Starts queued jobs, oldest first, while there is room
+const pump = () => {
+    if (!isStarted || leadership !== 'held') return;
+    let running = controllers.size;
+    for (const job of jobs) {
+        if (running >= MAX_RUNNING_JOBS) break;
+        if (job.status !== 'queued') continue;
+        running++;
+        runJob(job);
+    }
+};
+
+const becomeLeader = () => {
+    leadership = 'held';
+    // Jobs still marked running were left by a tab that closed mid-run
+    updateJobs(current => current.map(job => job.status === 'running' && !controllers.has(job.id) ? requeue(job) : job));
+    pump();
+};
+
+// Waits for the queue lock; browsers without Web Locks (before 2022) run the queue in every tab
+const claimLeadership = () => {
+    if (leadership !== 'none') return;
+    if (!('locks' in navigator)) {
+        becomeLeader();
+        return;
+    }
+    leadership = 'waiting';
+    navigator.locks.request(LEADER_LOCK, () => {
+        // Paused while waiting; returning releases the lock right away
+        if (!isStarted) {
+            leadership = 'none';
+            return;
+        }
+        becomeLeader();
+        // Held until the queue is paused or the tab closes
+        return new Promise<void>(resolve => {
+            releaseLeadership = resolve;
+        });
+    });
+};
+
+const resignLeadership = () => {
+    if (leadership !== 'held') return;
+    leadership = 'none';
+    releaseLeadership?.();
+    releaseLeadership = null;
+};
+
+// Jobs wait until the library can be read, i.e. until it is unlocked
+export const startJobQueue = (): void => {
+    isStarted = true;
+    claimLeadership();
+    pump();
+};
+
+// Puts running jobs back in the queue and hands the queue to another tab, e.g. when the
+// library is locked and results could not be stored
+export const pauseJobQueue = (): void => {
+    isStarted = false;
+    const interrupted = [...controllers.keys()];
+    updateJobs(current => current.map(job => interrupted.includes(job.id) && job.status === 'running' ? requeue(job) : job));
+    controllers.forEach(controller => controller.abort());
+    resignLeadership();
+};
+
+// Queues one job per artifact, skipping artifacts the lecture already has a pending job for
+export const enqueueGeneration = (
+    lecture: LectureData,
+    artifacts: GeneratedArtifact[],
+    params?: GenerationParams,
+    { kind, force }: { kind?: JobKind; force?: boolean } = {}
+): GenerationJob[] => {
+    const pending = getPendingArtifacts(jobs, lecture.id);
+    const created: GenerationJob[] = artifacts
+        .filter(artifact => !pending.includes(artifact))
+        .map(artifact => ({
+            id: uuidv4(),
+            lectureId: lecture.id,
+            lectureTitle: lecture.title,
+            artifact,
+            kind: kind === 'extend' ? kind : undefined,
+            params,
+            force: force || undefined,
+            status: 'queued',
+            createdAt: new Date().toISOString(),
+        }));
+    if (created.length === 0) return [];
+
+    updateJobs(current => [...current, ...created]);
+    pump();
+    return created;
+};
+
+export const cancelJob = (id: string): void => {
+    const job = jobs.find(j => j.id === id);
+    if (!job || !isActive(job)) return;
+    patchJob(id, { status: 'cancelled', finishedAt: new Date().toISOString() });
+    // Jobs another tab runs are stopped there when it sees the change
+    controllers.get(id)?.abort();
+};
+
+export const retryJob = (id: string): void => {
+    const job = jobs.find(j => j.id === id);
+    if (!job || isActive(job) || job.status === 'succeeded') return;
+    // Moves to the back of the queue
+    updateJobs(current => [
+        ...current.filter(j => j.id !== id),
+        { ...job, status: 'queued', createdAt: new Date().toISOString(), startedAt: undefined, finishedAt: undefined, error: undefined },
+    ]);
+    pump();
+};
+
+export const clearFinishedJobs = (): void => {
+    updateJobs(current => current.filter(isActive));
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AudioFrame, ReplayBuffer, createReplayBuffer } from './liveReplayService';
+
+const RATE = 10;
+
+// A frame of `samples` samples starting `at` seconds into the recording
+const frame = (at: number, samples = RATE): AudioFrame => ({ pcm: new Int16Array(samples), at });
+
+// Replays everything the buffer holds, returning the start times sent
+const drain = (buffer: ReplayBuffer): number[] => {
+    const sent: number[] = [];
+    for (let next = buffer.peek(); next; next = buffer.peek()) {
+        sent.push(next.at);
+        buffer.shift();
+    }
+    return sent;
+};
+
+describe('createReplayBuffer', () => {
+    it('replays audio sent but not confirmed ahead of audio that could not be sent', () => {
+        const buffer = createReplayBuffer(100, RATE, () => {});
+        buffer.markSent(frame(0));
+        buffer.confirm();
+        buffer.markSent(frame(1));
+        buffer.markSent(frame(2));
+        buffer.hold(frame(3));
+
+        expect(buffer.requeue()).toBe(true);
+        expect(buffer.startsAt()).toBe(1);
+        expect(drain(buffer)).toEqual([1, 2, 3]);
+        expect(buffer.startsAt()).toBeNull();
+    });
+
+    it('keeps replayed audio until the new session confirms it', () => {
+        const buffer = createReplayBuffer(100, RATE, () => {});
+        buffer.hold(frame(0));
+        buffer.requeue();
+        drain(buffer);
+
+        // The new session drops before finishing a turn: the replayed audio comes back
+        expect(buffer.requeue()).toBe(true);
+        expect(drain(buffer)).toEqual([0]);
+
+        buffer.confirm();
+        expect(buffer.requeue()).toBe(true);
+        expect(buffer.peek()).toBeUndefined();
+    });
+
+    it('does not replay a turn that outgrew the window', () => {
+        const buffer = createReplayBuffer(20, RATE, () => {});
+        buffer.markSent(frame(0));
+        buffer.markSent(frame(1));
+        buffer.markSent(frame(2));
+        buffer.hold(frame(3));
+
+        // Part of the turn was dropped, so only the audio that was never sent is replayed
+        expect(buffer.requeue()).toBe(false);
+        expect(drain(buffer)).toEqual([3]);
+    });
+
+    it('reports held audio dropped beyond the limit as lost', () => {
+        const onLost = vi.fn();
+        const buffer = createReplayBuffer(20, RATE, onLost);
+        buffer.hold(frame(0));
+        buffer.hold(frame(1));
+        buffer.hold(frame(2, RATE / 2));
+
+        expect(onLost).toHaveBeenCalledWith(1);
+        expect(drain(buffer)).toEqual([1, 2]);
+    });
+
+    it('counts requeued audio towards the limit', () => {
+        const onLost = vi.fn();
+        const buffer = createReplayBuffer(20, RATE, onLost);
+        buffer.markSent(frame(0));
+        buffer.markSent(frame(1));
+        buffer.hold(frame(2));
+
+        buffer.requeue();
+        expect(onLost).toHaveBeenCalledWith(1);
+        expect(drain(buffer)).toEqual([1, 2]);
+    });
+
+    it('forgets everything on clear', () => {
+        const buffer = createReplayBuffer(100, RATE, () => {});
+        buffer.markSent(frame(0));
+        buffer.hold(frame(1));
+        buffer.clear();
+
+        expect(buffer.requeue()).toBe(true);
+        expect(buffer.peek()).toBeUndefined();
+    });
+});
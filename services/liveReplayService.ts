@@ -0,0 +1,96 @@
+// Keeps the audio a Live session may not have transcribed, so it can be sent again to the
+// next session when the connection drops or the server ends the session. That is audio
+// that could not be sent, and audio that was sent but not yet confirmed by a finished turn.
+
+export interface AudioFrame {
+    pcm: Int16Array;
+    at: number; // seconds into the recording
+}
+
+export interface ReplayBuffer {
+    // Sent to the open session; kept until a finished turn shows it was transcribed
+    markSent: (frame: AudioFrame) => void;
+    // The session finished a turn, so everything sent before was transcribed
+    confirm: () => void;
+    // Could not be sent; kept for the next session
+    hold: (frame: AudioFrame) => void;
+    // The session is gone: what it had not confirmed is replayed as well. Returns whether
+    // all of it is, i.e. whether the turn in progress will be transcribed again in full.
+    requeue: () => boolean;
+    // Next frame to replay, or undefined when there is none
+    peek: () => AudioFrame | undefined;
+    // The peeked frame was sent to the new session
+    shift: () => void;
+    // Recording time the audio to replay starts at
+    startsAt: () => number | null;
+    clear: () => void;
+}
+
+// Keeps at most maxSamples of each kind. Audio dropped before it could be sent is reported
+// through onLost, in seconds.
+export const createReplayBuffer = (maxSamples: number, sampleRate: number, onLost: (seconds: number) => void): ReplayBuffer => {
+    let unconfirmed: AudioFrame[] = [];
+    let unconfirmedSamples = 0;
+    // Unconfirmed audio was dropped, so the turn in progress can't be replayed in full
+    let isTrimmed = false;
+    let held: AudioFrame[] = [];
+    let heldSamples = 0;
+
+    const trimHeld = () => {
+        while (heldSamples > maxSamples) {
+            const dropped = held.shift()!;
+            heldSamples -= dropped.pcm.length;
+            onLost(dropped.pcm.length / sampleRate);
+        }
+    };
+
+    const markSent = (frame: AudioFrame) => {
+        unconfirmed.push(frame);
+        unconfirmedSamples += frame.pcm.length;
+        while (unconfirmedSamples > maxSamples) {
+            unconfirmedSamples -= unconfirmed.shift()!.pcm.length;
+            isTrimmed = true;
+        }
+    };
+
+    const confirm = () => {
+        unconfirmed = [];
+        unconfirmedSamples = 0;
+        isTrimmed = false;
+    };
+
+    return {
+        markSent,
+        confirm,
+        hold: (frame) => {
+            held.push(frame);
+            heldSamples += frame.pcm.length;
+            trimHeld();
+        },
+        requeue: () => {
+            // Part of a turn this long was transcribed already, and there is no telling
+            // which part; replaying the rest would repeat it, so only the held audio is replayed
+            const isComplete = !isTrimmed;
+            if (isComplete) {
+                held = [...unconfirmed, ...held];
+                heldSamples += unconfirmedSamples;
+            }
+            confirm();
+            trimHeld();
+            return isComplete;
+        },
+        peek: () => held[0],
+        shift: () => {
+            const frame = held.shift();
+            if (!frame) return;
+            heldSamples -= frame.pcm.length;
+            markSent(frame);
+        },
+        startsAt: () => held[0]?.at ?? null,
+        clear: () => {
+            confirm();
+            held = [];
+            heldSamples = 0;
+        },
+    };
+};
@@ -0,0 +1,112 @@
+import { GeneratedArtifact } from '../types';
+import * as SettingsService from './settingsService';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiProvider } from './openAiProvider';
+import { createMockProvider } from './mockProvider';
+import { withRequestLayer } from './requestService';
+
+// Everything the app asks a language model to do; each can use a different provider
+export type LlmTask = GeneratedArtifact | 'chat';
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export const TASK_LABELS: Record<LlmTask, string> = {
+    summary: 'Summary',
+    flashcards: 'Flashcards',
+    quiz: 'Quiz',
+    notes: 'Study Notes',
+    mindmap: 'Mind Map',
+    chat: 'AI Chat',
+};
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+    gemini: 'Google Gemini',
+    openai: 'OpenAI-compatible server',
+    mock: 'Mock (offline)',
+};
+
+// Provider-neutral subset of JSON Schema used to describe structured responses
+export interface Schema {
+    type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    properties?: Record<string, Schema>;
+    items?: Schema;
+    enum?: string[];
+}
+
+// Tokens a call consumed, as reported by the provider (or estimated when it doesn't say)
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export type UsageListener = (usage: TokenUsage) => void;
+
+export interface TextRequest {
+    prompt: string;
+    systemInstruction?: string;
+    // Cancels the request, including any rate-limit or retry wait; rejects with an AbortError
+    signal?: AbortSignal;
+    // Called once the call has finished with the tokens it used
+    onUsage?: UsageListener;
+}
+
+export interface JsonRequest extends TextRequest {
+    schema: Schema;
+}
+
+// Receives the whole text generated so far, after every streamed chunk
+export type TextListener = (textSoFar: string) => void;
+
+export interface ChatTurn {
+    role: 'user' | 'model';
+    text: string;
+}
+
+// A running conversation; the provider keeps the history between messages
+export interface LlmChat {
+    sendMessage: (message: string) => Promise<string>;
+    // Streams the reply; if the signal fires, the turn is kept with whatever was received
+    sendMessageStream: (message: string, onText: TextListener, signal?: AbortSignal) => Promise<string>;
+}
+
+export interface LlmProvider {
+    id: ProviderId;
+    // Plain text (markdown, Mermaid, ...). Throws when the model returns nothing.
+    generateText: (request: TextRequest) => Promise<string>;
+    // Same as generateText, reporting the text as it arrives
+    streamText: (request: TextRequest, onText: TextListener) => Promise<string>;
+    // Parsed JSON shaped like request.schema. Providers without native schema
+    // support must still return parsed JSON or throw.
+    generateJson: <T>(request: JsonRequest) => Promise<T>;
+    // onUsage is called after every message with the tokens that message used
+    createChat: (options: { systemInstruction: string; history: ChatTurn[]; onUsage?: UsageListener }) => LlmChat;
+}
+
+const factories: Record<ProviderId, () => LlmProvider> = {
+    gemini: createGeminiProvider,
+    openai: createOpenAiProvider,
+    mock: createMockProvider,
+};
+
+// AI_PROVIDER=mock in .env.local forces the mock provider for every task
+export const isMockForced = (): boolean => process.env.AI_PROVIDER === 'mock';
+
+const getProviderId = (task: LlmTask): ProviderId => {
+    const providerId = isMockForced() ? 'mock' : SettingsService.getSettings().taskProviders[task];
+    return providerId && factories[providerId] ? providerId : 'gemini';
+};
+
+// Provider configured for a task. Created per call so settings changes apply immediately.
+// Usage is recorded against the lecture, when the call is about one.
+export const getProvider = (task: LlmTask, lectureId?: string): LlmProvider => {
+    return withRequestLayer(factories[getProviderId(task)](), task, { modelId: getModelId(task), lectureId });
+};
+
+// Provider and model that would answer a task, e.g. "gemini:gemini-2.5-flash"
+export const getModelId = (task: LlmTask): string => {
+    const providerId = getProviderId(task);
+    const { geminiModel, openAiModel } = SettingsService.getSettings();
+    const model = providerId === 'gemini' ? geminiModel : providerId === 'openai' ? openAiModel : 'mock';
+    return `${providerId}:${model}`;
+};
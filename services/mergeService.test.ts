@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { Flashcard, LectureData } from '../types';
+import { classifyImport, defaultResolution, diffLectures, mergeLectures, resolveImport } from './mergeService';
+
+const card = (front: string, back: string): Flashcard => ({ front, back, difficulty: 'Easy', topic: 't' });
+
+const lecture = (overrides: Partial<LectureData> = {}): LectureData => ({
+    id: 'a',
+    title: 'Lecture',
+    date: '2024-01-01T00:00:00.000Z',
+    duration: 60,
+    transcriptText: 'First',
+    sessions: [{ id: 's1', startTime: '2024-01-01T00:00:00.000Z', endTime: '2024-01-01T00:01:00.000Z', duration: 60, text: 'First' }],
+    chunks: [],
+    tags: [],
+    ...overrides,
+});
+
+describe('classifyImport', () => {
+    it('tells new, identical and changed lectures apart', () => {
+        const local = [lecture(), lecture({ id: 'b', title: 'Old' })];
+        const incoming = [lecture(), lecture({ id: 'b', title: 'New' }), lecture({ id: 'c' })];
+
+        expect(classifyImport(incoming, local).map(item => [item.incoming.id, item.status])).toEqual([
+            ['a', 'identical'],
+            ['b', 'changed'],
+            ['c', 'new'],
+        ]);
+    });
+
+    it('ignores property order and undefined fields', () => {
+        const local = lecture({ summary: { overview: 'o', mainPoints: ['p'], keyTerms: [] }, studyNotes: undefined });
+        const incoming = lecture({ summary: { keyTerms: [], mainPoints: ['p'], overview: 'o' } });
+        expect(diffLectures(local, incoming)).toEqual([]);
+    });
+
+    it('describes what differs', () => {
+        const [diff] = diffLectures(lecture({ tags: ['math'] }), lecture({ tags: ['math', 'exam'] }));
+        expect(diff).toMatchObject({ field: 'tags', local: '#math', incoming: '#math #exam' });
+    });
+});
+
+describe('mergeLectures', () => {
+    it('unions sessions in time order and rebuilds the transcript from them', () => {
+        const second = { id: 's2', startTime: '2024-01-01T01:00:00.000Z', endTime: '2024-01-01T01:00:30.000Z', duration: 30, text: 'Second' };
+        const merged = mergeLectures(lecture(), lecture({ sessions: [second, ...lecture().sessions] }));
+
+        expect(merged.sessions.map(s => s.id)).toEqual(['s1', 's2']);
+        expect(merged.transcriptText).toBe('First\n\nSecond');
+        expect(merged.duration).toBe(90);
+    });
+
+    it('unions flashcards and tags case-insensitively and prefers local single values', () => {
+        const merged = mergeLectures(
+            lecture({ title: 'Mine', tags: ['Math'], flashcards: [card('Q1', 'mine')] }),
+            lecture({ title: 'Theirs', tags: ['math', 'exam'], flashcards: [card(' q1 ', 'theirs'), card('Q2', 'b')] }),
+        );
+
+        expect(merged.title).toBe('Mine');
+        expect(merged.tags).toEqual(['Math', 'exam']);
+        expect(merged.flashcards).toEqual([card('Q1', 'mine'), card('Q2', 'b')]);
+    });
+
+    it('keeps the longer chat history', () => {
+        const longer = [{ role: 'user' as const, text: 'a' }, { role: 'model' as const, text: 'b' }];
+        expect(mergeLectures(lecture({ chatHistory: [longer[0]] }), lecture({ chatHistory: longer })).chatHistory).toEqual(longer);
+    });
+});
+
+describe('resolveImport', () => {
+    it('applies the chosen resolution', () => {
+        const [item] = classifyImport([lecture({ title: 'New' })], [lecture()]);
+
+        expect(defaultResolution(item)).toBe('merge');
+        expect(resolveImport(item, 'keep-local')).toBeNull();
+        expect(resolveImport(item, 'take-incoming')?.title).toBe('New');
+        expect(resolveImport(item, 'merge')?.title).toBe('Lecture');
+    });
+
+    it('adds new lectures as they are', () => {
+        const [item] = classifyImport([lecture()], []);
+        expect(defaultResolution(item)).toBe('take-incoming');
+        expect(resolveImport(item, 'keep-local')).toBe(item.incoming);
+    });
+});
@@ -0,0 +1,140 @@
+import { LectureData } from '../types';
+
+export type ImportStatus = 'new' | 'identical' | 'changed';
+export type ImportResolution = 'keep-local' | 'take-incoming' | 'merge';
+
+export interface FieldDiff {
+    field: keyof LectureData;
+    label: string;
+    local: string;
+    incoming: string;
+}
+
+export interface ImportItem {
+    incoming: LectureData;
+    local?: LectureData;
+    status: ImportStatus;
+    diffs: FieldDiff[];
+}
+
+// Fields shown in the import diff, in display order
+const COMPARED_FIELDS: { field: keyof LectureData; label: string }[] = [
+    { field: 'title', label: 'Title' },
+    { field: 'tags', label: 'Tags' },
+    { field: 'outputLanguage', label: 'Output Language' },
+    { field: 'duration', label: 'Duration' },
+    { field: 'transcriptText', label: 'Transcript' },
+    { field: 'sessions', label: 'Sessions' },
+    { field: 'chunks', label: 'Transcript Segments' },
+    { field: 'summary', label: 'Summary' },
+    { field: 'flashcards', label: 'Flashcards' },
+    { field: 'quiz', label: 'Quiz' },
+    { field: 'studyNotes', label: 'Study Notes' },
+    { field: 'mindmap', label: 'Mind Map' },
+    { field: 'chatHistory', label: 'Chat History' },
+];
+
+// JSON with sorted keys so equal objects compare equal regardless of property order
+const stableStringify = (value: any): string => {
+    if (value === undefined) return 'null';
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const keys = Object.keys(value).filter(k => value[k] !== undefined).sort();
+        return `{${keys.map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+const describe = (field: keyof LectureData, value: any): string => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (field === 'tags') return (value as string[]).map(t => `#${t}`).join(' ') || '—';
+    if (field === 'duration') return `${Math.floor(value / 60)} mins`;
+    if (field === 'summary') return `${value.mainPoints?.length || 0} points, ${value.keyTerms?.length || 0} terms`;
+    if (Array.isArray(value)) return `${value.length} item(s)`;
+    if (typeof value === 'string') {
+        return field === 'title' || field === 'outputLanguage' ? value : `${value.length.toLocaleString()} chars`;
+    }
+    return String(value);
+};
+
+export const diffLectures = (local: LectureData, incoming: LectureData): FieldDiff[] => {
+    return COMPARED_FIELDS
+        .filter(({ field }) => stableStringify(local[field]) !== stableStringify(incoming[field]))
+        .map(({ field, label }) => ({
+            field,
+            label,
+            local: describe(field, local[field]),
+            incoming: describe(field, incoming[field]),
+        }));
+};
+
+export const classifyImport = (incoming: LectureData[], local: LectureData[]): ImportItem[] => {
+    const localById = new Map(local.map(l => [l.id, l]));
+    return incoming.map(lecture => {
+        const existing = localById.get(lecture.id);
+        if (!existing) {
+            return { incoming: lecture, status: 'new', diffs: [] };
+        }
+        const diffs = diffLectures(existing, lecture);
+        return {
+            incoming: lecture,
+            local: existing,
+            status: diffs.length === 0 ? 'identical' : 'changed',
+            diffs,
+        };
+    });
+};
+
+// Union of two lists, keeping local order first and dropping incoming items whose key is already present
+const unionBy = <T>(local: T[] | undefined, incoming: T[] | undefined, key: (item: T) => string): T[] | undefined => {
+    if (!local && !incoming) return undefined;
+    const seen = new Set((local || []).map(key));
+    const added = (incoming || []).filter(item => {
+        const k = key(item);
+        if (seen.has(k)) return false;
+        seen.add(k);
+        return true;
+    });
+    return [...(local || []), ...added];
+};
+
+const normalizeKey = (text: string | undefined) => (text || '').trim().toLowerCase();
+
+// Field-level merge: list-like study material is unioned, single-value content prefers the local copy
+export const mergeLectures = (local: LectureData, incoming: LectureData): LectureData => {
+    const sessions = unionBy(local.sessions, incoming.sessions, s => s.id) || [];
+    sessions.sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+    const sessionsChanged = sessions.length !== (local.sessions || []).length;
+
+    const localChat = local.chatHistory || [];
+    const incomingChat = incoming.chatHistory || [];
+
+    return {
+        ...incoming,
+        ...local,
+        // Rebuild the transcript only when the incoming copy contributed sessions
+        transcriptText: sessionsChanged ? sessions.map(s => s.text).join("\n\n") : local.transcriptText,
+        duration: sessionsChanged ? sessions.reduce((sum, s) => sum + s.duration, 0) : local.duration,
+        sessions,
+        chunks: unionBy(local.chunks, incoming.chunks, c => `${c.timestamp}|${normalizeKey(c.text)}`) || [],
+        tags: unionBy(local.tags, incoming.tags, normalizeKey),
+        flashcards: unionBy(local.flashcards, incoming.flashcards, c => normalizeKey(c.front)),
+        quiz: unionBy(local.quiz, incoming.quiz, q => normalizeKey(q.question)),
+        summary: local.summary || incoming.summary,
+        studyNotes: local.studyNotes || incoming.studyNotes,
+        mindmap: local.mindmap || incoming.mindmap,
+        // Conversations can't be interleaved meaningfully; keep the longer one
+        chatHistory: incomingChat.length > localChat.length ? incoming.chatHistory : local.chatHistory,
+    };
+};
+
+export const resolveImport = (item: ImportItem, resolution: ImportResolution): LectureData | null => {
+    if (!item.local) return item.incoming;
+    if (resolution === 'keep-local') return null;
+    if (resolution === 'take-incoming') return item.incoming;
+    return mergeLectures(item.local, item.incoming);
+};
+
+export const defaultResolution = (item: ImportItem): ImportResolution => {
+    return item.status === 'changed' ? 'merge' : item.status === 'identical' ? 'keep-local' : 'take-incoming';
+};
@@ -0,0 +1,216 @@
+import type { LlmProvider, JsonRequest, Schema, TextListener, UsageListener } from './llmProvider';
+import * as SettingsService from './settingsService';
+import { RequestError, sleep, estimateTokens } from './requestService';
+
+// Offline stand-in for a real model. Replies are built from the transcript in the prompt
+// and seeded by the prompt text, so the same request always yields the same output.
+
+// FNV-1a, used as the seed for everything derived from a prompt
+const hashString = (text: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+// mulberry32
+const createRandom = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// The lecture text a prompt is about (prompts end with a TRANSCRIPT or LECTURE CONTENT block)
+const extractSource = (text: string): string => {
+    const transcriptAt = text.lastIndexOf('TRANSCRIPT:');
+    if (transcriptAt >= 0) return text.slice(transcriptAt + 'TRANSCRIPT:'.length);
+    const lecture = text.match(/LECTURE CONTENT:([\s\S]*?)RULES:/);
+    return lecture ? lecture[1] : text;
+};
+
+const toSentences = (text: string): string[] => {
+    const sentences = text
+        .split(/(?<=[.!?])\s+|\n+/)
+        .map(s => s.trim())
+        .filter(s => s.split(/\s+/).length >= 4);
+    return sentences.length > 0 ? sentences : ['This lecture has no transcript content yet.'];
+};
+
+const STOP_WORDS = new Set(['the', 'and', 'that', 'this', 'with', 'from', 'have', 'which', 'there', 'their', 'about', 'would', 'these', 'what', 'when', 'were', 'will', 'into', 'then', 'than', 'they', 'them', 'also', 'been', 'because']);
+
+// Most frequent meaningful words, as stand-ins for key terms
+const keywordsOf = (text: string, count: number): string[] => {
+    const frequency = new Map<string, number>();
+    (text.toLowerCase().match(/[\p{L}][\p{L}-]{3,}/gu) || []).forEach(word => {
+        if (!STOP_WORDS.has(word)) frequency.set(word, (frequency.get(word) || 0) + 1);
+    });
+    const ranked = [...frequency.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([word]) => word);
+    return ranked.length > 0 ? ranked.slice(0, count) : ['lecture'];
+};
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+// Walks a response schema and fills it with transcript-derived values
+const fakeFromSchema = (schema: Schema, name: string, prompt: string, random: () => number): unknown => {
+    const source = extractSource(prompt);
+    const sentences = toSentences(source);
+    const keywords = keywordsOf(source, 12);
+    const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+    const fill = (node: Schema, key: string): unknown => {
+        switch (node.type) {
+            case 'object': {
+                const result: Record<string, unknown> = {};
+                // Optional source-language fields are left out unless the prompt asks for them, like a real model
+                const entries = Object.entries(node.properties || {}).filter(([k]) => !k.startsWith('source') || prompt.includes(k));
+                // correctAnswer must be one of the options, so it is filled last
+                entries.filter(([k]) => k !== 'correctAnswer').forEach(([k, child]) => { result[k] = fill(child, k); });
+                if (node.properties?.correctAnswer) {
+                    const options = result.options;
+                    result.correctAnswer = Array.isArray(options) && options.length > 0 ? pick(options) : pick(sentences);
+                }
+                return result;
+            }
+            case 'array': {
+                const length = key === 'options' ? 4 : 3 + Math.floor(random() * 4);
+                return Array.from({ length }, (_, i) => fill(node.items || { type: 'string' }, key === 'options' ? `option${i}` : key));
+            }
+            case 'number':
+            case 'integer':
+                return Math.floor(random() * 10);
+            case 'boolean':
+                return random() < 0.5;
+            default:
+                if (node.enum?.length) return pick(node.enum);
+                if (key === 'term' || key === 'topic' || key === 'front') return capitalize(pick(keywords));
+                if (key.startsWith('option')) return capitalize(pick(keywords));
+                if (key === 'question') return `What does the lecture say about ${pick(keywords)}?`;
+                return pick(sentences);
+        }
+    };
+
+    return fill(schema, name);
+};
+
+const fakeMindMap = (source: string): string => {
+    const [root, ...branches] = keywordsOf(source, 7);
+    const lines = ['graph LR', `    root["${capitalize(root)}"]`];
+    branches.forEach((word, i) => lines.push(`    root --> n${i}["${capitalize(word)}"]`));
+    return lines.join('\n');
+};
+
+const fakeNotes = (source: string, random: () => number): string => {
+    const sentences = toSentences(source);
+    const keywords = keywordsOf(source, 4);
+    const sections = keywords.map(word => {
+        const bullets = Array.from({ length: 3 }, () => `- ${sentences[Math.floor(random() * sentences.length)]}`);
+        return `## ${capitalize(word)}\n\n${bullets.join('\n')}`;
+    });
+    return `# Study Notes\n\n${sections.join('\n\n')}\n\n## Quick Review\n\n- **Key terms:** ${keywords.join(', ')}`;
+};
+
+// Mermaid for mind map prompts, markdown notes for everything else
+const fakeText = (prompt: string): string => {
+    const source = extractSource(prompt);
+    if (/mermaid/i.test(prompt)) return fakeMindMap(source);
+    return fakeNotes(source, createRandom(hashString(prompt)));
+};
+
+// Sentence sharing the most words with the question
+const fakeAnswer = (source: string, question: string): string => {
+    const words = new Set(keywordsOf(question, 20));
+    const sentences = toSentences(source);
+    const scored = sentences.map(sentence => ({
+        sentence,
+        score: keywordsOf(sentence, 50).filter(w => words.has(w)).length,
+    }));
+    const best = scored.reduce((a, b) => (b.score > a.score ? b : a));
+    return best.score > 0
+        ? `According to the lecture: "${best.sentence}"`
+        : "That doesn't seem to be covered in this recording.";
+};
+
+// Error shaped like the Gemini SDK's quota error, including its retry hint
+const rateLimitError = () => new RequestError(JSON.stringify({
+    error: {
+        code: 429,
+        message: "Resource has been exhausted (mock provider).",
+        status: "RESOURCE_EXHAUSTED",
+        details: [{ "@type": "type.googleapis.com/google.rpc.RetryInfo", retryDelay: "5s" }],
+    }
+}), 429);
+
+// Streams are emitted a few words at a time at a steady pace
+const STREAM_WORDS_PER_CHUNK = 4;
+const STREAM_CHUNK_INTERVAL_MS = 40;
+
+const streamOut = async (text: string, onText: TextListener, signal?: AbortSignal): Promise<string> => {
+    const words = text.split(/(?<=\s)/);
+    for (let end = STREAM_WORDS_PER_CHUNK; end < words.length + STREAM_WORDS_PER_CHUNK; end += STREAM_WORDS_PER_CHUNK) {
+        await sleep(STREAM_CHUNK_INTERVAL_MS, signal);
+        onText(words.slice(0, end).join(''));
+    }
+    return text;
+};
+
+const reportUsage = (input: string, output: string, onUsage?: UsageListener) => {
+    onUsage?.({ inputTokens: estimateTokens(input), outputTokens: estimateTokens(output) });
+};
+
+export const createMockProvider = (): LlmProvider => {
+    const { mockLatencyMs, mockRateLimitRate, mockMalformedJsonRate } = SettingsService.getSettings();
+
+    // Simulated network delay and quota errors shared by every call
+    const respond = async (signal?: AbortSignal) => {
+        await sleep(mockLatencyMs, signal);
+        if (Math.random() < mockRateLimitRate) throw rateLimitError();
+    };
+
+    return {
+        id: 'mock',
+
+        generateText: async ({ prompt, signal, onUsage }) => {
+            await respond(signal);
+            const text = fakeText(prompt);
+            reportUsage(prompt, text, onUsage);
+            return text;
+        },
+
+        streamText: async ({ prompt, signal, onUsage }, onText) => {
+            await respond(signal);
+            const text = await streamOut(fakeText(prompt), onText, signal);
+            reportUsage(prompt, text, onUsage);
+            return text;
+        },
+
+        generateJson: async <T>({ prompt, schema, signal, onUsage }: JsonRequest) => {
+            await respond(signal);
+            const text = JSON.stringify(fakeFromSchema(schema, 'root', prompt, createRandom(hashString(prompt))));
+            reportUsage(prompt, text, onUsage);
+            // Truncated output goes through the same parsing a real reply would
+            return JSON.parse(Math.random() < mockMalformedJsonRate ? text.slice(0, Math.floor(text.length / 2)) : text) as T;
+        },
+
+        // Replies only look at the current question, so the history isn't kept
+        createChat: ({ systemInstruction, onUsage }) => {
+            const source = extractSource(systemInstruction);
+            return {
+                sendMessage: async (message) => {
+                    await respond();
+                    const reply = fakeAnswer(source, message);
+                    reportUsage(systemInstruction + message, reply, onUsage);
+                    return reply;
+                },
+                sendMessageStream: async (message, onText, signal) => {
+                    await respond(signal);
+                    const reply = await streamOut(fakeAnswer(source, message), onText, signal);
+                    reportUsage(systemInstruction + message, reply, onUsage);
+                    return reply;
+                },
+            };
+        },
+    };
+};
@@ -0,0 +1,196 @@
+import type { LlmProvider, JsonRequest, ChatTurn, TextListener, UsageListener } from './llmProvider';
+import * as SettingsService from './settingsService';
+import { RequestError, isAbortError, estimateTokens, withNetworkErrors } from './requestService';
+
+interface OpenAiMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+// Pulls the JSON value out of a reply that may be wrapped in prose or code fences
+export const extractJson = <T>(text: string): T => {
+    const unfenced = text.replace(/```(?:json)?/gi, '').trim();
+    try {
+        return JSON.parse(unfenced) as T;
+    } catch {
+        const start = unfenced.search(/[[{]/);
+        const end = Math.max(unfenced.lastIndexOf('}'), unfenced.lastIndexOf(']'));
+        if (start >= 0 && end > start) {
+            try {
+                return JSON.parse(unfenced.slice(start, end + 1)) as T;
+            } catch {
+                // Fall through to the error below
+            }
+        }
+        throw new SyntaxError("The model did not return valid JSON");
+    }
+};
+
+// The server's own counts when it sends them, otherwise an estimate from the text
+const reportUsage = (usage: any, messages: OpenAiMessage[], reply: string, onUsage?: UsageListener) => {
+    if (!onUsage) return;
+    onUsage({
+        inputTokens: usage?.prompt_tokens ?? estimateTokens(messages.map(m => m.content).join('\n')),
+        outputTokens: usage?.completion_tokens ?? estimateTokens(reply),
+    });
+};
+
+// Retry-After is either seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | undefined => {
+    if (!header) return undefined;
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(header);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+export const createOpenAiProvider = (): LlmProvider => {
+    const { openAiBaseUrl, openAiApiKey, openAiModel } = SettingsService.getSettings();
+    if (!openAiBaseUrl) {
+        throw new Error("The OpenAI-compatible server URL is not set");
+    }
+
+    const post = (body: object, signal?: AbortSignal) => withNetworkErrors(fetch(`${openAiBaseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        signal,
+        headers: {
+            'Content-Type': 'application/json',
+            ...(openAiApiKey ? { Authorization: `Bearer ${openAiApiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: openAiModel, ...body }),
+    }));
+
+    const toRequestError = async (response: Response) => new RequestError(
+        `${response.status} ${response.statusText}: ${await response.text()}`,
+        response.status,
+        parseRetryAfter(response.headers.get('Retry-After'))
+    );
+
+    const complete = async (messages: OpenAiMessage[], responseFormat?: object, signal?: AbortSignal, onUsage?: UsageListener): Promise<string> => {
+        const response = await post({
+            messages,
+            ...(responseFormat ? { response_format: responseFormat } : {}),
+        }, signal);
+
+        if (!response.ok) {
+            // Many local servers don't understand response_format; the prompt alone asks for JSON
+            if (responseFormat && response.status === 400) {
+                return complete(messages, undefined, signal, onUsage);
+            }
+            throw await toRequestError(response);
+        }
+
+        const data = await withNetworkErrors(response.json());
+        const content = data?.choices?.[0]?.message?.content;
+        if (!content) throw new Error("The server returned an empty response");
+        reportUsage(data.usage, messages, content, onUsage);
+        return content;
+    };
+
+    // Server-sent events: one `data: {...}` line per delta, ending with `data: [DONE]`
+    // Some servers add a usage object to the last event
+    const stream = async (messages: OpenAiMessage[], onText: TextListener, signal?: AbortSignal, onUsage?: UsageListener): Promise<string> => {
+        const response = await post({ messages, stream: true }, signal);
+        if (!response.ok) throw await toRequestError(response);
+        if (!response.body) throw new Error("The server returned an empty response");
+
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+        let text = '';
+        let usage: any;
+        try {
+            while (true) {
+                // A connection that breaks off midway fails the read
+                const { value, done } = await withNetworkErrors(reader.read());
+                if (done) break;
+                buffer += value;
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || '';
+                for (const line of lines) {
+                    if (!line.startsWith('data:')) continue;
+                    const data = line.slice('data:'.length).trim();
+                    if (data === '[DONE]') continue;
+                    try {
+                        const event = JSON.parse(data);
+                        if (event?.usage) usage = event.usage;
+                        const delta = event?.choices?.[0]?.delta?.content;
+                        if (delta) {
+                            text += delta;
+                            onText(text);
+                        }
+                    } catch (e) {
+                        console.warn("Skipping malformed stream event", data);
+                    }
+                }
+            }
+        } finally {
+            // Also when the stream is stopped or breaks off midway, which used tokens all the same
+            reportUsage(usage, messages, text, onUsage);
+        }
+        if (!text) throw new Error("The server returned an empty response");
+        return text;
+    };
+
+    const toMessages = (prompt: string, systemInstruction?: string): OpenAiMessage[] => [
+        ...(systemInstruction ? [{ role: 'system' as const, content: systemInstruction }] : []),
+        { role: 'user', content: prompt },
+    ];
+
+    const toOpenAiTurn = (turn: ChatTurn): OpenAiMessage => ({
+        role: turn.role === 'model' ? 'assistant' : 'user',
+        content: turn.text,
+    });
+
+    return {
+        id: 'openai',
+
+        generateText: ({ prompt, systemInstruction, signal, onUsage }) => complete(toMessages(prompt, systemInstruction), undefined, signal, onUsage),
+
+        streamText: ({ prompt, systemInstruction, signal, onUsage }, onText) => stream(toMessages(prompt, systemInstruction), onText, signal, onUsage),
+
+        generateJson: async <T>({ prompt, systemInstruction, schema, signal, onUsage }: JsonRequest) => {
+            // Not every server enforces json_schema, so the schema is spelled out in the prompt as well
+            const jsonPrompt = `${prompt}
+
+            Respond ONLY with JSON (no prose, no code fences) that matches this JSON Schema:
+            ${JSON.stringify(schema)}`;
+            const text = await complete(toMessages(jsonPrompt, systemInstruction), {
+                type: 'json_schema',
+                json_schema: { name: 'response', schema },
+            }, signal, onUsage);
+            return extractJson<T>(text);
+        },
+
+        createChat: ({ systemInstruction, history, onUsage }) => {
+            const messages: OpenAiMessage[] = [
+                { role: 'system', content: systemInstruction },
+                ...history.map(toOpenAiTurn),
+            ];
+            return {
+                sendMessage: async (message) => {
+                    const reply = await complete([...messages, { role: 'user', content: message }], undefined, undefined, onUsage);
+                    // Only remember the turn once it succeeded, like the Gemini chat does
+                    messages.push({ role: 'user', content: message }, { role: 'assistant', content: reply });
+                    return reply;
+                },
+                sendMessageStream: async (message, onText, signal) => {
+                    let partial = '';
+                    try {
+                        const reply = await stream([...messages, { role: 'user', content: message }], text => {
+                            partial = text;
+                            onText(text);
+                        }, signal, onUsage);
+                        messages.push({ role: 'user', content: message }, { role: 'assistant', content: reply });
+                        return reply;
+                    } catch (e) {
+                        // A stopped reply stays in the conversation as far as it got
+                        if (isAbortError(e) && partial) {
+                            messages.push({ role: 'user', content: message }, { role: 'assistant', content: partial });
+                        }
+                        throw e;
+                    }
+                },
+            };
+        },
+    };
+};
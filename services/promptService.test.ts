@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PROMPT_DEFINITIONS, PromptId, findUnknownVariables, renderPrompt, renderTemplate, resolveInherited, resolveTemplate, setOverride, usesTranscript } from './promptService';
+
+const LECTURE = { id: 'a', tags: ['math', 'exam'] };
+
+beforeEach(() => {
+    // Overrides live in localStorage
+    const items = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => { items.set(key, value); },
+        removeItem: (key: string) => { items.delete(key); },
+    });
+});
+
+describe('renderTemplate', () => {
+    it('fills in variables, with or without spaces inside the braces', () => {
+        expect(renderTemplate('{{count}} cards from {{ transcript }}', { count: '5', transcript: 'the text' })).toBe('5 cards from the text');
+    });
+
+    it('leaves unknown variables in place', () => {
+        expect(renderTemplate('Hi {{name}}', {})).toBe('Hi {{name}}');
+    });
+
+    it('collapses the blank lines an empty variable leaves behind', () => {
+        expect(renderTemplate('Intro\n\n{{segmentNote}}\n\nBody\n', { segmentNote: '' })).toBe('Intro\n\nBody');
+    });
+});
+
+describe('resolveTemplate', () => {
+    it('uses the built-in template without overrides', () => {
+        expect(resolveTemplate('summary', LECTURE)).toEqual({ template: PROMPT_DEFINITIONS.summary.template, source: null });
+    });
+
+    it('prefers the lecture, then the first matching tag, then the global override', () => {
+        setOverride({ kind: 'global' }, 'summary', 'global');
+        expect(resolveTemplate('summary', LECTURE).template).toBe('global');
+
+        setOverride({ kind: 'tag', tag: 'exam' }, 'summary', 'exam');
+        setOverride({ kind: 'tag', tag: 'math' }, 'summary', 'math');
+        expect(resolveTemplate('summary', LECTURE)).toEqual({ template: 'math', source: { kind: 'tag', tag: 'math' } });
+
+        setOverride({ kind: 'lecture', lectureId: 'a' }, 'summary', 'own');
+        expect(resolveTemplate('summary', LECTURE).template).toBe('own');
+        expect(resolveTemplate('summary', { id: 'b', tags: [] }).template).toBe('global');
+    });
+
+    it('inherits again once an override is removed', () => {
+        setOverride({ kind: 'lecture', lectureId: 'a' }, 'quiz', 'own');
+        setOverride({ kind: 'lecture', lectureId: 'a' }, 'quiz', null);
+        expect(resolveTemplate('quiz', LECTURE).source).toBeNull();
+    });
+
+    it('tells what a scope would inherit without its own override', () => {
+        setOverride({ kind: 'global' }, 'notes', 'global');
+        setOverride({ kind: 'tag', tag: 'exam' }, 'notes', 'exam');
+        setOverride({ kind: 'lecture', lectureId: 'a' }, 'notes', 'own');
+
+        expect(resolveInherited('notes', { kind: 'lecture', lectureId: 'a' }, LECTURE).template).toBe('exam');
+        expect(resolveInherited('notes', { kind: 'tag', tag: 'exam' }, LECTURE).template).toBe('global');
+        expect(resolveInherited('notes', { kind: 'global' }, LECTURE).source).toBeNull();
+    });
+});
+
+describe('renderPrompt', () => {
+    it('renders the template that applies to the lecture', () => {
+        setOverride({ kind: 'tag', tag: 'exam' }, 'chat', 'Answer about {{transcript}}');
+        expect(renderPrompt('chat', { transcript: 'cells' }, LECTURE)).toBe('Answer about cells');
+    });
+});
+
+describe('template checks', () => {
+    it('finds variables the prompt does not provide', () => {
+        expect(findUnknownVariables('summary', '{{transcript}} {{nope}} {{nope}}')).toEqual(['nope']);
+    });
+
+    it('tells whether the transcript is used', () => {
+        expect(usesTranscript('Summarize {{ transcript }}')).toBe(true);
+        expect(usesTranscript('Summarize {{transcriptText}}')).toBe(false);
+    });
+
+    it('only uses declared variables in the built-in templates', () => {
+        Object.entries(PROMPT_DEFINITIONS).forEach(([id, definition]) => {
+            expect(findUnknownVariables(id as PromptId, definition.template)).toEqual([]);
+        });
+    });
+});
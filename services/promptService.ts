@@ -0,0 +1,314 @@
+import { LectureData } from '../types';
+import type { LlmTask } from './llmProvider';
+
+// Prompt templates for every AI task. Templates use {{variable}} placeholders and can be
+// overridden for all lectures, for lectures with a tag, or for a single lecture.
+
+const PROMPTS_KEY = 'ezi_prompts';
+
+export type PromptId =
+    | 'summary' | 'summaryExpand'
+    | 'flashcards' | 'flashcardsMore'
+    | 'quiz' | 'quizMore'
+    | 'notes' | 'notesMore'
+    | 'mindmap'
+    | 'chat';
+
+export interface PromptDefinition {
+    label: string;
+    task: LlmTask;
+    // Variables the app fills in for this prompt
+    variables: string[];
+    template: string;
+}
+
+// The lecture fields that decide which overrides apply
+export type PromptLecture = Pick<LectureData, 'id' | 'tags'>;
+
+export type PromptScope = { kind: 'global' } | { kind: 'tag'; tag: string } | { kind: 'lecture'; lectureId: string };
+
+type TemplateSet = Partial<Record<PromptId, string>>;
+
+interface PromptOverrides {
+    global: TemplateSet;
+    tags: Record<string, TemplateSet>;
+    lectures: Record<string, TemplateSet>;
+}
+
+export const VARIABLE_DESCRIPTIONS: Record<string, string> = {
+    transcript: 'The lecture transcript, or the part being processed',
+    segmentNote: 'Note telling the model it sees one part of a long lecture (empty for short lectures)',
+    count: 'How many items to create',
+    existing: 'Items the lecture already has, so they are not repeated',
+    existingPoints: 'Main points of the current summary',
+    existingTerms: 'Key terms of the current summary',
+    closingInstruction: 'Whether to end with a review section (only the last part of a long lecture does)',
+    difficulty: 'Difficulty mix chosen when generating',
+    audience: 'Audience level chosen when generating',
+    length: 'Note length chosen when generating',
+    depth: 'Mind map depth chosen when generating (levels below the root)',
+    language: "Language to write in: the lecture's output language, or the transcript's",
+    bilingual: 'Asks for the transcript-language text as well (bilingual lectures only, otherwise empty)',
+};
+
+// Built-in templates
+export const PROMPT_DEFINITIONS: Record<PromptId, PromptDefinition> = {
+    summary: {
+        label: 'Summary',
+        task: 'summary',
+        variables: ['transcript', 'segmentNote', 'audience', 'language', 'bilingual'],
+        template: `Create a comprehensive structured summary of the following lecture transcript.
+Write in {{language}}, for {{audience}}. {{bilingual}}
+{{segmentNote}}
+
+TRANSCRIPT:
+{{transcript}}`,
+    },
+    summaryExpand: {
+        label: 'Summary: expand',
+        task: 'summary',
+        variables: ['transcript', 'existingPoints', 'existingTerms', 'audience', 'language', 'bilingual'],
+        template: `I have a summary of a lecture but I need to expand it with more details.
+
+CURRENT MAIN POINTS:
+{{existingPoints}}
+
+CURRENT KEY TERMS:
+{{existingTerms}}
+
+TASK:
+1. Identify 3-5 NEW main points or details from the transcript that are missing above.
+2. Identify 4-6 NEW key terms/definitions from the transcript that are missing above.
+3. Do NOT change the overview.
+4. Write in {{language}}, for {{audience}}. {{bilingual}}
+
+TRANSCRIPT:
+{{transcript}}`,
+    },
+    flashcards: {
+        label: 'Flashcards',
+        task: 'flashcards',
+        variables: ['transcript', 'segmentNote', 'count', 'difficulty', 'audience', 'language', 'bilingual'],
+        template: `Generate {{count}} study flashcards from this lecture transcript.
+{{segmentNote}}
+
+Instructions:
+1. The 'front' should be a clear Question or a Key Term to define.
+2. The 'back' should be the Answer or Definition.
+3. Ensure content is concise and suitable for rapid review.
+4. Aim for {{difficulty}}, and set each card's difficulty to match.
+5. Write in {{language}}, for {{audience}}. {{bilingual}}
+
+TRANSCRIPT:
+{{transcript}}`,
+    },
+    flashcardsMore: {
+        label: 'Flashcards: more',
+        task: 'flashcards',
+        variables: ['transcript', 'count', 'existing', 'difficulty', 'audience', 'language', 'bilingual'],
+        template: `Generate {{count}} NEW and DISTINCT study flashcards from this lecture transcript.
+Do NOT repeat the following concepts which are already covered: {{existing}}...
+
+Instructions:
+1. The 'front' should be a clear Question or a Key Term to define.
+2. The 'back' should be the Answer or Definition.
+3. Ensure content is concise.
+4. Aim for {{difficulty}}, and set each card's difficulty to match.
+5. Write in {{language}}, for {{audience}}. {{bilingual}}
+
+TRANSCRIPT:
+{{transcript}}`,
+    },
+    quiz: {
+        label: 'Quiz',
+        task: 'quiz',
+        variables: ['transcript', 'segmentNote', 'count', 'difficulty', 'audience', 'language'],
+        template: `Create a {{count}}-question multiple choice quiz based on this transcript.
+Every question has exactly 4 distinct options, and correctAnswer is copied exactly from one of them.
+Aim for {{difficulty}}, written in {{language}} for {{audience}}.
+{{segmentNote}}
+
+TRANSCRIPT:
+{{transcript}}`,
+    },
+    quizMore: {
+        label: 'Quiz: more',
+        task: 'quiz',
+        variables: ['transcript', 'count', 'existing', 'difficulty', 'audience', 'language'],
+        template: `Create {{count}} NEW multiple choice questions based on this transcript.
+Every question has exactly 4 distinct options, and correctAnswer is copied exactly from one of them.
+Aim for {{difficulty}}, written in {{language}} for {{audience}}.
+Avoid these topics/questions: {{existing}}...
+
+TRANSCRIPT:
+{{transcript}}`,
+    },
+    notes: {
+        label: 'Study Notes',
+        task: 'notes',
+        variables: ['transcript', 'segmentNote', 'closingInstruction', 'length', 'audience', 'language'],
+        template: `Transform this lecture transcript into structured, markdown-formatted study notes. Use headers, bullet points, and bold text for emphasis. {{closingInstruction}}
+{{length}} Write in {{language}}, for {{audience}}.
+{{segmentNote}}
+
+TRANSCRIPT:
+{{transcript}}`,
+    },
+    notesMore: {
+        label: 'Study Notes: deep dive',
+        task: 'notes',
+        variables: ['transcript', 'existing', 'audience', 'language'],
+        template: `You are an expert tutor.
+1. Analyze the lecture transcript and the existing study notes provided below.
+2. Identify the 3-4 most complex or significant concepts that need further clarification.
+3. Generate a "Deep Dive & Explanations" section in Markdown.
+4. For each selected concept, provide a detailed explanation, a useful analogy, and a concrete example.
+5. Do NOT repeat the existing notes verbatim.
+6. Start your response with a horizontal rule (---) and a header "## Deep Dive & Explanations".
+7. Write in {{language}}, for {{audience}}.
+
+EXISTING NOTES:
+{{existing}}
+
+TRANSCRIPT:
+{{transcript}}`,
+    },
+    mindmap: {
+        label: 'Mind Map',
+        task: 'mindmap',
+        variables: ['transcript', 'segmentNote', 'depth', 'language'],
+        template: `Analyze the following lecture transcript and create a hierarchical mind map structure using Mermaid.js syntax (Graph).
+{{segmentNote}}
+
+RULES:
+1. Use 'graph LR' (Left to Right) as the base direction.
+2. The root node should be the main topic of the lecture.
+3. Branch out into major concepts, then sub-concepts, at most {{depth}} levels below the root.
+4. Keep node text concise (1-4 words max) to ensure the map remains readable.
+5. Use standard brackets for nodes with QUOTED labels: id["Label"].
+6. Output ONLY the raw Mermaid syntax. Do not wrap it in markdown code blocks.
+7. Do not use special characters inside labels that might break SVG rendering.
+8. Write the labels in {{language}}.
+
+TRANSCRIPT:
+{{transcript}}`,
+    },
+    chat: {
+        label: 'AI Chat (system instruction)',
+        task: 'chat',
+        variables: ['transcript', 'audience', 'language'],
+        template: `You are a helpful and knowledgeable teaching assistant.
+You will be answering questions about a specific lecture.
+
+LECTURE CONTENT:
+{{transcript}}
+
+RULES:
+1. Answer questions based ONLY on the provided lecture content.
+2. If the answer cannot be found in the lecture, politely state that the information is not in the recording.
+3. Keep answers concise and helpful, pitched at {{audience}}.
+4. Do not hallucinate information outside of the provided text.`,
+    },
+};
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// --- Overrides ---
+
+const EMPTY_OVERRIDES: PromptOverrides = { global: {}, tags: {}, lectures: {} };
+
+export const getOverrides = (): PromptOverrides => {
+    const storedStr = localStorage.getItem(PROMPTS_KEY);
+    if (!storedStr) return EMPTY_OVERRIDES;
+    try {
+        return { ...EMPTY_OVERRIDES, ...JSON.parse(storedStr) };
+    } catch (e) {
+        console.error("Error parsing prompt templates", e);
+        return EMPTY_OVERRIDES;
+    }
+};
+
+const getScopeSet = (overrides: PromptOverrides, scope: PromptScope): TemplateSet => {
+    if (scope.kind === 'global') return overrides.global;
+    if (scope.kind === 'tag') return overrides.tags[scope.tag] || {};
+    return overrides.lectures[scope.lectureId] || {};
+};
+
+export const getOverride = (scope: PromptScope, id: PromptId): string | undefined => getScopeSet(getOverrides(), scope)[id];
+
+// Stores a template for the scope; null removes the override so the scope inherits again
+export const setOverride = (scope: PromptScope, id: PromptId, template: string | null): void => {
+    const overrides = getOverrides();
+    const set = { ...getScopeSet(overrides, scope) };
+    if (template === null) {
+        delete set[id];
+    } else {
+        set[id] = template;
+    }
+
+    const next: PromptOverrides = { global: overrides.global, tags: { ...overrides.tags }, lectures: { ...overrides.lectures } };
+    if (scope.kind === 'global') {
+        next.global = set;
+    } else if (scope.kind === 'tag') {
+        next.tags[scope.tag] = set;
+    } else {
+        next.lectures[scope.lectureId] = set;
+    }
+    localStorage.setItem(PROMPTS_KEY, JSON.stringify(next));
+};
+
+// Lecture overrides win over tag overrides (first matching tag), then the global override
+export const resolveTemplate = (id: PromptId, lecture?: PromptLecture): { template: string; source: PromptScope | null } => {
+    const overrides = getOverrides();
+    if (lecture) {
+        const own = overrides.lectures[lecture.id]?.[id];
+        if (own !== undefined) return { template: own, source: { kind: 'lecture', lectureId: lecture.id } };
+        for (const tag of lecture.tags || []) {
+            const tagged = overrides.tags[tag]?.[id];
+            if (tagged !== undefined) return { template: tagged, source: { kind: 'tag', tag } };
+        }
+    }
+    const global = overrides.global[id];
+    if (global !== undefined) return { template: global, source: { kind: 'global' } };
+    return { template: PROMPT_DEFINITIONS[id].template, source: null };
+};
+
+// Template the scope would use if it had no override of its own, and where it comes from
+export const resolveInherited = (id: PromptId, scope: PromptScope, lecture?: PromptLecture): { template: string; source: PromptScope | null } => {
+    const overrides = getOverrides();
+    if (scope.kind === 'lecture' && lecture) {
+        for (const tag of lecture.tags || []) {
+            const tagged = overrides.tags[tag]?.[id];
+            if (tagged !== undefined) return { template: tagged, source: { kind: 'tag', tag } };
+        }
+    }
+    const global = overrides.global[id];
+    if (scope.kind !== 'global' && global !== undefined) return { template: global, source: { kind: 'global' } };
+    return { template: PROMPT_DEFINITIONS[id].template, source: null };
+};
+
+// --- Rendering ---
+
+// Unknown variables are left in place so mistakes show up in the preview
+export const renderTemplate = (template: string, variables: Record<string, string>): string => {
+    return template
+        .replace(VARIABLE_PATTERN, (match, name: string) => (name in variables ? variables[name] : match))
+        // Empty variables (e.g. segmentNote) shouldn't leave runs of blank lines behind
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+};
+
+export const renderPrompt = (id: PromptId, variables: Record<string, string>, lecture?: PromptLecture): string => {
+    return renderTemplate(resolveTemplate(id, lecture).template, variables);
+};
+
+export const findUnknownVariables = (id: PromptId, template: string): string[] => {
+    const known = new Set(PROMPT_DEFINITIONS[id].variables);
+    const names = Array.from(template.matchAll(VARIABLE_PATTERN), match => match[1]);
+    return Array.from(new Set(names.filter(name => !known.has(name))));
+};
+
+// The transcript is the one variable no prompt can do without
+export const usesTranscript = (template: string): boolean => {
+    return Array.from(template.matchAll(VARIABLE_PATTERN)).some(match => match[1] === 'transcript');
+};
@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { LlmProvider, ProviderId, TextRequest } from './llmProvider';
+import { AiWait, RequestError, getRetryAfterMs, subscribeToAiWaits, withNetworkErrors, withRequestLayer } from './requestService';
+import { recordUsage } from './usageService';
+
+vi.mock('./settingsService', () => ({
+    getSettings: () => ({ requestsPerMinute: { gemini: 2, openai: 0, mock: 0 } }),
+}));
+
+vi.mock('./usageService', () => ({
+    recordUsage: vi.fn(() => Promise.resolve()),
+}));
+
+// A provider whose generateText runs the given implementation
+const createProvider = (id: ProviderId, generateText: (request: TextRequest) => Promise<string>) => {
+    const provider = { id, generateText: vi.fn(generateText) } as unknown as LlmProvider & { generateText: ReturnType<typeof vi.fn> };
+    return { provider, layer: withRequestLayer(provider, 'summary', { modelId: `${id}:model` }) };
+};
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(recordUsage).mockClear();
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('getRetryAfterMs', () => {
+    it('reads an explicit delay, Gemini RetryInfo and "retry in Ns" messages', () => {
+        expect(getRetryAfterMs(new RequestError('x', 429, 1500))).toBe(1500);
+        expect(getRetryAfterMs(new Error('{"@type":"RetryInfo","retryDelay":"12s"}'))).toBe(12000);
+        expect(getRetryAfterMs(new Error('Please retry in 3.2s.'))).toBe(3200);
+        expect(getRetryAfterMs(new Error('Bad request'))).toBeUndefined();
+    });
+});
+
+describe('withNetworkErrors', () => {
+    it('turns failed connections into retryable network errors', async () => {
+        const error = await withNetworkErrors(Promise.reject(new TypeError('Failed to fetch'))).catch(e => e);
+        expect(error).toBeInstanceOf(RequestError);
+        expect(error.network).toBe(true);
+    });
+
+    it('leaves other errors alone', async () => {
+        const original = new Error('boom');
+        await expect(withNetworkErrors(Promise.reject(original))).rejects.toBe(original);
+    });
+});
+
+describe('retries', () => {
+    it('retries transient failures with backoff', async () => {
+        let failures = 2;
+        const { provider, layer } = createProvider('openai', async () => {
+            if (failures-- > 0) throw new RequestError('Unavailable', 503);
+            return 'ok';
+        });
+
+        const result = layer.generateText({ prompt: 'p' });
+        await vi.advanceTimersByTimeAsync(0);
+        expect(provider.generateText).toHaveBeenCalledTimes(1);
+        // The first retry waits two seconds plus up to one second of jitter
+        await vi.advanceTimersByTimeAsync(1999);
+        expect(provider.generateText).toHaveBeenCalledTimes(1);
+        await vi.runAllTimersAsync();
+
+        await expect(result).resolves.toBe('ok');
+        expect(provider.generateText).toHaveBeenCalledTimes(3);
+    });
+
+    it('waits as long as the server asks', async () => {
+        const { provider, layer } = createProvider('openai', async () => {
+            if (provider.generateText.mock.calls.length === 1) throw new RequestError('Quota', 429, 5000);
+            return 'ok';
+        });
+
+        const result = layer.generateText({ prompt: 'p' });
+        await vi.advanceTimersByTimeAsync(4999);
+        expect(provider.generateText).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        await expect(result).resolves.toBe('ok');
+    });
+
+    it('retries network errors but not other failures', async () => {
+        const network = createProvider('openai', () => withNetworkErrors(Promise.reject(new TypeError('Failed to fetch'))));
+        const networkResult = expect(network.layer.generateText({ prompt: 'p' })).rejects.toThrow('Network error');
+        await vi.runAllTimersAsync();
+        await networkResult;
+        // Gives up after five attempts
+        expect(network.provider.generateText).toHaveBeenCalledTimes(5);
+
+        const invalid = createProvider('openai', async () => { throw new RequestError('Bad request', 400); });
+        await expect(invalid.layer.generateText({ prompt: 'p' })).rejects.toThrow('Bad request');
+        expect(invalid.provider.generateText).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops waiting when the request is cancelled', async () => {
+        const { provider, layer } = createProvider('openai', async () => { throw new RequestError('Unavailable', 503); });
+        const controller = new AbortController();
+
+        const result = expect(layer.generateText({ prompt: 'p', signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+        await vi.advanceTimersByTimeAsync(0);
+        controller.abort();
+        await result;
+        expect(provider.generateText).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('rate limiting', () => {
+    it('lets a minute\'s worth of requests through, then spaces them out', async () => {
+        const { provider, layer } = createProvider('gemini', async () => 'ok');
+        let waits: AiWait[] = [];
+        const unsubscribe = subscribeToAiWaits(next => { waits = next; });
+
+        const results = Promise.all([1, 2, 3].map(() => layer.generateText({ prompt: 'p' })));
+        await vi.advanceTimersByTimeAsync(0);
+        // Two requests per minute: the third waits half a minute for a token
+        expect(provider.generateText).toHaveBeenCalledTimes(2);
+        expect(waits).toMatchObject([{ task: 'summary', reason: 'quota' }]);
+
+        await vi.advanceTimersByTimeAsync(30000);
+        await results;
+        expect(provider.generateText).toHaveBeenCalledTimes(3);
+        expect(waits).toEqual([]);
+        unsubscribe();
+    });
+});
+
+describe('usage recording', () => {
+    it('records calls that fail, with the usage the provider reported', async () => {
+        const { layer } = createProvider('openai', async request => {
+            request.onUsage?.({ inputTokens: 10, outputTokens: 2 });
+            throw new RequestError('Bad request', 400);
+        });
+
+        await expect(layer.generateText({ prompt: 'p' })).rejects.toThrow('Bad request');
+        expect(recordUsage).toHaveBeenCalledWith(expect.objectContaining({ task: 'summary', model: 'openai:model', inputTokens: 10, outputTokens: 2 }));
+    });
+
+    it('records every attempt of a retried call', async () => {
+        let failures = 1;
+        const { layer } = createProvider('openai', async () => {
+            if (failures-- > 0) throw new RequestError('Unavailable', 503);
+            return 'ok';
+        });
+
+        const result = layer.generateText({ prompt: 'p' });
+        await vi.runAllTimersAsync();
+        await result;
+        expect(recordUsage).toHaveBeenCalledTimes(2);
+    });
+});
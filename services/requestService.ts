@@ -0,0 +1,228 @@
+import type { LlmProvider, LlmTask, ProviderId, TokenUsage, UsageListener } from './llmProvider';
+import * as SettingsService from './settingsService';
+import * as UsageService from './usageService';
+import { v4 as uuidv4 } from 'uuid';
+
+// Shared request layer for AI calls: a client-side rate limiter per provider, retries
+// with exponential backoff, a feed of current waits for the UI, and usage recording.
+
+const MAX_ATTEMPTS = 5;
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 60000;
+// Quota, timeout and transient server errors; everything else fails immediately
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+// Error from a provider's HTTP layer, carrying what the retry logic needs.
+// `network` marks requests that never got a response (offline, DNS, connection reset).
+export class RequestError extends Error {
+    constructor(message: string, public status?: number, public retryAfterMs?: number, public network = false) {
+        super(message);
+        this.name = 'RequestError';
+    }
+}
+
+// fetch, and reading a response body, reject with a TypeError when the connection fails.
+// Wrap only those promises, so TypeErrors from bugs elsewhere still fail immediately.
+export const withNetworkErrors = <T>(pending: Promise<T>): Promise<T> => pending.catch(error => {
+    if (error instanceof TypeError) throw new RequestError(`Network error: ${error.message}`, undefined, undefined, true);
+    throw error;
+});
+
+// Same shape as the error fetch and the Gemini SDK reject with when their signal fires
+export const abortError = (): DOMException => new DOMException("The request was cancelled", 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+    typeof error === 'object' && error !== null && 'name' in error && error.name === 'AbortError';
+
+export type WaitReason = 'quota' | 'retry';
+
+export interface AiWait {
+    id: string;
+    task: LlmTask;
+    reason: WaitReason;
+    until: number; // epoch ms
+    attempt?: number;
+}
+
+// --- Wait status ---
+
+let waits: AiWait[] = [];
+const listeners = new Set<(waits: AiWait[]) => void>();
+
+const setWaits = (next: AiWait[]) => {
+    waits = next;
+    listeners.forEach(listener => listener(waits));
+};
+
+export const subscribeToAiWaits = (listener: (waits: AiWait[]) => void): (() => void) => {
+    listeners.add(listener);
+    listener(waits);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+// Resolves after `ms`, or rejects with an AbortError as soon as the signal fires
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Sleeps while the wait is listed for the UI
+const visibleSleep = async (ms: number, wait: Omit<AiWait, 'id' | 'until'>, signal?: AbortSignal) => {
+    const entry: AiWait = { ...wait, id: uuidv4(), until: Date.now() + ms };
+    setWaits([...waits, entry]);
+    try {
+        await sleep(ms, signal);
+    } finally {
+        setWaits(waits.filter(w => w.id !== entry.id));
+    }
+};
+
+// --- Rate limiting ---
+
+interface TokenBucket {
+    requestsPerMinute: number;
+    tokens: number;
+    refilledAt: number;
+    // Requests take tokens in arrival order
+    queue: Promise<void>;
+}
+
+const buckets = new Map<ProviderId, TokenBucket>();
+
+const getBucket = (providerId: ProviderId, requestsPerMinute: number): TokenBucket => {
+    const existing = buckets.get(providerId);
+    if (existing && existing.requestsPerMinute === requestsPerMinute) return existing;
+    // A full minute's worth may go out at once, then requests are spread evenly
+    const bucket: TokenBucket = { requestsPerMinute, tokens: requestsPerMinute, refilledAt: Date.now(), queue: Promise.resolve() };
+    buckets.set(providerId, bucket);
+    return bucket;
+};
+
+const takeToken = (providerId: ProviderId, task: LlmTask, signal?: AbortSignal): Promise<void> => {
+    const requestsPerMinute = SettingsService.getSettings().requestsPerMinute[providerId] || 0;
+    if (requestsPerMinute <= 0) return Promise.resolve();
+
+    const bucket = getBucket(providerId, requestsPerMinute);
+    const perMs = requestsPerMinute / 60000;
+    const acquire = async () => {
+        // Requests cancelled while queued give up their turn without using a token
+        if (signal?.aborted) throw abortError();
+        const now = Date.now();
+        bucket.tokens = Math.min(requestsPerMinute, bucket.tokens + (now - bucket.refilledAt) * perMs);
+        bucket.refilledAt = now;
+        if (bucket.tokens < 1) {
+            await visibleSleep(Math.ceil((1 - bucket.tokens) / perMs), { task, reason: 'quota' }, signal);
+            bucket.tokens = 1;
+            bucket.refilledAt = Date.now();
+        }
+        bucket.tokens -= 1;
+    };
+
+    const turn = bucket.queue.then(acquire);
+    bucket.queue = turn.catch(() => undefined);
+    return turn;
+};
+
+// --- Retries ---
+
+const getStatus = (error: any): number | undefined => typeof error?.status === 'number' ? error.status : undefined;
+
+// Server-provided delay: an explicit value, Gemini's RetryInfo detail, or "retry in Ns" in the message
+export const getRetryAfterMs = (error: any): number | undefined => {
+    if (typeof error?.retryAfterMs === 'number') return error.retryAfterMs;
+    const message = String(error?.message || '');
+    const match = message.match(/"retryDelay"\s*:\s*"([\d.]+)s"/) || message.match(/retry in ([\d.]+)\s*s/i);
+    return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+const isRetryable = (error: any): boolean => {
+    const status = getStatus(error);
+    if (status !== undefined) return RETRYABLE_STATUS.has(status);
+    return error instanceof RequestError && error.network;
+};
+
+const backoffDelay = (attempt: number, error: unknown): number => {
+    const hinted = getRetryAfterMs(error);
+    if (hinted !== undefined) return Math.min(hinted, MAX_DELAY_MS);
+    // Jitter keeps parallel generations from retrying in lockstep
+    return Math.min(BASE_DELAY_MS * 2 ** (attempt - 1), MAX_DELAY_MS) + Math.floor(Math.random() * 1000);
+};
+
+const withRetry = async <T>(task: LlmTask, call: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await call();
+        } catch (error) {
+            if (attempt >= MAX_ATTEMPTS || signal?.aborted || !isRetryable(error)) throw error;
+            console.warn(`${task} request failed (attempt ${attempt}/${MAX_ATTEMPTS}), retrying`, error);
+            await visibleSleep(backoffDelay(attempt, error), { task, reason: 'retry', attempt: attempt + 1 }, signal);
+        }
+    }
+};
+
+// --- Usage ---
+
+// Rough count for providers that don't report usage: about four characters per token
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export interface UsageContext {
+    // "provider:model" the calls go to
+    modelId: string;
+    lectureId?: string;
+}
+
+// Wraps a provider so every call is rate limited, retried and recorded
+export const withRequestLayer = (provider: LlmProvider, task: LlmTask, context: UsageContext): LlmProvider => {
+    // Times one attempt from when it gets its turn. Attempts that fail or are stopped are
+    // recorded too, with whatever usage the provider reported, since they may have used tokens.
+    const run = <T>(call: (onUsage: UsageListener) => Promise<T>, signal?: AbortSignal) => withRetry(task, async () => {
+        await takeToken(provider.id, task, signal);
+        const startedAt = Date.now();
+        let usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+        try {
+            return await call(reported => { usage = reported; });
+        } finally {
+            UsageService.recordUsage({
+                task,
+                model: context.modelId,
+                lectureId: context.lectureId,
+                ...usage,
+                latencyMs: Date.now() - startedAt,
+            }).catch(e => console.warn("Failed to record AI usage", e));
+        }
+    }, signal);
+
+    return {
+        id: provider.id,
+        generateText: (request) => run(onUsage => provider.generateText({ ...request, onUsage }), request.signal),
+        // A stream that fails midway starts over; listeners simply receive the new text
+        streamText: (request, onText) => run(onUsage => provider.streamText({ ...request, onUsage }, onText), request.signal),
+        generateJson: <T>(request: Parameters<LlmProvider['generateJson']>[0]) => run(onUsage => provider.generateJson<T>({ ...request, onUsage }), request.signal),
+        createChat: (options) => {
+            // The chat reports usage per message; messages are sent one at a time, so it
+            // belongs to whichever call is in flight
+            let report: UsageListener = () => undefined;
+            const chat = provider.createChat({ ...options, onUsage: usage => report(usage) });
+            return {
+                sendMessage: (message) => run(onUsage => {
+                    report = onUsage;
+                    return chat.sendMessage(message);
+                }),
+                sendMessageStream: (message, onText, signal) => run(onUsage => {
+                    report = onUsage;
+                    return chat.sendMessageStream(message, onText, signal);
+                }, signal),
+            };
+        },
+    };
+};
@@ -0,0 +1,138 @@
+import { LectureData, GeneratedArtifact, ArtifactContent, ArtifactRevision, SummaryData, Flashcard, QuizQuestion, TranscriptCoverage } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+
+// Versions kept per artifact; the oldest are dropped first
+export const MAX_REVISIONS = 10;
+
+// Which LectureData field holds each artifact
+export const ARTIFACT_FIELDS: Record<GeneratedArtifact, 'summary' | 'flashcards' | 'quiz' | 'studyNotes' | 'mindmap'> = {
+    summary: 'summary',
+    flashcards: 'flashcards',
+    quiz: 'quiz',
+    notes: 'studyNotes',
+    mindmap: 'mindmap',
+};
+
+export const ARTIFACT_LABELS: Record<GeneratedArtifact, string> = {
+    summary: 'Summary',
+    flashcards: 'Flashcards',
+    quiz: 'Quiz',
+    notes: 'Study Notes',
+    mindmap: 'Mind Map',
+};
+
+export const getArtifactContent = (lecture: LectureData, artifact: GeneratedArtifact): ArtifactContent | undefined => {
+    return lecture[ARTIFACT_FIELDS[artifact]];
+};
+
+export const getRevisions = (lecture: LectureData, artifact: GeneratedArtifact): ArtifactRevision[] => {
+    return lecture.revisions?.[artifact] || [];
+};
+
+const sameContent = (a: ArtifactContent | undefined, b: ArtifactContent | undefined) => JSON.stringify(a) === JSON.stringify(b);
+
+export const isCurrentRevision = (lecture: LectureData, artifact: GeneratedArtifact, revision: ArtifactRevision) => {
+    return sameContent(getArtifactContent(lecture, artifact), revision.content);
+};
+
+// Returns the patch that stores new content for an artifact and logs it in the history.
+// Content generated before history existed is logged first so it isn't lost on regeneration.
+// Without a coverage (e.g. "generate more" additions) the artifact keeps its previous one;
+// null clears it when the coverage is unknown, e.g. for a stopped generation.
+export const recordRevision = (
+    lecture: LectureData,
+    artifact: GeneratedArtifact,
+    content: ArtifactContent,
+    generator: string,
+    coverage: TranscriptCoverage | null | undefined = lecture.coverage?.[artifact]
+): Partial<LectureData> => {
+    let history = [...getRevisions(lecture, artifact)];
+    const existing = getArtifactContent(lecture, artifact);
+    if (history.length === 0 && existing !== undefined) {
+        history.push({ id: uuidv4(), createdAt: lecture.date, generator: 'unknown', content: existing });
+    }
+
+    history.push({ id: uuidv4(), createdAt: new Date().toISOString(), generator, content, coverage: coverage || undefined });
+    history = history.slice(-MAX_REVISIONS);
+
+    return {
+        [ARTIFACT_FIELDS[artifact]]: content,
+        revisions: { ...lecture.revisions, [artifact]: history },
+        coverage: withCoverage(lecture, artifact, coverage),
+    };
+};
+
+const withCoverage = (lecture: LectureData, artifact: GeneratedArtifact, coverage: TranscriptCoverage | null | undefined) => {
+    const next = { ...lecture.coverage };
+    if (coverage) {
+        next[artifact] = coverage;
+    } else {
+        delete next[artifact];
+    }
+    return next;
+};
+
+export const restoreRevision = (lecture: LectureData, artifact: GeneratedArtifact, revisionId: string): Partial<LectureData> => {
+    const revision = getRevisions(lecture, artifact).find(r => r.id === revisionId);
+    if (!revision) return {};
+    return {
+        [ARTIFACT_FIELDS[artifact]]: revision.content,
+        coverage: withCoverage(lecture, artifact, revision.coverage),
+    };
+};
+
+// Flattens an artifact into comparable lines for the diff view
+export const contentToLines = (artifact: GeneratedArtifact, content: ArtifactContent | undefined): string[] => {
+    if (content === undefined) return [];
+
+    if (artifact === 'summary') {
+        const summary = content as SummaryData;
+        return [
+            summary.overview,
+            ...(summary.mainPoints || []).map(p => `• ${p}`),
+            ...(summary.keyTerms || []).map(k => `${k.term}: ${k.definition}`),
+        ];
+    }
+    if (artifact === 'flashcards') {
+        return (content as Flashcard[]).map(c => `[${c.difficulty}] ${c.front} → ${c.back}`);
+    }
+    if (artifact === 'quiz') {
+        return (content as QuizQuestion[]).map(q => `${q.question} (${q.correctAnswer})`);
+    }
+    return (content as string).split('\n').filter(line => line.trim());
+};
+
+export interface DiffLine {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+// Line-level LCS diff from `before` to `after`
+export const diffLines = (before: string[], after: string[]): DiffLine[] => {
+    const n = before.length;
+    const m = after.length;
+    const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const result: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (before[i] === after[j]) {
+            result.push({ type: 'same', text: before[i] });
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            result.push({ type: 'removed', text: before[i++] });
+        } else {
+            result.push({ type: 'added', text: after[j++] });
+        }
+    }
+    while (i < n) result.push({ type: 'removed', text: before[i++] });
+    while (j < m) result.push({ type: 'added', text: after[j++] });
+    return result;
+};
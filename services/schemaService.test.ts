@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, UnsupportedSchemaError, createBundle, readBundle, upgradeLecture } from './schemaService';
+
+describe('upgradeLecture', () => {
+    it('fills in the fields v1 records treated as optional', () => {
+        const lecture = upgradeLecture({ id: 'a', transcriptText: 'Hello', date: '2024-01-01T00:00:00.000Z', duration: 30 });
+
+        expect(lecture.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+        expect(lecture.chunks).toEqual([]);
+        expect(lecture.tags).toEqual([]);
+        expect(lecture.title).toBeTruthy();
+        // The legacy transcript becomes one session covering all of it
+        expect(lecture.sessions).toHaveLength(1);
+        expect(lecture.sessions[0]).toMatchObject({ text: 'Hello', duration: 30, startTime: '2024-01-01T00:00:00.000Z' });
+    });
+
+    it('keeps the sessions and tags a record already has', () => {
+        const sessions = [{ id: 's', startTime: 'x', endTime: 'y', duration: 1, text: 't' }];
+        const lecture = upgradeLecture({ id: 'a', transcriptText: 't', sessions, tags: ['math'] });
+
+        expect(lecture.sessions).toEqual(sessions);
+        expect(lecture.tags).toEqual(['math']);
+    });
+
+    it('leaves current records as they are', () => {
+        const record = { id: 'a', title: 'T', transcriptText: '', sessions: [], chunks: [], schemaVersion: CURRENT_SCHEMA_VERSION };
+        expect(upgradeLecture(record)).toEqual(record);
+    });
+
+    it('rejects records from a newer schema', () => {
+        expect(() => upgradeLecture({ id: 'a', schemaVersion: CURRENT_SCHEMA_VERSION + 1 })).toThrow(UnsupportedSchemaError);
+    });
+});
+
+describe('readBundle', () => {
+    it('reads pre-versioned exports, whose version is the string "1.0"', () => {
+        const [lecture] = readBundle({ version: '1.0', data: [{ id: 'a', transcriptText: 'Hi' }] });
+        expect(lecture.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+        expect(lecture.sessions).toHaveLength(1);
+    });
+
+    it('skips entries without an id', () => {
+        expect(readBundle({ version: 2, data: [null, { title: 'no id' }, { id: 'a' }] }).map(l => l.id)).toEqual(['a']);
+    });
+
+    it('rejects files that are not bundles or come from a newer schema', () => {
+        expect(() => readBundle({ lectures: [] })).toThrow("Invalid format");
+        expect(() => readBundle({ version: CURRENT_SCHEMA_VERSION + 1, data: [] })).toThrow(UnsupportedSchemaError);
+    });
+
+    it('reads back what createBundle writes', () => {
+        const lecture = upgradeLecture({ id: 'a', title: 'T', transcriptText: 'Hi', date: '2024-01-01T00:00:00.000Z', duration: 5 });
+        expect(readBundle(JSON.parse(JSON.stringify(createBundle([lecture]))))).toEqual([lecture]);
+    });
+});
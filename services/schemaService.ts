@@ -0,0 +1,89 @@
+import { LectureData, ExportBundle, TranscriptSession } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+
+// Bump this and append an upgrade step whenever the shape of LectureData changes.
+// Version 1 is everything written before records carried a version.
+export const CURRENT_SCHEMA_VERSION = 2;
+
+export class UnsupportedSchemaError extends Error {
+    constructor(version: number) {
+        super(`This data was created by a newer version of Ezi (schema v${version}, this app supports up to v${CURRENT_SCHEMA_VERSION}). Please update the app before importing it.`);
+        this.name = 'UnsupportedSchemaError';
+    }
+}
+
+type UpgradeStep = (record: any) => any;
+
+// upgrades[n] takes a record from version n to n + 1
+const upgrades: Record<number, UpgradeStep> = {
+    // v1 -> v2: fill in fields older builds treated as optional
+    1: (record) => {
+        const transcriptText = typeof record.transcriptText === 'string' ? record.transcriptText : '';
+        const duration = typeof record.duration === 'number' ? record.duration : 0;
+        const date = record.date || new Date().toISOString();
+
+        let sessions: TranscriptSession[] = Array.isArray(record.sessions) ? record.sessions : [];
+        if (sessions.length === 0 && transcriptText) {
+            // Single implicit session covering the whole legacy transcript
+            sessions = [{ id: uuidv4(), startTime: date, endTime: date, duration, text: transcriptText }];
+        }
+
+        return {
+            ...record,
+            title: record.title || `Lecture ${new Date(date).toLocaleString()}`,
+            date,
+            duration,
+            transcriptText,
+            sessions,
+            chunks: Array.isArray(record.chunks) ? record.chunks : [],
+            tags: Array.isArray(record.tags) ? record.tags : [],
+        };
+    },
+};
+
+const parseVersion = (version: unknown): number => {
+    if (typeof version === 'number' && Number.isFinite(version)) return version;
+    // Pre-versioned exports used the string "1.0"
+    if (typeof version === 'string') {
+        const major = parseInt(version, 10);
+        if (!isNaN(major)) return major;
+    }
+    return 1;
+};
+
+export const upgradeLecture = (record: any, fallbackVersion = 1): LectureData => {
+    let version = record.schemaVersion !== undefined ? parseVersion(record.schemaVersion) : fallbackVersion;
+    if (version > CURRENT_SCHEMA_VERSION) {
+        throw new UnsupportedSchemaError(version);
+    }
+
+    let upgraded = record;
+    while (version < CURRENT_SCHEMA_VERSION) {
+        upgraded = upgrades[version](upgraded);
+        version++;
+    }
+    return { ...upgraded, schemaVersion: CURRENT_SCHEMA_VERSION };
+};
+
+// Validates an export bundle and brings every lecture in it up to the current schema
+export const readBundle = (parsed: any): LectureData[] => {
+    if (!parsed || !Array.isArray(parsed.data)) {
+        throw new Error("Invalid format");
+    }
+
+    const bundleVersion = parseVersion(parsed.version);
+    if (bundleVersion > CURRENT_SCHEMA_VERSION) {
+        throw new UnsupportedSchemaError(bundleVersion);
+    }
+
+    return parsed.data
+        .filter((record: any) => record && typeof record.id === 'string')
+        .map((record: any) => upgradeLecture(record, bundleVersion));
+};
+
+export const createBundle = (lectures: LectureData[]): ExportBundle => ({
+    app: "Ezi",
+    version: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    data: lectures.map(l => ({ ...l, schemaVersion: CURRENT_SCHEMA_VERSION })),
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MAX_SEGMENT_CHARS, coveragePercent, dedupeBy, mapSegments, segmentContext, splitTranscript } from './segmentService';
+
+const words = (count: number) => Array.from({ length: count }, (_, i) => `word${i}`).join(' ');
+
+describe('splitTranscript', () => {
+    it('keeps short transcripts whole', () => {
+        expect(splitTranscript('Short text', 100, 10)).toEqual([{ index: 0, total: 1, start: 0, end: 10, text: 'Short text' }]);
+    });
+
+    it('covers the whole transcript with overlapping segments no longer than the limit', () => {
+        const transcript = words(200);
+        const segments = splitTranscript(transcript, 300, 50);
+
+        expect(segments.length).toBeGreaterThan(1);
+        expect(segments[0].start).toBe(0);
+        expect(segments[segments.length - 1].end).toBe(transcript.length);
+        segments.forEach((segment, i) => {
+            expect(segment.text.length).toBeLessThanOrEqual(300);
+            expect(segment.text).toBe(transcript.slice(segment.start, segment.end));
+            expect(segment.total).toBe(segments.length);
+            if (i > 0) {
+                // Overlaps the previous segment and starts at a word
+                expect(segment.start).toBeLessThan(segments[i - 1].end);
+                expect(transcript[segment.start - 1]).toBe(' ');
+            }
+        });
+    });
+
+    it('prefers to break at a paragraph', () => {
+        const transcript = `${'a '.repeat(60)}\n\n${'b '.repeat(100)}`;
+        const [first] = splitTranscript(transcript, 150, 60);
+        expect(first.text.endsWith('\n\n')).toBe(true);
+    });
+});
+
+describe('mapSegments', () => {
+    const transcript = words(MAX_SEGMENT_CHARS / 4);
+
+    it('leaves failed segments out of the results and the coverage', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const { results, coverage } = await mapSegments(transcript, async segment => {
+            if (segment.index === segment.total - 1) throw new Error('boom');
+            return segment.index;
+        });
+
+        expect(coverage.segments).toBeGreaterThan(1);
+        expect(coverage.failedSegments).toBe(1);
+        expect(results).toHaveLength(coverage.segments - 1);
+        expect(coverage.coveredChars).toBeLessThan(transcript.length);
+        expect(coveragePercent(coverage)).toBeLessThan(100);
+    });
+
+    it('fails when every segment does, and on cancellation', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        await expect(mapSegments(transcript, async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+
+        const abort = Object.assign(new Error('stopped'), { name: 'AbortError' });
+        await expect(mapSegments(transcript, async segment => {
+            if (segment.index === 0) throw abort;
+            return segment.index;
+        })).rejects.toBe(abort);
+    });
+
+    it('covers the whole transcript when every segment succeeds', async () => {
+        const { coverage } = await mapSegments(transcript, async segment => segment.index);
+        expect(coverage.coveredChars).toBe(transcript.length);
+        expect(coveragePercent(coverage)).toBe(100);
+    });
+});
+
+describe('segmentContext', () => {
+    it('only mentions the part for multi-segment transcripts', () => {
+        expect(segmentContext({ index: 0, total: 1, start: 0, end: 1, text: 'a' })).toBe('');
+        expect(segmentContext({ index: 1, total: 3, start: 0, end: 1, text: 'a' })).toContain('part 2 of 3');
+    });
+});
+
+describe('dedupeBy', () => {
+    it('keeps the first of near-identical items', () => {
+        const items = ['What is a cell?', 'what is a cell', 'What is an atom?', 'What is the cell?'];
+        expect(dedupeBy(items, item => item)).toEqual(['What is a cell?', 'What is an atom?', 'What is the cell?']);
+    });
+});
@@ -0,0 +1,151 @@
+import { Flashcard, QuizQuestion, TranscriptCoverage } from '../types';
+import { isAbortError } from './requestService';
+
+// Longest transcript slice sent in a single request
+export const MAX_SEGMENT_CHARS = 30000;
+// Shared text between neighbouring segments so ideas cut at a boundary appear whole in one of them
+export const SEGMENT_OVERLAP_CHARS = 2000;
+
+export interface TranscriptSegment {
+    index: number;
+    total: number;
+    start: number; // offset into the transcript
+    end: number;   // exclusive
+    text: string;
+}
+
+// Prefers to end a segment at a paragraph, then a sentence, then a word boundary
+const findBreak = (text: string, from: number, to: number): number => {
+    const window = text.slice(from, to);
+    for (const separator of ['\n\n', '\n', '. ', '? ', '! ', ' ']) {
+        const at = window.lastIndexOf(separator);
+        if (at > 0) return from + at + separator.length;
+    }
+    return to;
+};
+
+export const splitTranscript = (
+    transcript: string,
+    maxChars = MAX_SEGMENT_CHARS,
+    overlap = SEGMENT_OVERLAP_CHARS
+): TranscriptSegment[] => {
+    if (transcript.length <= maxChars) {
+        return [{ index: 0, total: 1, start: 0, end: transcript.length, text: transcript }];
+    }
+
+    const ranges: { start: number; end: number }[] = [];
+    let start = 0;
+    while (start < transcript.length) {
+        let end = Math.min(start + maxChars, transcript.length);
+        if (end < transcript.length) {
+            // Only look for a boundary in the tail so segments stay close to full size
+            end = findBreak(transcript, end - overlap, end);
+        }
+        ranges.push({ start, end });
+        if (end >= transcript.length) break;
+        // Step back by the overlap, then forward to the next word
+        const next = transcript.indexOf(' ', end - overlap);
+        start = next > start && next < end ? next + 1 : end;
+    }
+
+    return ranges.map((range, index) => ({
+        index,
+        total: ranges.length,
+        ...range,
+        text: transcript.slice(range.start, range.end),
+    }));
+};
+
+// Characters covered by the union of the given segments
+const coveredLength = (segments: TranscriptSegment[]): number => {
+    const sorted = [...segments].sort((a, b) => a.start - b.start);
+    let covered = 0;
+    let reach = 0;
+    sorted.forEach(({ start, end }) => {
+        if (end > reach) {
+            covered += end - Math.max(start, reach);
+            reach = end;
+        }
+    });
+    return covered;
+};
+
+export const fullCoverage = (transcript: string): TranscriptCoverage => ({
+    coveredChars: transcript.length,
+    totalChars: transcript.length,
+    segments: 1,
+    failedSegments: 0,
+});
+
+export const coveragePercent = (coverage: TranscriptCoverage): number => {
+    return coverage.totalChars > 0 ? Math.round((coverage.coveredChars / coverage.totalChars) * 100) : 100;
+};
+
+// Runs a task on every segment of the transcript. Segments whose task fails are left out
+// of the results and the coverage; the call only fails when every segment does.
+export const mapSegments = async <T>(
+    transcript: string,
+    task: (segment: TranscriptSegment) => Promise<T>
+): Promise<{ results: T[]; coverage: TranscriptCoverage }> => {
+    const segments = splitTranscript(transcript);
+    const settled = await Promise.allSettled(segments.map(task));
+
+    // A cancelled generation is abandoned, not returned as a partial result
+    const aborted = settled.find(result => result.status === 'rejected' && isAbortError(result.reason));
+    if (aborted) {
+        throw (aborted as PromiseRejectedResult).reason;
+    }
+
+    const succeeded = segments.filter((_, i) => settled[i].status === 'fulfilled');
+    if (succeeded.length === 0) {
+        throw (settled[0] as PromiseRejectedResult).reason;
+    }
+    settled.forEach((result, i) => {
+        if (result.status === 'rejected') console.error(`Segment ${i + 1}/${segments.length} failed`, result.reason);
+    });
+
+    return {
+        results: settled.flatMap(result => result.status === 'fulfilled' ? [result.value] : []),
+        coverage: {
+            coveredChars: coveredLength(succeeded),
+            totalChars: transcript.length,
+            segments: segments.length,
+            failedSegments: segments.length - succeeded.length,
+        },
+    };
+};
+
+// Tells the model it only sees part of the lecture; empty for single-segment transcripts
+export const segmentContext = (segment: TranscriptSegment): string => {
+    if (segment.total === 1) return '';
+    return `NOTE: This is part ${segment.index + 1} of ${segment.total} of a longer lecture. Only cover what is in this part.`;
+};
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+
+const wordSet = (text: string) => new Set(normalizeText(text).split(' ').filter(Boolean));
+
+// Treats two texts as the same item when they share most of their words
+const isNearDuplicate = (a: string, b: string): boolean => {
+    const wordsA = wordSet(a);
+    const wordsB = wordSet(b);
+    if (wordsA.size === 0 || wordsB.size === 0) return normalizeText(a) === normalizeText(b);
+    let shared = 0;
+    wordsA.forEach(word => { if (wordsB.has(word)) shared++; });
+    return shared / (wordsA.size + wordsB.size - shared) >= 0.8;
+};
+
+// Keeps the first of every group of near-identical items (overlapping segments repeat material)
+export const dedupeBy = <T>(items: T[], key: (item: T) => string): T[] => {
+    const kept: T[] = [];
+    items.forEach(item => {
+        if (!kept.some(existing => isNearDuplicate(key(existing), key(item)))) {
+            kept.push(item);
+        }
+    });
+    return kept;
+};
+
+export const dedupeFlashcards = (cards: Flashcard[]): Flashcard[] => dedupeBy(cards, c => c.front);
+
+export const dedupeQuiz = (questions: QuizQuestion[]): QuizQuestion[] => dedupeBy(questions, q => q.question);
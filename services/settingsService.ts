@@ -0,0 +1,80 @@
+import type { LlmTask, ProviderId } from './llmProvider';
+import type { GenerationParams } from '../types';
+
+// Small user preferences live in localStorage; lecture data goes through storageService.
+const SETTINGS_KEY = 'ezi_settings';
+
+export interface AppSettings {
+    // Days a deleted lecture stays in the Trash before it is purged (0 = keep forever)
+    trashRetentionDays: number;
+    // Show a storage warning once usage reaches this share of the quota
+    storageWarningPercent: number;
+    // Hours between automatic library snapshots (0 = off)
+    backupIntervalHours: number;
+    // Snapshots kept per reason (automatic, manual, before restore) before the oldest are rotated out
+    backupKeepCount: number;
+    // Which language model provider handles each task
+    taskProviders: Record<LlmTask, ProviderId>;
+    geminiModel: string;
+    // OpenAI-compatible chat completions endpoint, e.g. llama.cpp, vLLM or Ollama
+    openAiBaseUrl: string;
+    openAiApiKey: string;
+    openAiModel: string;
+    // Mock provider behaviour: delay per call and the share of calls that fail (0-1)
+    mockLatencyMs: number;
+    mockRateLimitRate: number;
+    mockMalformedJsonRate: number;
+    // Client-side request limit per provider (0 = unlimited)
+    requestsPerMinute: Record<ProviderId, number>;
+    // Space cached AI results may use before the least recently used are dropped (0 = no caching)
+    generationCacheLimitMb: number;
+    // Parameters last used in the generation modal, also used by the per-tab generate buttons
+    generationParams: GenerationParams;
+    // Spending limit per calendar month in USD (0 = no budget)
+    monthlyBudgetUsd: number;
+    // Warn once this share of the monthly budget has been spent
+    budgetWarningPercent: number;
+    // USD per million input and output tokens, used to price recorded usage
+    tokenPricesUsd: Record<ProviderId, { input: number; output: number }>;
+}
+
+const DEFAULT_SETTINGS: AppSettings = {
+    trashRetentionDays: 30,
+    storageWarningPercent: 80,
+    backupIntervalHours: 24,
+    backupKeepCount: 7,
+    taskProviders: { summary: 'gemini', flashcards: 'gemini', quiz: 'gemini', notes: 'gemini', mindmap: 'gemini', chat: 'gemini' },
+    // Flash keeps generation fast and within free tier quotas
+    geminiModel: 'gemini-2.5-flash',
+    openAiBaseUrl: 'http://localhost:11434/v1',
+    openAiApiKey: '',
+    openAiModel: 'llama3.1',
+    mockLatencyMs: 800,
+    mockRateLimitRate: 0,
+    mockMalformedJsonRate: 0,
+    // Gemini's free tier allows about 10 requests per minute for Flash
+    requestsPerMinute: { gemini: 10, openai: 0, mock: 0 },
+    generationCacheLimitMb: 25,
+    generationParams: { flashcardCount: 10, quizCount: 5, difficulty: 'balanced', audience: 'intermediate', noteLength: 'standard', mindMapDepth: 3 },
+    monthlyBudgetUsd: 0,
+    budgetWarningPercent: 80,
+    // Paid-tier list prices for Gemini 2.5 Flash; self-hosted models cost nothing per token
+    tokenPricesUsd: { gemini: { input: 0.3, output: 2.5 }, openai: { input: 0, output: 0 }, mock: { input: 0, output: 0 } },
+};
+
+export const getSettings = (): AppSettings => {
+    const existingStr = localStorage.getItem(SETTINGS_KEY);
+    if (!existingStr) return { ...DEFAULT_SETTINGS };
+    try {
+        return { ...DEFAULT_SETTINGS, ...JSON.parse(existingStr) };
+    } catch (e) {
+        console.error("Error parsing settings", e);
+        return { ...DEFAULT_SETTINGS };
+    }
+};
+
+export const updateSettings = (partialUpdate: Partial<AppSettings>): AppSettings => {
+    const updated = { ...getSettings(), ...partialUpdate };
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(updated));
+    return updated;
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { ArtifactRevision, LectureData } from '../types';
+import { getLectureChanges } from './storageService';
+
+const lecture = (overrides: Partial<LectureData> = {}): LectureData => ({
+    id: 'a',
+    title: 'Lecture',
+    date: '2024-01-01T00:00:00.000Z',
+    duration: 60,
+    transcriptText: 'Hello',
+    sessions: [],
+    chunks: [],
+    tags: [],
+    ...overrides,
+});
+
+const revision = (id: string): ArtifactRevision => ({ id, createdAt: '2024-01-01T00:00:00.000Z', generator: 'test', content: id });
+
+describe('getLectureChanges', () => {
+    it('patches only the fields the edit changed', () => {
+        const base = lecture();
+        const updated = lecture({ title: 'Renamed' });
+        // Another tab changed the tags meanwhile
+        const current = lecture({ tags: ['math'] });
+
+        const patch = getLectureChanges(base, updated, current);
+        expect(patch).toEqual({ title: 'Renamed' });
+        expect({ ...current, ...patch }).toMatchObject({ title: 'Renamed', tags: ['math'] });
+    });
+
+    it('returns an empty patch when nothing changed', () => {
+        expect(getLectureChanges(lecture(), lecture(), lecture({ title: 'Other' }))).toEqual({});
+    });
+
+    it('includes fields the edit cleared', () => {
+        const patch = getLectureChanges(lecture({ studyNotes: 'notes' }), lecture({ studyNotes: undefined }), lecture({ studyNotes: 'notes' }));
+        expect(patch).toHaveProperty('studyNotes', undefined);
+    });
+
+    it('merges revision histories per artifact', () => {
+        const base = lecture({ revisions: { summary: [revision('s1')] } });
+        const updated = lecture({ revisions: { summary: [revision('s1'), revision('s2')] } });
+        const current = lecture({ revisions: { summary: [revision('s1')], notes: [revision('n1')] } });
+
+        expect(getLectureChanges(base, updated, current).revisions).toEqual({
+            summary: [revision('s1'), revision('s2')],
+            notes: [revision('n1')],
+        });
+    });
+});
@@ -1,100 +1,446 @@
-import { LectureData } from '../types';
+import { LectureData, TranscriptSession } from '../types';
+import { openDb, requestToPromise, transactionDone, STORE_LECTURES } from './db';
+import { CURRENT_SCHEMA_VERSION, upgradeLecture, readBundle, createBundle } from './schemaService';
+import { ImportItem, ImportResolution, classifyImport, resolveImport, defaultResolution } from './mergeService';
+import { notifyLibraryChanged } from './syncService';
+import { resealSnapshots } from './backupService';
+import { clearGenerationCache } from './cacheService';
+import { deleteLectureAudio, resealAudio, findOrphanedRecordings } from './audioService';
+import { EncryptedPayload, PassphraseEnvelope, getVaultKey, isVaultEnabled, encryptJson, decryptJson, encryptWithPassphrase, decryptWithPassphrase, createVault, unlockVault, removeVault } from './cryptoService';
 
-const STORAGE_KEY = 'kragle_transcripts';
+// Legacy localStorage key, kept only so existing libraries can be migrated
+const LEGACY_STORAGE_KEY = 'kragle_transcripts';
 
-export const saveLecture = (lecture: LectureData): void => {
-  const existingStr = localStorage.getItem(STORAGE_KEY);
-  let lectures: LectureData[] = existingStr ? JSON.parse(existingStr) : [];
-  
-  const index = lectures.findIndex(l => l.id === lecture.id);
-  if (index >= 0) {
-    lectures[index] = lecture;
-  } else {
-    lectures.push(lecture);
+let migrationPromise: Promise<void> | null = null;
+
+// One-time move of the old single-key localStorage library into IndexedDB.
+// The legacy key is only removed after the IndexedDB transaction has committed.
+const migrateFromLocalStorage = async (): Promise<void> => {
+  const existingStr = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!existingStr) return;
+
+  let legacy: LectureData[];
+  try {
+    const data = JSON.parse(existingStr);
+    legacy = Array.isArray(data) ? data : [];
+  } catch (e) {
+    // Leave the key untouched so nothing is lost; the user can still export it manually
+    console.error("Error parsing legacy storage, skipping migration", e);
+    return;
   }
-  
-  // Sort by date desc
-  lectures.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-  
+
+  const db = await openDb();
+  const existingIds = new Set(await requestToPromise(db.transaction(STORE_LECTURES).objectStore(STORE_LECTURES).getAllKeys()));
+  // Records already in IndexedDB are newer than the legacy copy
+  const sealed = await Promise.all(
+    legacy.filter(lecture => lecture?.id && !existingIds.has(lecture.id)).map(lecture => sealRecord(upgradeLecture(lecture)))
+  );
+
+  const tx = db.transaction(STORE_LECTURES, 'readwrite');
+  const store = tx.objectStore(STORE_LECTURES);
+  sealed.forEach(record => store.put(record));
+  await transactionDone(tx);
+
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+const getStore = async (mode: IDBTransactionMode) => {
+  if (!migrationPromise) {
+    migrationPromise = migrateFromLocalStorage().catch(e => {
+      console.error("Migration to IndexedDB failed", e);
+      migrationPromise = null;
+    });
+  }
+  await migrationPromise;
+  const db = await openDb();
+  const tx = db.transaction(STORE_LECTURES, mode);
+  return { tx, store: tx.objectStore(STORE_LECTURES) };
+};
+
+const isQuotaError = (e: unknown) => e instanceof DOMException && e.name === 'QuotaExceededError';
+
+// Shape of a lecture at rest while the library is encrypted. Only id and date stay
+// readable; everything else, tags included, is in `sealed` (see the tags index in db.ts).
+interface SealedRecord {
+  id: string;
+  date: string;
+  sealed: EncryptedPayload;
+}
+
+const isSealed = (record: any): record is SealedRecord => !!record?.sealed;
+
+// Prepares a lecture for writing: stamps the schema version and encrypts it when the vault is on
+const sealRecord = async (lecture: LectureData): Promise<LectureData | SealedRecord> => {
+  const stamped = { ...lecture, schemaVersion: CURRENT_SCHEMA_VERSION };
+  const key = getVaultKey();
+  if (!key) return stamped;
+  return { id: lecture.id, date: lecture.date, sealed: await encryptJson(key, stamped) };
+};
+
+// Upgrades records written by older builds as they are read
+const normalize = (record: any): LectureData => {
+  try {
+    return upgradeLecture(record);
+  } catch (e) {
+    // Written by a newer build (e.g. another tab after an update); show it untouched rather than hide it
+    console.warn(`Lecture ${record?.id} has an unknown schema version`, e);
+    return record;
+  }
+};
+
+// Reverses sealRecord; plaintext records (written before encryption was enabled) pass through
+const openRecord = async (record: any): Promise<LectureData> => {
+  if (!isSealed(record)) return normalize(record);
+  const key = getVaultKey();
+  if (!key) throw new Error(`Lecture ${record.id} is encrypted but encryption is disabled`);
+  return normalize(await decryptJson<LectureData>(key, record.sealed));
+};
+
+export const createLectureId = (): string => `lect_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+export const saveLecture = async (lecture: LectureData): Promise<void> => {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(lectures));
+    const record = await sealRecord(lecture);
+    const { tx, store } = await getStore('readwrite');
+    store.put(record);
+    await transactionDone(tx);
+    notifyLibraryChanged([lecture.id]);
   } catch (e) {
     console.error("Storage full or error", e);
-    alert("Local storage is full. Please export and delete old transcripts.");
+    if (isQuotaError(e)) {
+      alert("Browser storage is full. Please export and delete old transcripts.");
+    }
+  }
+};
+
+// Applies a partial update inside a single transaction so parallel writers
+// (e.g. the generation jobs) don't overwrite each other's fields.
+// Pass a function when the update depends on the stored value (e.g. appending history).
+export const updateLecture = async (
+  id: string,
+  partialUpdate: Partial<LectureData> | ((existing: LectureData) => Partial<LectureData>)
+): Promise<LectureData | undefined> => {
+  const applyPatch = (current: LectureData) => {
+    const patch = typeof partialUpdate === 'function' ? partialUpdate(current) : partialUpdate;
+    return { ...current, ...patch };
+  };
+
+  if (!isVaultEnabled()) {
+    const { tx, store } = await getStore('readwrite');
+    const existing = await requestToPromise<LectureData | undefined>(store.get(id));
+    if (!existing) return undefined;
+
+    const updated = applyPatch(normalize(existing));
+    store.put(updated);
+    await transactionDone(tx);
+    notifyLibraryChanged([id]);
+    return updated;
+  }
+
+  // WebCrypto is async and would let the transaction auto-commit mid-update, so encrypted
+  // records are updated optimistically: decrypt and re-seal outside the transaction, then
+  // write only if nobody else replaced the record in the meantime (every seal has a fresh IV).
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const { store: reader } = await getStore('readonly');
+    const existing = await requestToPromise<any>(reader.get(id));
+    if (!existing) return undefined;
+
+    const updated = applyPatch(await openRecord(existing));
+    const record = await sealRecord(updated);
+
+    const { tx, store } = await getStore('readwrite');
+    const latest = await requestToPromise<any>(store.get(id));
+    if (JSON.stringify(latest) !== JSON.stringify(existing)) {
+      tx.abort();
+      continue;
+    }
+    store.put(record);
+    await transactionDone(tx);
+    notifyLibraryChanged([id]);
+    return updated;
+  }
+  throw new Error(`Could not update lecture ${id}: it kept changing concurrently`);
+};
+
+const sameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// The fields that differ between `base` (the copy an edit started from) and `updated`, as a patch
+// for `current`, the freshest stored record. Revisions are compared per artifact.
+export const getLectureChanges = (base: LectureData, updated: LectureData, current: LectureData): Partial<LectureData> => {
+  const keys = new Set([...Object.keys(base), ...Object.keys(updated)]) as Set<keyof LectureData>;
+  const patch: Partial<LectureData> = {};
+  const take = <K extends keyof LectureData>(key: K) => {
+    patch[key] = updated[key];
+  };
+  [...keys].filter(key => !sameValue(base[key], updated[key])).forEach(key => {
+    if (key === 'revisions') {
+      // Histories of different artifacts are independent; merge per artifact
+      patch.revisions = { ...current.revisions };
+      const artifacts = new Set([...Object.keys(base.revisions || {}), ...Object.keys(updated.revisions || {})]) as Set<keyof NonNullable<LectureData['revisions']>>;
+      artifacts.forEach(artifact => {
+        if (!sameValue(base.revisions?.[artifact], updated.revisions?.[artifact])) {
+          patch.revisions![artifact] = updated.revisions?.[artifact];
+        }
+      });
+    } else {
+      take(key);
+    }
+  });
+  return patch;
+};
+
+// Persists only the fields that differ between `base` and `updated`, on top of the freshest
+// stored record. Edits to other fields made meanwhile, e.g. in another tab, survive.
+export const saveLectureChanges = async (base: LectureData, updated: LectureData): Promise<LectureData | undefined> => {
+  if (Object.keys(getLectureChanges(base, updated, base)).length === 0) return base;
+  return updateLecture(updated.id, existing => getLectureChanges(base, updated, existing));
+};
+
+const byDateDescending = (a: unknown, b: unknown): number => {
+  const aDate = typeof a === 'string' ? a : '';
+  const bDate = typeof b === 'string' ? b : '';
+  return aDate < bDate ? 1 : aDate > bDate ? -1 : 0;
+};
+
+const getAllRecords = async (): Promise<LectureData[]> => {
+  const { store } = await getStore('readonly');
+  // Not through the date index: an index skips records whose key is missing or invalid,
+  // and those lectures would silently drop out of the library and exports
+  const records = await requestToPromise<any[]>(store.getAll());
+  const lectures = await Promise.all(records.map(openRecord));
+  // Newest first, as the UI lists them; undated records last
+  return lectures.sort((a, b) => byDateDescending(a.date, b.date));
+};
+
+export const getLectures = async (): Promise<LectureData[]> => {
+  try {
+    return (await getAllRecords()).filter(l => !l.deletedAt);
+  } catch (e) {
+    console.error("Error reading storage", e);
+    return [];
   }
 };
 
-export const getLectures = (): LectureData[] => {
-  const existingStr = localStorage.getItem(STORAGE_KEY);
-  if (!existingStr) return [];
+export const getTrashedLectures = async (): Promise<LectureData[]> => {
   try {
-    const data = JSON.parse(existingStr);
-    return Array.isArray(data) ? data : [];
+    return (await getAllRecords())
+      .filter(l => l.deletedAt)
+      .sort((a, b) => new Date(b.deletedAt!).getTime() - new Date(a.deletedAt!).getTime());
   } catch (e) {
-    console.error("Error parsing storage", e);
+    console.error("Error reading storage", e);
     return [];
   }
 };
 
-export const getLectureById = (id: string): LectureData | undefined => {
-  const lectures = getLectures();
-  return lectures.find(l => l.id === id);
+// Every record including the Trash, e.g. for backups
+export const getAllLectures = async (): Promise<LectureData[]> => {
+  return getAllRecords();
+};
+
+export const getLectureById = async (id: string): Promise<LectureData | undefined> => {
+  const { store } = await getStore('readonly');
+  const record = await requestToPromise<any>(store.get(id));
+  return record ? openRecord(record) : undefined;
+};
+
+// Soft delete: the lecture moves to the Trash and can be restored until it is purged
+export const deleteLecture = async (id: string): Promise<void> => {
+  await updateLecture(id, { deletedAt: new Date().toISOString() });
+};
+
+export const restoreLecture = async (id: string): Promise<void> => {
+  await updateLecture(id, { deletedAt: undefined });
+};
+
+// Permanently removes lectures from storage
+export const purgeLectures = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const { tx, store } = await getStore('readwrite');
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+  await deleteLectureAudio(ids);
+  notifyLibraryChanged(ids);
+};
+
+export const emptyTrash = async (): Promise<void> => {
+  const trashed = await getTrashedLectures();
+  await purgeLectures(trashed.map(l => l.id));
+};
+
+// Purges Trash entries older than the retention period; returns how many were removed
+export const purgeExpiredTrash = async (retentionDays: number): Promise<number> => {
+  if (retentionDays <= 0) return 0;
+  const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+  const expired = (await getTrashedLectures()).filter(l => new Date(l.deletedAt!).getTime() < cutoff);
+  await purgeLectures(expired.map(l => l.id));
+  return expired.length;
+};
+
+// Recordings are stored while they are made, so one whose tab closed before it was saved
+// is still there. Each becomes a session without a transcript on its lecture, or a new
+// lecture if that was never saved. Returns how many were recovered.
+export const recoverInterruptedRecordings = async (): Promise<number> => {
+  const lectures = await getAllRecords();
+  const known = new Set(lectures.flatMap(l => (l.sessions || []).map(s => s.id)));
+  const orphans = await findOrphanedRecordings(known);
+
+  for (const orphan of orphans) {
+    const session: TranscriptSession = {
+      id: orphan.sessionId,
+      startTime: orphan.startTime,
+      endTime: orphan.endTime,
+      duration: orphan.duration,
+      text: '',
+      hasAudio: true,
+    };
+    if (lectures.some(l => l.id === orphan.lectureId)) {
+      await updateLecture(orphan.lectureId, existing => ({
+        duration: existing.duration + session.duration,
+        sessions: [...(existing.sessions || []), session],
+      }));
+    } else {
+      await saveLecture({
+        id: orphan.lectureId,
+        title: `Recovered recording ${new Date(orphan.startTime).toLocaleString()}`,
+        date: orphan.startTime,
+        duration: session.duration,
+        transcriptText: '',
+        chunks: [],
+        sessions: [session],
+        tags: [],
+      });
+    }
+  }
+  return orphans.length;
+};
+
+// Puts the library back to the state of a snapshot. Lectures created since then are
+// moved to the Trash rather than purged, so a restore can itself be undone.
+export const restoreFromSnapshot = async (snapshot: LectureData[]): Promise<void> => {
+  const snapshotIds = new Set(snapshot.map(l => l.id));
+  const now = new Date().toISOString();
+  const newer = (await getAllRecords()).filter(l => !snapshotIds.has(l.id) && !l.deletedAt);
+  const records = await Promise.all([
+    ...snapshot.map(sealRecord),
+    ...newer.map(l => sealRecord({ ...l, deletedAt: now })),
+  ]);
+
+  const { tx, store } = await getStore('readwrite');
+  records.forEach(record => store.put(record));
+  await transactionDone(tx);
+  notifyLibraryChanged([...snapshotIds, ...newer.map(l => l.id)]);
+};
+
+// Re-writes every record so the whole library is encrypted with a new passphrase
+export const enableEncryption = async (passphrase: string): Promise<void> => {
+  const lectures = await getAllRecords();
+  // The descriptor is written first: if anything below fails, records are either
+  // still plaintext or already sealed with a key the passphrase can recreate.
+  await createVault(passphrase);
+  await rewriteAll(lectures);
+  await resealSnapshots(null, getVaultKey());
+  await resealAudio(null, getVaultKey());
+  // Cached results were stored in plaintext; they are cheap to regenerate
+  await clearGenerationCache();
 };
 
-export const deleteLecture = (id: string): void => {
-  const lectures = getLectures();
-  const filtered = lectures.filter(l => l.id !== id);
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(filtered));
+export const disableEncryption = async (passphrase: string): Promise<void> => {
+  await unlockVault(passphrase);
+  const lectures = await getAllRecords();
+  const { tx, store } = await getStore('readwrite');
+  lectures.forEach(lecture => store.put({ ...lecture, schemaVersion: CURRENT_SCHEMA_VERSION }));
+  await transactionDone(tx);
+  await resealSnapshots(getVaultKey(), null);
+  await resealAudio(getVaultKey(), null);
+  await clearGenerationCache();
+  removeVault();
+  notifyLibraryChanged(lectures.map(l => l.id));
 };
 
-export const exportData = (lectures: LectureData[]): void => {
-  const dataStr = JSON.stringify({
-    app: "Ezi",
-    version: "1.0",
-    exportedAt: new Date().toISOString(),
-    data: lectures
-  }, null, 2);
+const rewriteAll = async (lectures: LectureData[]) => {
+  const records = await Promise.all(lectures.map(sealRecord));
+  const { tx, store } = await getStore('readwrite');
+  records.forEach(record => store.put(record));
+  await transactionDone(tx);
+  notifyLibraryChanged(lectures.map(l => l.id));
+};
+
+// Encrypted export files wrap the whole bundle in a passphrase envelope
+interface EncryptedBundle {
+  app: string;
+  encrypted: PassphraseEnvelope;
+}
+
+export class PassphraseRequiredError extends Error {
+  constructor() {
+    super("This export is encrypted. Enter its passphrase to import it.");
+    this.name = 'PassphraseRequiredError';
+  }
+}
+
+export const exportData = async (lectures: LectureData[], passphrase?: string, fileName = `Ezi_export_${new Date().toISOString().slice(0, 10)}.json`): Promise<void> => {
+  const bundle = createBundle(lectures);
+  const payload: typeof bundle | EncryptedBundle = passphrase
+    ? { app: bundle.app, encrypted: await encryptWithPassphrase(passphrase, bundle) }
+    : bundle;
+  const dataStr = JSON.stringify(payload, null, 2);
   
   const blob = new Blob([dataStr], { type: "application/json" });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
-  link.download = `Ezi_export_${new Date().toISOString().slice(0, 10)}.json`;
+  link.download = fileName;
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
 };
 
-export const importData = (file: File): Promise<number> => {
+const readFileText = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const content = e.target?.result as string;
-        const parsed = JSON.parse(content);
-        
-        if (!parsed.data || !Array.isArray(parsed.data)) {
-          throw new Error("Invalid format");
-        }
-
-        const newLectures = parsed.data as LectureData[];
-        const currentLectures = getLectures();
-        
-        // Merge strategy: Add if ID doesn't exist, skip if it does (simplistic for now)
-        let addedCount = 0;
-        newLectures.forEach(nl => {
-            if (!currentLectures.find(cl => cl.id === nl.id)) {
-                currentLectures.push(nl);
-                addedCount++;
-            }
-        });
-
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(currentLectures));
-        resolve(addedCount);
-      } catch (err) {
-        reject(err);
-      }
-    };
+    reader.onload = (e) => resolve(e.target?.result as string);
+    reader.onerror = () => reject(reader.error);
     reader.readAsText(file);
   });
 };
+
+// Parses an export file and classifies each lecture against the local library without writing anything
+export const previewImport = async (file: File, passphrase?: string): Promise<ImportItem[]> => {
+  const content = await readFileText(file);
+  let parsed = JSON.parse(content);
+
+  if (parsed?.encrypted) {
+    if (!passphrase) throw new PassphraseRequiredError();
+    // Throws WrongPassphraseError when the passphrase doesn't match
+    parsed = await decryptWithPassphrase(passphrase, (parsed as EncryptedBundle).encrypted);
+  }
+
+  // Rejects bundles from newer app versions and upgrades older ones
+  const incoming = readBundle(parsed);
+  // Against the Trash too, so a trashed copy is diffed instead of silently overwritten
+  return classifyImport(incoming, await getAllLectures());
+};
+
+// Writes the chosen resolution for every previewed lecture in one transaction
+export const applyImport = async (items: ImportItem[], resolutions: Record<string, ImportResolution>): Promise<{ added: number; updated: number }> => {
+  let added = 0;
+  let updated = 0;
+  const records: (LectureData | SealedRecord)[] = [];
+
+  for (const item of items) {
+    const resolved = resolveImport(item, resolutions[item.incoming.id] || defaultResolution(item));
+    if (!resolved) continue;
+    records.push(await sealRecord(resolved));
+    if (item.local) {
+      updated++;
+    } else {
+      added++;
+    }
+  }
+
+  const { tx, store } = await getStore('readwrite');
+  records.forEach(record => store.put(record));
+  await transactionDone(tx);
+  notifyLibraryChanged(items.map(item => item.incoming.id));
+  return { added, updated };
+};
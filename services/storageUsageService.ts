@@ -0,0 +1,76 @@
+import { LectureData } from '../types';
+
+export interface StorageEstimate {
+    usage: number; // bytes
+    quota: number; // bytes
+}
+
+export type LecturePart = 'transcript' | 'sessions' | 'chunks' | 'chatHistory' | 'generated' | 'revisions' | 'audio';
+
+export interface LectureSizeBreakdown {
+    id: string;
+    title: string;
+    total: number;
+    parts: Record<LecturePart, number>;
+}
+
+export const PART_LABELS: Record<LecturePart, string> = {
+    transcript: 'Transcript',
+    sessions: 'Sessions',
+    chunks: 'Timestamped Segments',
+    chatHistory: 'Chat History',
+    generated: 'AI Content',
+    revisions: 'Revision History',
+    audio: 'Recordings',
+};
+
+const encoder = new TextEncoder();
+
+// Approximate stored size: UTF-8 length of the serialized value
+const sizeOf = (value: unknown): number => {
+    if (value === undefined) return 0;
+    return encoder.encode(JSON.stringify(value)).length;
+};
+
+// Recordings are stored outside the lecture record; pass their size (see getLectureAudioSizes)
+export const measureLecture = (lecture: LectureData, audioBytes = 0): LectureSizeBreakdown => {
+    const parts: Record<LecturePart, number> = {
+        transcript: sizeOf(lecture.transcriptText),
+        sessions: sizeOf(lecture.sessions),
+        chunks: sizeOf(lecture.chunks),
+        chatHistory: sizeOf(lecture.chatHistory),
+        generated: sizeOf(lecture.summary) + sizeOf(lecture.flashcards) + sizeOf(lecture.quiz) + sizeOf(lecture.studyNotes) + sizeOf(lecture.mindmap),
+        revisions: sizeOf(lecture.revisions),
+        audio: audioBytes,
+    };
+    return {
+        id: lecture.id,
+        title: lecture.title,
+        total: sizeOf(lecture) + audioBytes,
+        parts,
+    };
+};
+
+// Origin-wide usage as reported by the browser; null where the Storage API is unavailable
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+    if (!navigator.storage?.estimate) return null;
+    try {
+        const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+        return { usage, quota };
+    } catch (e) {
+        console.warn("Storage estimate failed", e);
+        return null;
+    }
+};
+
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ['KB', 'MB', 'GB', 'TB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
@@ -0,0 +1,46 @@
+// Tells other open tabs that the stored library changed so they can reload it.
+// BroadcastChannel where available, otherwise a localStorage "ping" key whose storage event fires in other tabs.
+const CHANNEL_NAME = 'ezi-library';
+const PING_KEY = 'ezi_library_changed';
+
+export interface LibraryChange {
+    ids: string[];
+}
+
+type ChangeListener = (change: LibraryChange) => void;
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+export const notifyLibraryChanged = (ids: string[]): void => {
+    const change: LibraryChange = { ids };
+    if (channel) {
+        channel.postMessage(change);
+        return;
+    }
+    try {
+        // Timestamp makes every write a change, otherwise identical values wouldn't fire the event
+        localStorage.setItem(PING_KEY, JSON.stringify({ ...change, at: Date.now() }));
+    } catch (e) {
+        console.warn("Could not notify other tabs", e);
+    }
+};
+
+// Subscribes to changes made in other tabs; returns an unsubscribe function
+export const subscribeToLibraryChanges = (listener: ChangeListener): (() => void) => {
+    if (channel) {
+        const handleMessage = (e: MessageEvent<LibraryChange>) => listener(e.data);
+        channel.addEventListener('message', handleMessage);
+        return () => channel.removeEventListener('message', handleMessage);
+    }
+
+    const handleStorage = (e: StorageEvent) => {
+        if (e.key !== PING_KEY || !e.newValue) return;
+        try {
+            listener(JSON.parse(e.newValue));
+        } catch (err) {
+            console.warn("Ignoring malformed library change", err);
+        }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+};
@@ -0,0 +1,149 @@
+import type { LlmTask, ProviderId } from './llmProvider';
+import { openDb, requestToPromise, transactionDone, STORE_USAGE } from './db';
+import * as SettingsService from './settingsService';
+import { v4 as uuidv4 } from 'uuid';
+
+// Log of every AI call with its token counts, model, task and latency, for the usage
+// dashboard and the monthly budget. Records hold no lecture content, so they are stored
+// unencrypted even when the library is.
+
+export interface UsageRecord {
+    id: string;
+    at: number; // epoch ms
+    task: LlmTask;
+    // "provider:model", as from getModelId
+    model: string;
+    lectureId?: string;
+    inputTokens: number;
+    outputTokens: number;
+    latencyMs: number;
+    // Priced when recorded, so later price changes don't rewrite history
+    costUsd: number;
+}
+
+export interface UsageTotals {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+    latencyMs: number; // summed; divide by calls for the average
+}
+
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetStatus {
+    monthCostUsd: number;
+    budgetUsd: number; // 0 = no budget
+    share: number; // of the budget spent, 0 when there is none
+    level: BudgetLevel;
+}
+
+const priceOf = (model: string, inputTokens: number, outputTokens: number): number => {
+    const providerId = model.split(':')[0] as ProviderId;
+    const price = SettingsService.getSettings().tokenPricesUsd[providerId];
+    if (!price) return 0;
+    return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+};
+
+// Midnight on the first of the current month, local time
+export const getMonthStart = (now = new Date()): number => new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+
+// --- Budget status ---
+
+let budget: BudgetStatus = { monthCostUsd: 0, budgetUsd: 0, share: 0, level: 'ok' };
+// Month the status was counted for
+let budgetMonth = getMonthStart();
+const listeners = new Set<(status: BudgetStatus) => void>();
+
+const toBudgetStatus = (monthCostUsd: number): BudgetStatus => {
+    const { monthlyBudgetUsd, budgetWarningPercent } = SettingsService.getSettings();
+    if (monthlyBudgetUsd <= 0) return { monthCostUsd, budgetUsd: 0, share: 0, level: 'ok' };
+    const share = monthCostUsd / monthlyBudgetUsd;
+    const level: BudgetLevel = share >= 1 ? 'exceeded' : share * 100 >= budgetWarningPercent ? 'warning' : 'ok';
+    return { monthCostUsd, budgetUsd: monthlyBudgetUsd, share, level };
+};
+
+const setBudget = (next: BudgetStatus) => {
+    budget = next;
+    listeners.forEach(listener => listener(budget));
+};
+
+// Recomputes the month's spending, e.g. after the budget settings change
+export const refreshBudget = async (): Promise<BudgetStatus> => {
+    budgetMonth = getMonthStart();
+    const monthCost = totalUsage(await getUsageSince(budgetMonth)).costUsd;
+    setBudget(toBudgetStatus(monthCost));
+    return budget;
+};
+
+export const subscribeToBudget = (listener: (status: BudgetStatus) => void): (() => void) => {
+    listeners.add(listener);
+    listener(budget);
+    if (listeners.size === 1) refreshBudget().catch(e => console.warn("Failed to load AI usage", e));
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+// --- Records ---
+
+export const recordUsage = async (usage: Omit<UsageRecord, 'id' | 'at' | 'costUsd'>): Promise<void> => {
+    const record: UsageRecord = {
+        ...usage,
+        id: uuidv4(),
+        at: Date.now(),
+        costUsd: priceOf(usage.model, usage.inputTokens, usage.outputTokens),
+    };
+    const db = await openDb();
+    const tx = db.transaction(STORE_USAGE, 'readwrite');
+    tx.objectStore(STORE_USAGE).put(record);
+    await transactionDone(tx);
+
+    // A new month starts counting from zero
+    if (getMonthStart() !== budgetMonth) {
+        await refreshBudget();
+    } else {
+        setBudget(toBudgetStatus(budget.monthCostUsd + record.costUsd));
+    }
+};
+
+// Oldest first
+export const getUsageSince = async (from: number): Promise<UsageRecord[]> => {
+    const db = await openDb();
+    const store = db.transaction(STORE_USAGE).objectStore(STORE_USAGE);
+    return requestToPromise<UsageRecord[]>(store.index('at').getAll(IDBKeyRange.lowerBound(from)));
+};
+
+export const getLectureUsage = async (lectureId: string): Promise<UsageRecord[]> => {
+    const db = await openDb();
+    const store = db.transaction(STORE_USAGE).objectStore(STORE_USAGE);
+    return requestToPromise<UsageRecord[]>(store.index('lectureId').getAll(lectureId));
+};
+
+export const totalUsage = (records: UsageRecord[]): UsageTotals => records.reduce((totals, r) => ({
+    calls: totals.calls + 1,
+    inputTokens: totals.inputTokens + r.inputTokens,
+    outputTokens: totals.outputTokens + r.outputTokens,
+    costUsd: totals.costUsd + r.costUsd,
+    latencyMs: totals.latencyMs + r.latencyMs,
+}), { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, latencyMs: 0 });
+
+// Totals per group, e.g. per day or per task
+export const groupUsage = (records: UsageRecord[], keyOf: (record: UsageRecord) => string): Map<string, UsageTotals> => {
+    const groups = new Map<string, UsageRecord[]>();
+    records.forEach(record => {
+        const key = keyOf(record);
+        const group = groups.get(key);
+        if (group) group.push(record);
+        else groups.set(key, [record]);
+    });
+    return new Map([...groups.entries()].map(([key, group]) => [key, totalUsage(group)]));
+};
+
+export const clearUsage = async (): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction(STORE_USAGE, 'readwrite');
+    tx.objectStore(STORE_USAGE).clear();
+    await transactionDone(tx);
+    setBudget(toBudgetStatus(0));
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { checkFlashcards, checkQuiz, checkSummary, isAcceptable } from './validationService';
+
+const OPTIONS = ['Paris', 'Rome', 'Berlin', 'Madrid'];
+
+const quizItem = (correctAnswer: string, options: string[] = OPTIONS) => checkQuiz([{ question: 'Capital of France?', options, correctAnswer, explanation: 'e' }]);
+
+describe('checkQuiz', () => {
+    it('keeps well-formed questions as they are', () => {
+        const checked = quizItem('Paris');
+        expect(checked).toMatchObject({ valid: 1, dropped: 0, repaired: 0, issues: [] });
+        expect(checked.value[0].correctAnswer).toBe('Paris');
+    });
+
+    it('resolves letter and number answers to the option they point at', () => {
+        expect(quizItem('B').value[0].correctAnswer).toBe('Rome');
+        expect(quizItem('c)').value[0].correctAnswer).toBe('Berlin');
+        expect(quizItem('4.').value[0].correctAnswer).toBe('Madrid');
+        expect(quizItem('B').repaired).toBe(1);
+    });
+
+    it('matches answers that differ only by a label, case or trailing period', () => {
+        expect(quizItem('B) rome.').value[0].correctAnswer).toBe('Rome');
+        expect(quizItem('Paris', ['A) Paris', 'B) Rome', 'C) Berlin', 'D) Madrid']).value[0].correctAnswer).toBe('A) Paris');
+    });
+
+    it('puts a correct answer missing from three options back in', () => {
+        const [question] = quizItem('Paris', ['Rome', 'Berlin', 'Madrid']).value;
+        expect(question.options).toHaveLength(4);
+        expect(question.options).toContain('Paris');
+        expect(question.correctAnswer).toBe('Paris');
+    });
+
+    it('drops questions whose answer points at nothing', () => {
+        // "D" with only three options, and an answer that is in none of four options
+        expect(quizItem('D', ['Paris', 'Rome', 'Berlin'])).toMatchObject({ valid: 0, dropped: 1 });
+        expect(quizItem('Lisbon')).toMatchObject({ valid: 0, dropped: 1 });
+        expect(quizItem('Lisbon').issues[0]).toContain('Question #1');
+    });
+
+    it('removes duplicate options and keeps the correct one when there are too many', () => {
+        const [question] = quizItem('Oslo', ['Paris', 'Paris', 'Rome', 'Berlin', 'Madrid', 'Oslo']).value;
+        expect(question.options).toEqual(['Paris', 'Rome', 'Berlin', 'Oslo']);
+    });
+
+    it('rejects responses that are not arrays', () => {
+        expect(checkQuiz({ questions: [] })).toMatchObject({ valid: 0, dropped: 1 });
+    });
+});
+
+describe('checkFlashcards', () => {
+    it('repairs the difficulty and topic and drops empty cards', () => {
+        const checked = checkFlashcards([
+            { front: ' Q ', back: 'A', difficulty: 'hard', topic: 'Cells' },
+            { front: 'Q2', back: 'A2' },
+            { front: '', back: 'A3', difficulty: 'Easy', topic: 't' },
+        ]);
+
+        expect(checked.value).toEqual([
+            { front: 'Q', back: 'A', difficulty: 'Hard', topic: 'Cells' },
+            { front: 'Q2', back: 'A2', difficulty: 'Medium', topic: 'General' },
+        ]);
+        expect(checked).toMatchObject({ valid: 2, dropped: 1, repaired: 2 });
+    });
+});
+
+describe('checkSummary', () => {
+    it('falls back to the opening points when the overview is missing', () => {
+        const checked = checkSummary({ mainPoints: ['One.', 'Two.', 'Three.'], keyTerms: [{ term: 'T', definition: 'D' }] });
+        expect(checked.value.overview).toBe('One. Two.');
+        expect(checked.issues[0]).toContain('overview');
+    });
+
+    it('has nothing valid without an overview or points', () => {
+        expect(checkSummary({}).valid).toBe(0);
+    });
+});
+
+describe('isAcceptable', () => {
+    it('rejects responses with too large a share of dropped items', () => {
+        expect(isAcceptable({ value: [], valid: 3, dropped: 2, repaired: 0, issues: [] })).toBe(true);
+        expect(isAcceptable({ value: [], valid: 2, dropped: 3, repaired: 0, issues: [] })).toBe(false);
+        expect(isAcceptable({ value: [], valid: 0, dropped: 0, repaired: 0, issues: [] })).toBe(false);
+    });
+});
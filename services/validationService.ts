@@ -0,0 +1,194 @@
+import { Flashcard, QuizQuestion, SummaryData, KeyTerm } from '../types';
+
+// Runtime checks for structured AI responses. Models don't always follow the schema,
+// so every item is checked against the app's types, fixed where the intent is clear
+// and dropped otherwise.
+
+export interface Checked<T> {
+    value: T;
+    valid: number;    // items kept (including repaired ones)
+    dropped: number;  // items that could not be used
+    repaired: number;
+    issues: string[]; // human-readable problems, fed back to the model on a re-ask
+}
+
+export const QUIZ_OPTION_COUNT = 4;
+const DIFFICULTIES: Flashcard['difficulty'][] = ['Easy', 'Medium', 'Hard'];
+
+const asText = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+// Result of checking one item: the fixed item, or null to drop it
+interface ItemCheck<T> {
+    item: T | null;
+    repaired: boolean;
+    issue?: string;
+}
+
+const checkList = <T>(raw: unknown, label: string, checkItem: (item: any, index: number) => ItemCheck<T>): Checked<T[]> => {
+    if (!Array.isArray(raw)) {
+        return { value: [], valid: 0, dropped: 1, repaired: 0, issues: [`Expected a JSON array of ${label}.`] };
+    }
+
+    const result: Checked<T[]> = { value: [], valid: 0, dropped: 0, repaired: 0, issues: [] };
+    raw.forEach((entry, index) => {
+        const { item, repaired, issue } = checkItem(entry ?? {}, index);
+        if (issue) result.issues.push(`${label} #${index + 1}: ${issue}`);
+        if (item) {
+            result.value.push(item);
+            result.valid++;
+            if (repaired) result.repaired++;
+        } else {
+            result.dropped++;
+        }
+    });
+    return result;
+};
+
+const checkFlashcard = (raw: any): ItemCheck<Flashcard> => {
+    const front = asText(raw.front);
+    const back = asText(raw.back);
+    if (!front || !back) return { item: null, repaired: false, issue: "'front' and 'back' must be non-empty strings." };
+
+    const difficulty = DIFFICULTIES.find(d => d.toLowerCase() === asText(raw.difficulty).toLowerCase());
+    const topic = asText(raw.topic);
+    const card: Flashcard = { front, back, difficulty: difficulty || 'Medium', topic: topic || 'General' };
+    // Source-language text is only asked for in bilingual mode
+    const sourceFront = asText(raw.sourceFront);
+    const sourceBack = asText(raw.sourceBack);
+    if (sourceFront && sourceBack) Object.assign(card, { sourceFront, sourceBack });
+    return {
+        item: card,
+        repaired: !difficulty || difficulty !== raw.difficulty || !topic,
+        issue: difficulty ? undefined : `'difficulty' must be one of ${DIFFICULTIES.join(', ')}.`,
+    };
+};
+
+export const checkFlashcards = (raw: unknown): Checked<Flashcard[]> => checkList(raw, 'Flashcard', checkFlashcard);
+
+// "B) Paris", "2. Paris" -> "Paris"
+const stripOptionLabel = (option: string) => option.replace(/^\s*(?:[A-Da-d]|[1-4])\s*[).:-]\s+/, '').trim();
+
+// A bare letter or number pointing at an option, e.g. "B" or "2)"
+const LETTER_ANSWER = /^\s*([A-Da-d])\s*[).:]?\s*$/;
+const NUMBER_ANSWER = /^\s*([1-4])\s*[).:]?\s*$/;
+
+const isOptionReference = (answer: string) => LETTER_ANSWER.test(answer) || NUMBER_ANSWER.test(answer);
+
+// Finds which option the model meant when correctAnswer isn't an exact copy; -1 when none
+const resolveAnswer = (options: string[], answer: string): number => {
+    const exact = options.indexOf(answer);
+    if (exact >= 0) return exact;
+
+    const normalize = (text: string) => stripOptionLabel(text).toLowerCase().replace(/[.\s]+$/, '');
+    const loose = options.findIndex(option => normalize(option) === normalize(answer));
+    if (loose >= 0) return loose;
+
+    const letter = answer.match(LETTER_ANSWER);
+    const number = answer.match(NUMBER_ANSWER);
+    const index = letter ? letter[1].toUpperCase().charCodeAt(0) - 65 : number ? Number(number[1]) - 1 : -1;
+    // "D" with only three options points at nothing
+    return index < options.length ? index : -1;
+};
+
+const checkQuizQuestion = (raw: any): ItemCheck<QuizQuestion> => {
+    const question = asText(raw.question);
+    if (!question) return { item: null, repaired: false, issue: "'question' must be a non-empty string." };
+
+    const rawOptions: string[] = Array.isArray(raw.options) ? raw.options.map(asText).filter(Boolean) : [];
+    let options = Array.from(new Set(rawOptions));
+    let repaired = options.length !== (Array.isArray(raw.options) ? raw.options.length : -1);
+    const answer = asText(raw.correctAnswer);
+
+    const answerIndex = resolveAnswer(options, answer);
+    let correctAnswer: string;
+    if (answerIndex >= 0) {
+        correctAnswer = options[answerIndex];
+        if (correctAnswer !== raw.correctAnswer) repaired = true;
+    } else if (answer && !isOptionReference(answer) && options.length === QUIZ_OPTION_COUNT - 1) {
+        // The answer text was left out of the options; put it back in a stable spot
+        options.splice(question.length % QUIZ_OPTION_COUNT, 0, answer);
+        correctAnswer = answer;
+        repaired = true;
+    } else {
+        return { item: null, repaired: false, issue: "'correctAnswer' must exactly match one of the 'options'." };
+    }
+
+    if (options.length > QUIZ_OPTION_COUNT) {
+        // Keep the correct answer plus the first distractors
+        options = [correctAnswer, ...options.filter(o => o !== correctAnswer)].slice(0, QUIZ_OPTION_COUNT);
+        options.sort((a, b) => rawOptions.indexOf(a) - rawOptions.indexOf(b));
+        repaired = true;
+    }
+    if (options.length < QUIZ_OPTION_COUNT) {
+        return { item: null, repaired: false, issue: `Each question needs exactly ${QUIZ_OPTION_COUNT} distinct 'options'.` };
+    }
+
+    const explanation = asText(raw.explanation);
+    return {
+        item: { question, options, correctAnswer, explanation },
+        repaired: repaired || !explanation,
+        issue: repaired ? "'options'/'correctAnswer' did not follow the rules and were corrected." : undefined,
+    };
+};
+
+export const checkQuiz = (raw: unknown): Checked<QuizQuestion[]> => checkList(raw, 'Question', checkQuizQuestion);
+
+const checkPoint = (raw: unknown): ItemCheck<string> => {
+    const point = asText(raw);
+    return point ? { item: point, repaired: false } : { item: null, repaired: false, issue: 'Must be a non-empty string.' };
+};
+
+const checkKeyTerm = (raw: any): ItemCheck<KeyTerm> => {
+    const term = asText(raw.term);
+    const definition = asText(raw.definition);
+    if (!term || !definition) return { item: null, repaired: false, issue: "'term' and 'definition' must be non-empty strings." };
+
+    const keyTerm: KeyTerm = { term, definition };
+    const sourceTerm = asText(raw.sourceTerm);
+    const sourceDefinition = asText(raw.sourceDefinition);
+    if (sourceTerm) keyTerm.sourceTerm = sourceTerm;
+    if (sourceDefinition) keyTerm.sourceDefinition = sourceDefinition;
+    return { item: keyTerm, repaired: false };
+};
+
+export const checkMainPoints = (raw: unknown): Checked<string[]> => checkList(raw, 'Main point', checkPoint);
+
+export const checkKeyTerms = (raw: unknown): Checked<KeyTerm[]> => checkList(raw, 'Key term', checkKeyTerm);
+
+// Combines the checks of several parts of one response
+export const combineChecks = <T>(value: T, ...parts: Checked<unknown>[]): Checked<T> => ({
+    value,
+    valid: parts.reduce((sum, p) => sum + p.valid, 0),
+    dropped: parts.reduce((sum, p) => sum + p.dropped, 0),
+    repaired: parts.reduce((sum, p) => sum + p.repaired, 0),
+    issues: parts.flatMap(p => p.issues),
+});
+
+export const checkSummary = (raw: any): Checked<SummaryData> => {
+    const mainPoints = checkMainPoints(raw?.mainPoints);
+    const keyTerms = checkKeyTerms(raw?.keyTerms);
+    let overview = asText(raw?.overview);
+    const overviewIssues: string[] = [];
+    if (!overview) {
+        overviewIssues.push("'overview' must be a non-empty string.");
+        // Fall back to the opening points rather than show an empty overview
+        overview = mainPoints.value.slice(0, 2).join(' ');
+    }
+
+    const checked = combineChecks({ overview, mainPoints: mainPoints.value, keyTerms: keyTerms.value }, mainPoints, keyTerms);
+    return {
+        ...checked,
+        // Without any overview or points there is nothing to show
+        valid: overview ? checked.valid : 0,
+        repaired: checked.repaired + overviewIssues.length,
+        issues: [...overviewIssues, ...checked.issues],
+    };
+};
+
+// Share of items that may be dropped before a response is rejected and the model asked again
+export const MAX_INVALID_SHARE = 0.4;
+
+export const isAcceptable = (checked: Checked<unknown>): boolean => {
+    const total = checked.valid + checked.dropped;
+    return checked.valid > 0 && checked.dropped / total <= MAX_INVALID_SHARE;
+};
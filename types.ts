@@ -3,6 +3,9 @@ export interface Flashcard {
   back: string;
   difficulty: 'Easy' | 'Medium' | 'Hard';
   topic: string;
+  // Bilingual lectures: the card in the transcript's language (front/back use the output language)
+  sourceFront?: string;
+  sourceBack?: string;
 }
 
 export interface QuizQuestion {
@@ -12,15 +15,25 @@ export interface QuizQuestion {
   explanation: string;
 }
 
+export interface KeyTerm {
+  term: string;
+  definition: string;
+  // Bilingual lectures: the term in the transcript's language
+  sourceTerm?: string;
+  sourceDefinition?: string;
+}
+
 export interface SummaryData {
   overview: string;
   mainPoints: string[];
-  keyTerms: { term: string; definition: string }[];
+  keyTerms: KeyTerm[];
 }
 
 export interface TranscriptChunk {
-  timestamp: number;
+  timestamp: number; // seconds into the session it was recorded in
   text: string;
+  // Session the chunk belongs to; unset for chunks recorded before sessions kept audio
+  sessionId?: string;
 }
 
 export interface TranscriptSession {
@@ -29,6 +42,8 @@ export interface TranscriptSession {
   endTime: string; // ISO string
   duration: number;
   text: string;
+  // The raw recording is kept in the audio store under the session id
+  hasAudio?: boolean;
 }
 
 export interface ChatMessage {
@@ -38,6 +53,7 @@ export interface ChatMessage {
 
 export interface LectureData {
   id: string;
+  schemaVersion?: number; // Stamped on save, see services/schemaService.ts
   title: string;
   date: string; // ISO string (Created date)
   duration: number; // Total seconds
@@ -52,6 +68,14 @@ export interface LectureData {
   
   // Organization
   tags?: string[];
+
+  // Language generated content is written in, e.g. "English" (unset = the transcript's language)
+  outputLanguage?: string;
+  // Flashcards and key terms also keep the transcript-language text
+  bilingual?: boolean;
+
+  // Set when the lecture is moved to the Trash (ISO string)
+  deletedAt?: string;
   
   // AI Generated Content (Optional/Lazy loaded)
   summary?: SummaryData;
@@ -60,6 +84,58 @@ export interface LectureData {
   studyNotes?: string; // Markdown
   mindmap?: string; // Mermaid.js syntax string
   chatHistory?: ChatMessage[];
+
+  // Previously generated versions of each AI artifact, oldest first
+  revisions?: Partial<Record<GeneratedArtifact, ArtifactRevision[]>>;
+
+  // How much of the transcript the current version of each artifact was generated from
+  coverage?: Partial<Record<GeneratedArtifact, TranscriptCoverage>>;
+}
+
+export type GeneratedArtifact = 'summary' | 'flashcards' | 'quiz' | 'notes' | 'mindmap';
+
+export type ArtifactContent = SummaryData | Flashcard[] | QuizQuestion[] | string;
+
+export interface ArtifactRevision {
+  id: string;
+  createdAt: string; // ISO string
+  generator: string; // e.g. "generateSummary", "expandSummary"
+  content: ArtifactContent;
+  coverage?: TranscriptCoverage;
+}
+
+export interface TranscriptCoverage {
+  coveredChars: number;
+  totalChars: number;
+  segments: number;
+  failedSegments: number;
+}
+
+// Generated content plus the part of the transcript it was based on
+export interface GenerationResult<T> {
+  content: T;
+  coverage: TranscriptCoverage;
+}
+
+export type DifficultyMix = 'easier' | 'balanced' | 'harder';
+export type AudienceLevel = 'beginner' | 'intermediate' | 'advanced';
+export type NoteLength = 'brief' | 'standard' | 'detailed';
+
+// Tunable parts of the generation prompts, chosen in the generation modal
+export interface GenerationParams {
+  flashcardCount: number;
+  quizCount: number;
+  difficulty: DifficultyMix; // Flashcards and quiz
+  audience: AudienceLevel;
+  noteLength: NoteLength;
+  mindMapDepth: number; // Levels below the root node
+}
+
+export interface ExportBundle {
+  app: string;
+  version: number | string; // Schema version of `data` ("1.0" in pre-versioned exports)
+  exportedAt: string;
+  data: LectureData[];
 }
 
 export type ViewMode = 'dashboard' | 'record' | 'detail';
@@ -14,7 +14,8 @@ export default defineConfig(({ mode }) => {
       'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
       'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
       'process.env.RAPID_API_KEY': JSON.stringify(env.RAPID_API_KEY),
-      'process.env.RAPID_API_HOST': JSON.stringify(env.RAPID_API_HOST)
+      'process.env.RAPID_API_HOST': JSON.stringify(env.RAPID_API_HOST),
+      'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER)
     },
     resolve: {
       alias: {